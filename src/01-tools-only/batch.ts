@@ -0,0 +1,118 @@
+import { UserError } from 'fastmcp';
+import { z } from 'zod';
+import { numericInput, precisionParameters } from '../shared/decimal';
+import { type CalculationResult, calculationResultSchema } from './results';
+
+/**
+ * Batch calculations.
+ *
+ * A batch is an ordered list of arithmetic steps executed in a single tool
+ * call. Operands can be numbers, decimal strings or references such as `$1`
+ * to the result of an earlier step (steps are numbered from 1), so a chain of
+ * calculations costs one round-trip instead of one per operation.
+ */
+
+export const BATCH_OPERATIONS = [
+  'add',
+  'subtract',
+  'multiply',
+  'divide',
+] as const;
+
+const REFERENCE_PATTERN = /^\$(\d+)$/;
+
+const operandSchema = z
+  .union([
+    numericInput,
+    z.string().regex(REFERENCE_PATTERN, 'References look like "$1"'),
+  ])
+  .describe(
+    'A number, a decimal string, or a reference like "$1" to the result of an earlier step',
+  );
+
+export const batchStepSchema = z.object({
+  op: z.enum(BATCH_OPERATIONS).describe('The operation to perform'),
+  a: operandSchema,
+  b: operandSchema,
+  ...precisionParameters,
+});
+
+export type BatchStep = z.infer<typeof batchStepSchema>;
+
+/** A step whose `$n` references have been replaced with earlier results. */
+export type ResolvedBatchStep = Omit<BatchStep, 'a' | 'b'> & {
+  a: number | string;
+  b: number | string;
+};
+
+const batchStepResultSchema = calculationResultSchema.extend({
+  step: z.number().describe('The step number, as used in "$n" references'),
+});
+
+export const batchResultSchema = z.object({
+  result: calculationResultSchema.shape.result.describe(
+    'The result of the final step',
+  ),
+  steps: z
+    .array(batchStepResultSchema)
+    .describe('Every intermediate result, in order'),
+});
+
+export type BatchResult = z.infer<typeof batchResultSchema>;
+
+/**
+ * Runs `steps` in order, resolving references before each one.
+ *
+ * @throws {UserError} naming the failed step, with the results of the steps
+ * that completed before it in the error payload
+ */
+export function runBatch(
+  steps: BatchStep[],
+  calculate: (step: ResolvedBatchStep) => CalculationResult,
+): BatchResult {
+  const results: BatchResult['steps'] = [];
+
+  const resolve = (operand: number | string) => {
+    const match =
+      typeof operand === 'string' ? REFERENCE_PATTERN.exec(operand) : null;
+    if (!match) {
+      return operand;
+    }
+    const earlier = results[Number(match[1]) - 1];
+    if (!earlier) {
+      throw new UserError(`${operand} does not refer to an earlier step`);
+    }
+    return earlier.result;
+  };
+
+  for (const [index, step] of steps.entries()) {
+    const stepNumber = index + 1;
+    try {
+      const result = calculate({
+        ...step,
+        a: resolve(step.a),
+        b: resolve(step.b),
+      });
+      results.push({ step: stepNumber, ...result });
+    } catch (error) {
+      if (!(error instanceof UserError)) {
+        throw error;
+      }
+      const completed = results
+        .map(({ step, result }) => `$${step} = ${result}`)
+        .join(', ');
+      throw new UserError(
+        `Step ${stepNumber} (${step.op}) failed: ${error.message}${completed ? `. Completed steps: ${completed}` : ''}`,
+        {
+          error: 'BatchStepFailed',
+          message: error.message,
+          failedStep: stepNumber,
+          details: error.extras,
+          steps: results,
+        },
+      );
+    }
+  }
+
+  return { result: results.at(-1)!.result, steps: results };
+}
@@ -3,17 +3,61 @@ import {
   experimental_createMCPClient as createMCPClient,
   generateText,
 } from 'ai';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types';
+import { cassetteTransport } from '../shared/cassette';
+import { createProgressBar } from '../shared/progress-bar';
+import { addTransportListener } from '../shared/transport-listeners';
 import { PORT } from './constants';
+import type { CalculationResult } from './results';
 
 const url = new URL(`http://localhost:${PORT}/mcp`);
-const mcpClient = await createMCPClient({
-  transport: new StreamableHTTPClientTransport(url),
-});
+const transport = cassetteTransport(
+  'calculator',
+  () => new StreamableHTTPClientTransport(url),
+);
+const mcpClient = await createMCPClient({ transport });
 
-const tools = await mcpClient.tools();
+let tools = await mcpClient.tools();
 console.dir(tools, { depth: null });
 
+// The server can add and remove tools at runtime. Watch for its
+// list_changed notification and re-fetch the tool list when it arrives.
+let toolsRefreshed = Promise.resolve();
+addTransportListener(transport, 'message', (message) => {
+  if (
+    'method' in message &&
+    message.method === 'notifications/tools/list_changed'
+  ) {
+    toolsRefreshed = mcpClient.tools().then((updated) => {
+      tools = updated;
+      console.log(`🔄 Tool list changed: ${Object.keys(tools).join(', ')}\n`);
+    });
+  }
+});
+
+// Calculator tools return structuredContent matching their outputSchema, so
+// the numeric value can be read directly instead of re-parsing text
+function printStructuredResults(
+  steps: { toolResults: { toolName: string; result: unknown }[] }[],
+) {
+  for (const step of steps) {
+    for (const { toolName, result } of step.toolResults) {
+      const { structuredContent } = result as CallToolResult;
+      if (structuredContent && 'operands' in structuredContent) {
+        const { result: value, operands } =
+          structuredContent as CalculationResult;
+        console.log(
+          `   ↳ ${toolName}(${operands.join(', ')}) → ${value} (${typeof value})`,
+        );
+      } else if (structuredContent) {
+        console.log(`   ↳ ${toolName}: ${JSON.stringify(structuredContent)}`);
+      }
+    }
+  }
+}
+
 const calculations = [
   'What is 25 plus 15?',
   'What is 50 minus 30?',
@@ -21,6 +65,11 @@ const calculations = [
   'What is 100 divided by 4?',
   'What happens if I try to divide by zero?',
   'Can you show me a series of calculations? First multiply 5 and 3, then add 10 to the result.',
+  'What is (12.5 * 4) - 3^2 + sqrt(81)? Show me the steps.',
+  'Using exact decimal precision, what is 0.1 plus 0.2? And what is 19.99 multiplied by 3?',
+  'What is 5 miles in km plus 300 m?',
+  'How many British pounds is 250 euros?',
+  'What are the mean, median and standard deviation of 2, 4, 4, 4, 5, 5, 7 and 9?',
 ];
 
 console.log('🧮 Testing Calculator Operations:\n');
@@ -33,7 +82,74 @@ for (const prompt of calculations) {
     prompt,
     maxSteps: 10,
   });
+  printStructuredResults(result.steps);
   console.log(`Answer: ${result.text}\n`);
 }
 
+console.log('🧩 Registering a new operation at runtime:\n');
+await tools.registerOperation?.execute?.(
+  {
+    name: 'hypotenuse',
+    description: 'Length of the hypotenuse of a right-angled triangle',
+    parameters: {
+      properties: {
+        a: { type: 'number', description: 'Length of the first side' },
+        b: { type: 'number', description: 'Length of the second side' },
+      },
+      required: ['a', 'b'],
+    },
+    formula: 'sqrt(a^2 + b^2)',
+  },
+  { toolCallId: 'register-hypotenuse', messages: [] },
+);
+// Give the list_changed notification a moment to arrive, then wait for the
+// re-fetch it triggers
+await new Promise((resolve) => setTimeout(resolve, 500));
+await toolsRefreshed;
+
+const question = 'What is the hypotenuse of a triangle with sides 3 and 4?';
+console.log(`Question: ${question}`);
+const result = await generateText({
+  model,
+  tools,
+  prompt: question,
+  maxSteps: 10,
+});
+printStructuredResults(result.steps);
+console.log(`Answer: ${result.text}\n`);
+
 await mcpClient.close();
+
+// Long-running tools report progress and can be cancelled. The AI SDK's MCP
+// client exposes neither, so this part uses the MCP SDK client directly.
+console.log('⏳ Long-running calculations with progress and a timeout:\n');
+const sdkClient = new Client({ name: 'calculator-client', version: '1.0.0' });
+await sdkClient.connect(
+  cassetteTransport('factorize', () => new StreamableHTTPClientTransport(url)),
+);
+
+const factorizations = [
+  { n: '600851475143', timeout: 10_000 },
+  // Product of two ten-digit primes: far too slow, so the timeout cancels it
+  { n: '998244359987710471', timeout: 3000 },
+];
+for (const { n, timeout } of factorizations) {
+  const progressBar = createProgressBar(`factorize(${n})`);
+  try {
+    const factorization = await sdkClient.callTool(
+      { name: 'factorize', arguments: { n } },
+      undefined,
+      { onprogress: progressBar.update, timeout },
+    );
+    progressBar.done();
+    console.log(`   ↳ ${JSON.stringify(factorization.structuredContent)}\n`);
+  } catch (error) {
+    progressBar.done();
+    // On timeout the SDK sends notifications/cancelled and the server stops
+    console.log(
+      `   ⏹️  Cancelled after ${timeout}ms: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+  }
+}
+
+await sdkClient.close();
@@ -1 +1,34 @@
-export const PORT = 8087;
\ No newline at end of file
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { PORT as RESOURCES_SERVER_PORT } from '../02-resources/constants';
+import { loadConfig, port } from '../shared/config';
+
+const config = loadConfig(
+  'tools',
+  {
+    port: port(8087),
+    // Offline exchange rate table used by convert and calculateWithUnits
+    exchangeRatesFile: z
+      .string()
+      .default(
+        fileURLToPath(new URL('data/exchange-rates.json', import.meta.url)),
+      ),
+    // Resources server (example 02) that statistics tools read CSV resources
+    // from
+    resourcesServerUrl: z
+      .string()
+      .url()
+      .default(`http://localhost:${RESOURCES_SERVER_PORT}/mcp`),
+  },
+  {
+    TOOLS_SERVER_PORT: 'port',
+    EXCHANGE_RATES_FILE: 'exchangeRatesFile',
+    RESOURCES_SERVER_URL: 'resourcesServerUrl',
+  },
+);
+
+export const PORT = config.port;
+
+export const EXCHANGE_RATES_FILE = config.exchangeRatesFile;
+
+export const RESOURCES_SERVER_URL = config.resourcesServerUrl;
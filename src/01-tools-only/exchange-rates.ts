@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import { UserError } from 'fastmcp';
+import { z } from 'zod';
+import type { ExchangeRates } from './units';
+
+/**
+ * Offline exchange rates.
+ *
+ * Rates live in a JSON file rather than being fetched, so conversions work
+ * without network access and give repeatable answers. The table is read at
+ * startup and can be re-read while the server runs with `reload()`.
+ */
+
+const currencyCode = z
+  .string()
+  .regex(/^[A-Z]{3}$/, 'Currency codes are three upper-case letters');
+
+const exchangeRatesFileSchema = z.object({
+  base: currencyCode,
+  asOf: z.string(),
+  source: z.string().optional(),
+  rates: z.record(currencyCode, z.number().positive()),
+});
+
+async function readExchangeRates(path: string): Promise<ExchangeRates> {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new UserError(
+      `Could not read exchange rates from ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const parsed = exchangeRatesFileSchema.safeParse(contents);
+  if (!parsed.success) {
+    throw new UserError(
+      `Invalid exchange rates file ${path}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+    );
+  }
+  const { base, asOf, rates } = parsed.data;
+  return { base, asOf, rates };
+}
+
+export async function createExchangeRates(path: string) {
+  let current = await readExchangeRates(path);
+
+  return {
+    path,
+    get: () => current,
+    /**
+     * Re-reads the file. The previous table stays in use if it is invalid.
+     */
+    reload: async () => {
+      current = await readExchangeRates(path);
+      return current;
+    },
+  };
+}
@@ -0,0 +1,639 @@
+/**
+ * Safe arithmetic expression evaluator for the calculator server.
+ *
+ * Expressions are tokenised and parsed into a small AST by a recursive-descent
+ * parser, then reduced one operation at a time so every intermediate form can
+ * be reported back to the client. Nothing is ever passed to `eval`.
+ *
+ * Supported syntax:
+ * - numbers: `42`, `3.14`, `.5`, `1e3`
+ * - operators: `+ - * / % ^` (`**` is accepted as an alias for `^`)
+ * - unary minus and plus, parentheses
+ * - constants: `pi`, `e`
+ * - functions: see `FUNCTIONS` below
+ * - named variables, when values are supplied by the caller
+ */
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly expression: string,
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+
+  /** Renders the expression with a caret under the offending character. */
+  pointer(): string {
+    return `${this.expression}\n${' '.repeat(this.position)}^`;
+  }
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^';
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: BinaryOperator; position: number }
+  | { type: 'paren'; value: '(' | ')'; position: number }
+  | { type: 'comma'; position: number }
+  | { type: 'end'; position: number };
+
+export type ExpressionNode =
+  | { type: 'number'; value: number; position: number }
+  | {
+      type: 'unary';
+      operator: '-' | '+';
+      operand: ExpressionNode;
+      position: number;
+    }
+  | {
+      type: 'binary';
+      operator: BinaryOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+      position: number;
+    }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+export interface EvaluationStep {
+  step: number;
+  operation: string;
+  expression: string;
+}
+
+export interface EvaluationResult {
+  expression: string;
+  result: number;
+  steps: EvaluationStep[];
+}
+
+interface FunctionDefinition {
+  arity: number | 'variadic';
+  apply: (...args: number[]) => number;
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  sqrt: { arity: 1, apply: Math.sqrt },
+  cbrt: { arity: 1, apply: Math.cbrt },
+  abs: { arity: 1, apply: Math.abs },
+  round: { arity: 1, apply: Math.round },
+  floor: { arity: 1, apply: Math.floor },
+  ceil: { arity: 1, apply: Math.ceil },
+  ln: { arity: 1, apply: Math.log },
+  log: { arity: 1, apply: Math.log10 },
+  exp: { arity: 1, apply: Math.exp },
+  sin: { arity: 1, apply: Math.sin },
+  cos: { arity: 1, apply: Math.cos },
+  tan: { arity: 1, apply: Math.tan },
+  min: { arity: 'variadic', apply: Math.min },
+  max: { arity: 'variadic', apply: Math.max },
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+export const SUPPORTED_FUNCTIONS = Object.keys(FUNCTIONS);
+export const SUPPORTED_CONSTANTS = Object.keys(CONSTANTS);
+
+// Binding power of each operator, used both for parsing and for deciding
+// where parentheses are needed when an intermediate step is rendered.
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '+': 1,
+  '-': 1,
+  '*': 2,
+  '/': 2,
+  '%': 2,
+  '^': 4,
+};
+const UNARY_PRECEDENCE = 3;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[\d.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(
+        expression.slice(index),
+      );
+      if (!match) {
+        throw new ExpressionError(
+          `Invalid number at position ${index}`,
+          index,
+          expression,
+        );
+      }
+      tokens.push({
+        type: 'number',
+        value: Number(match[0]),
+        position: index,
+      });
+      index += match[0].length;
+      continue;
+    }
+
+    if (/[a-z]/i.test(char)) {
+      const match = /^[a-z]\w*/i.exec(expression.slice(index))!;
+      tokens.push({
+        type: 'identifier',
+        value: match[0],
+        position: index,
+      });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '*' && expression[index + 1] === '*') {
+      tokens.push({ type: 'operator', value: '^', position: index });
+      index += 2;
+      continue;
+    }
+
+    if ('+-*/%^'.includes(char)) {
+      tokens.push({
+        type: 'operator',
+        value: char as BinaryOperator,
+        position: index,
+      });
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ type: 'comma', position: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(
+      `Unexpected character '${char}' at position ${index}`,
+      index,
+      expression,
+    );
+  }
+
+  tokens.push({ type: 'end', position: expression.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly expression: string,
+    private readonly variables: Record<string, number>,
+  ) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'end') {
+      throw this.error('Expression is empty', 0);
+    }
+    const node = this.parseAdditive();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw this.error(
+        `Unexpected ${describe(next)} at position ${next.position}`,
+        next.position,
+      );
+    }
+    return node;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let token = this.peek();
+    while (
+      token.type === 'operator' &&
+      (token.value === '+' || token.value === '-')
+    ) {
+      this.index++;
+      const right = this.parseMultiplicative();
+      left = {
+        type: 'binary',
+        operator: token.value,
+        left,
+        right,
+        position: token.position,
+      };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let token = this.peek();
+    while (
+      token.type === 'operator' &&
+      (token.value === '*' || token.value === '/' || token.value === '%')
+    ) {
+      this.index++;
+      const right = this.parseUnary();
+      left = {
+        type: 'binary',
+        operator: token.value,
+        left,
+        right,
+        position: token.position,
+      };
+      token = this.peek();
+    }
+    return left;
+  }
+
+  // Unary minus binds looser than exponentiation, so -2^2 is -(2^2) = -4.
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      token.type === 'operator' &&
+      (token.value === '-' || token.value === '+')
+    ) {
+      this.index++;
+      const operand = this.parseUnary();
+      // Fold signs applied directly to literals so `-3` is a value, not a step
+      if (operand.type === 'number') {
+        return {
+          type: 'number',
+          value: token.value === '-' ? -operand.value : operand.value,
+          position: token.position,
+        };
+      }
+      return {
+        type: 'unary',
+        operator: token.value,
+        operand,
+        position: token.position,
+      };
+    }
+    return this.parsePower();
+  }
+
+  // Exponentiation is right-associative: 2^3^2 is 2^(3^2).
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === '^') {
+      this.index++;
+      return {
+        type: 'binary',
+        operator: '^',
+        left: base,
+        right: this.parseUnary(),
+        position: token.position,
+      };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value, position: token.position };
+
+      case 'identifier': {
+        // Variables are case-sensitive; built-in names are not
+        if (Object.hasOwn(this.variables, token.value)) {
+          return {
+            type: 'number',
+            value: this.variables[token.value]!,
+            position: token.position,
+          };
+        }
+        const name = token.value.toLowerCase();
+        if (name in FUNCTIONS) {
+          return this.parseCall(name, token.position);
+        }
+        if (name in CONSTANTS) {
+          return {
+            type: 'number',
+            value: CONSTANTS[name]!,
+            position: token.position,
+          };
+        }
+        throw this.error(
+          `Unknown identifier '${token.value}' at position ${token.position}`,
+          token.position,
+        );
+      }
+
+      case 'paren': {
+        if (token.value === ')') {
+          break;
+        }
+        const inner = this.parseAdditive();
+        this.expectClosingParen(token.position);
+        return inner;
+      }
+    }
+
+    throw this.error(
+      `Unexpected ${describe(token)} at position ${token.position}`,
+      token.position,
+    );
+  }
+
+  private parseCall(name: string, position: number): ExpressionNode {
+    const open = this.next();
+    if (open.type !== 'paren' || open.value !== '(') {
+      throw this.error(
+        `Expected '(' after function '${name}' at position ${open.position}`,
+        open.position,
+      );
+    }
+
+    const args: ExpressionNode[] = [];
+    const first = this.peek();
+    if (!(first.type === 'paren' && first.value === ')')) {
+      args.push(this.parseAdditive());
+      while (this.peek().type === 'comma') {
+        this.index++;
+        args.push(this.parseAdditive());
+      }
+    }
+    this.expectClosingParen(open.position);
+
+    const { arity } = FUNCTIONS[name]!;
+    if (arity === 'variadic' ? args.length === 0 : args.length !== arity) {
+      throw this.error(
+        `Function '${name}' expects ${arity === 'variadic' ? 'at least 1 argument' : `${arity} argument(s)`} but got ${args.length}`,
+        position,
+      );
+    }
+
+    return { type: 'call', name, args, position };
+  }
+
+  private expectClosingParen(openPosition: number) {
+    const token = this.next();
+    if (token.type !== 'paren' || token.value !== ')') {
+      throw this.error(
+        token.type === 'end'
+          ? `Missing ')' for '(' at position ${openPosition}`
+          : `Expected ')' but found ${describe(token)} at position ${token.position}`,
+        token.type === 'end' ? openPosition : token.position,
+      );
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private error(message: string, position: number) {
+    return new ExpressionError(message, position, this.expression);
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of expression';
+    case 'comma':
+      return "','";
+    case 'number':
+      return `number ${token.value}`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parses an expression into an AST without evaluating it. Identifiers found in
+ * `variables` are substituted with their values while parsing.
+ */
+export function parseExpression(
+  expression: string,
+  variables: Record<string, number> = {},
+): ExpressionNode {
+  return new Parser(tokenize(expression), expression, variables).parse();
+}
+
+function precedenceOf(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'binary':
+      return PRECEDENCE[node.operator];
+    case 'unary':
+      return UNARY_PRECEDENCE;
+    case 'number':
+      return node.value < 0 ? UNARY_PRECEDENCE : Infinity;
+    default:
+      return Infinity;
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value)
+    ? value.toString()
+    : String(+value.toPrecision(15));
+}
+
+/** Renders an AST back to text, adding only the parentheses it needs. */
+export function renderExpression(node: ExpressionNode): string {
+  switch (node.type) {
+    case 'number':
+      return formatNumber(node.value);
+    case 'call':
+      return `${node.name}(${node.args.map((arg) => renderExpression(arg)).join(', ')})`;
+    case 'unary': {
+      const operand = renderExpression(node.operand);
+      // Literals are folded at parse time, so a unary node always wraps a
+      // computation; parenthesise it so `-(4)` is not mistaken for a value
+      return node.operand.type === 'call'
+        ? `${node.operator}${operand}`
+        : `${node.operator}(${operand})`;
+    }
+    case 'binary': {
+      const own = PRECEDENCE[node.operator];
+      const rightAssociative = node.operator === '^';
+      const leftNeedsParens = rightAssociative
+        ? precedenceOf(node.left) <= own
+        : precedenceOf(node.left) < own;
+      const rightNeedsParens = rightAssociative
+        ? precedenceOf(node.right) < own
+        : precedenceOf(node.right) <= own;
+      const left = renderExpression(node.left);
+      const right = renderExpression(node.right);
+      return `${leftNeedsParens ? `(${left})` : left} ${node.operator} ${rightNeedsParens ? `(${right})` : right}`;
+    }
+  }
+}
+
+function applyBinary(
+  operator: BinaryOperator,
+  a: number,
+  b: number,
+  position: number,
+  expression: string,
+): number {
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      if (b === 0) {
+        throw new ExpressionError(
+          `Cannot divide by zero at position ${position}`,
+          position,
+          expression,
+        );
+      }
+      return a / b;
+    case '%':
+      if (b === 0) {
+        throw new ExpressionError(
+          `Cannot take modulo by zero at position ${position}`,
+          position,
+          expression,
+        );
+      }
+      return a % b;
+    case '^':
+      return a ** b;
+  }
+}
+
+type Reduction = { node: ExpressionNode; operation: string };
+
+/**
+ * Performs the leftmost innermost reduction available in the tree, returning
+ * the new tree and a description of the operation, or `null` when the tree is
+ * already a single number.
+ */
+function reduceOnce(
+  node: ExpressionNode,
+  expression: string,
+): Reduction | null {
+  const finish = (value: number, operation: string): Reduction => {
+    if (!Number.isFinite(value)) {
+      throw new ExpressionError(
+        `${operation} does not produce a finite number (position ${node.position})`,
+        node.position,
+        expression,
+      );
+    }
+    return {
+      node: { type: 'number', value, position: node.position },
+      operation: `${operation} = ${formatNumber(value)}`,
+    };
+  };
+
+  switch (node.type) {
+    case 'number':
+      return null;
+
+    case 'unary': {
+      const inner = reduceOnce(node.operand, expression);
+      if (inner) {
+        return {
+          node: { ...node, operand: inner.node },
+          operation: inner.operation,
+        };
+      }
+      const value = (node.operand as { value: number }).value;
+      return finish(
+        node.operator === '-' ? -value : value,
+        `${node.operator === '-' ? 'negate' : 'plus'} ${formatNumber(value)}`,
+      );
+    }
+
+    case 'binary': {
+      const left = reduceOnce(node.left, expression);
+      if (left) {
+        return {
+          node: { ...node, left: left.node },
+          operation: left.operation,
+        };
+      }
+      const right = reduceOnce(node.right, expression);
+      if (right) {
+        return {
+          node: { ...node, right: right.node },
+          operation: right.operation,
+        };
+      }
+      const a = (node.left as { value: number }).value;
+      const b = (node.right as { value: number }).value;
+      return finish(
+        applyBinary(node.operator, a, b, node.position, expression),
+        renderExpression(node),
+      );
+    }
+
+    case 'call': {
+      for (let i = 0; i < node.args.length; i++) {
+        const arg = reduceOnce(node.args[i]!, expression);
+        if (arg) {
+          const args = [...node.args];
+          args[i] = arg.node;
+          return { node: { ...node, args }, operation: arg.operation };
+        }
+      }
+      const values = node.args.map((arg) => (arg as { value: number }).value);
+      return finish(
+        FUNCTIONS[node.name]!.apply(...values),
+        renderExpression(node),
+      );
+    }
+  }
+}
+
+/**
+ * Parses and evaluates an arithmetic expression, recording each reduction.
+ *
+ * @throws {ExpressionError} when the expression cannot be parsed or evaluated
+ */
+export function evaluateExpression(
+  expression: string,
+  variables: Record<string, number> = {},
+): EvaluationResult {
+  let node = parseExpression(expression, variables);
+  const steps: EvaluationStep[] = [];
+
+  let reduction = reduceOnce(node, expression);
+  while (reduction) {
+    node = reduction.node;
+    steps.push({
+      step: steps.length + 1,
+      operation: reduction.operation,
+      expression: renderExpression(node),
+    });
+    reduction = reduceOnce(node, expression);
+  }
+
+  return {
+    expression: expression.trim(),
+    result: (node as { value: number }).value,
+    steps,
+  };
+}
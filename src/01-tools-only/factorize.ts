@@ -0,0 +1,79 @@
+import { checkpoint } from '../shared/long-running';
+
+/**
+ * Prime factorisation by trial division.
+ *
+ * Deliberately simple: a number with two large prime factors takes a long
+ * time, which makes it a good demonstration of progress notifications and
+ * cancellation. The loop checks for cancellation every `CHUNK_SIZE`
+ * divisors.
+ */
+
+const CHUNK_SIZE = 20_000;
+
+export interface FactorizeProgress {
+  /** The divisor reached so far */
+  divisor: bigint;
+  /** The largest divisor that still has to be tried */
+  limit: bigint;
+}
+
+/** Integer square root (floor) using Newton's method. */
+function isqrt(n: bigint): bigint {
+  if (n < 2n) {
+    return n;
+  }
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+}
+
+/**
+ * Returns the prime factors of `n` in ascending order, with repeats.
+ *
+ * @throws {UserError} if the tool call is cancelled while running
+ */
+export async function factorize(
+  n: bigint,
+  onProgress: (progress: FactorizeProgress) => Promise<void>,
+): Promise<bigint[]> {
+  const factors: bigint[] = [];
+  let remaining = n;
+
+  for (const small of [2n, 3n]) {
+    while (remaining % small === 0n) {
+      factors.push(small);
+      remaining /= small;
+    }
+  }
+
+  // Every prime above 3 is 6k ± 1
+  let limit = isqrt(remaining);
+  let divisor = 5n;
+  let untilCheckpoint = CHUNK_SIZE;
+  while (divisor <= limit) {
+    for (const candidate of [divisor, divisor + 2n]) {
+      while (remaining % candidate === 0n) {
+        factors.push(candidate);
+        remaining /= candidate;
+        limit = isqrt(remaining);
+      }
+    }
+    divisor += 6n;
+
+    if (--untilCheckpoint === 0) {
+      untilCheckpoint = CHUNK_SIZE;
+      await onProgress({ divisor, limit });
+      await checkpoint();
+    }
+  }
+
+  if (remaining > 1n) {
+    factors.push(remaining);
+  }
+  return factors;
+}
@@ -0,0 +1,230 @@
+import { FastMCP, UserError } from 'fastmcp';
+import { z } from 'zod';
+import {
+  evaluateExpression,
+  ExpressionError,
+  parseExpression,
+  SUPPORTED_CONSTANTS,
+  SUPPORTED_FUNCTIONS,
+} from './expression';
+import { calculationResult, calculationResultSchema } from './results';
+
+/**
+ * Runtime-registered calculator operations.
+ *
+ * An operation is described declaratively - a name, a JSON Schema for its
+ * numeric parameters and a formula over those parameters - and turned into a
+ * regular FastMCP tool. Adding or removing one while the server is running
+ * makes FastMCP send `notifications/tools/list_changed` to every session.
+ * Results use the same structured shape as the built-in calculator tools.
+ */
+
+const parameterSchema = z
+  .object({
+    type: z.enum(['number', 'integer']),
+    description: z.string().optional(),
+    minimum: z.number().optional(),
+    maximum: z.number().optional(),
+    default: z.number().optional(),
+  })
+  .strict();
+
+export const operationDefinitionSchema = z.object({
+  name: z
+    .string()
+    .regex(
+      /^[a-zA-Z][\w-]{0,63}$/,
+      'Name must start with a letter and contain only letters, digits, "_" or "-"',
+    )
+    .describe('Tool name for the new operation, e.g. "hypotenuse"'),
+  description: z
+    .string()
+    .min(1)
+    .describe('What the operation calculates, shown to the AI'),
+  parameters: z
+    .object({
+      type: z.literal('object').optional(),
+      properties: z
+        .record(
+          z
+            .string()
+            .regex(
+              /^[a-z]\w*$/i,
+              'Parameter names must start with a letter and contain only letters, digits or "_"',
+            ),
+          parameterSchema,
+        )
+        .refine((properties) => Object.keys(properties).length > 0, {
+          message: 'At least one parameter is required',
+        }),
+      required: z.array(z.string()).optional(),
+    })
+    .describe(
+      'JSON Schema for the numeric parameters, e.g. { "properties": { "a": { "type": "number" } }, "required": ["a"] }',
+    ),
+  formula: z
+    .string()
+    .min(1)
+    .describe(
+      'Arithmetic formula over the parameter names, e.g. "sqrt(a^2 + b^2)"',
+    ),
+});
+
+export type OperationDefinition = z.infer<typeof operationDefinitionSchema>;
+
+interface RegisteredOperation extends OperationDefinition {
+  registeredAt: Date;
+}
+
+/** Converts the declared numeric parameters into a zod object schema. */
+function toZodParameters(parameters: OperationDefinition['parameters']) {
+  const required = new Set(parameters.required ?? []);
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [name, property] of Object.entries(parameters.properties)) {
+    let schema = z.coerce.number();
+    if (property.type === 'integer') {
+      schema = schema.int();
+    }
+    if (property.minimum !== undefined) {
+      schema = schema.min(property.minimum);
+    }
+    if (property.maximum !== undefined) {
+      schema = schema.max(property.maximum);
+    }
+
+    let field: z.ZodTypeAny = schema;
+    if (property.default !== undefined) {
+      field = schema.default(property.default);
+    } else if (!required.has(name)) {
+      field = schema.optional();
+    }
+    shape[name] = property.description
+      ? field.describe(property.description)
+      : field;
+  }
+
+  return z.object(shape);
+}
+
+export function createOperationRegistry(
+  server: FastMCP,
+  reservedNames: string[],
+) {
+  const operations = new Map<string, RegisteredOperation>();
+
+  function validate(definition: OperationDefinition) {
+    if (reservedNames.includes(definition.name)) {
+      throw new UserError(
+        `'${definition.name}' is a built-in tool and cannot be replaced`,
+      );
+    }
+
+    const parameterNames = Object.keys(definition.parameters.properties);
+    // Built-in names match in any case, and a parameter would hide them
+    const builtIns = new Set([...SUPPORTED_FUNCTIONS, ...SUPPORTED_CONSTANTS]);
+    const shadowing = parameterNames.filter((name) =>
+      builtIns.has(name.toLowerCase()),
+    );
+    if (shadowing.length > 0) {
+      throw new UserError(
+        `Parameter name(s) clash with built-in functions or constants: ${shadowing.join(', ')}`,
+      );
+    }
+    const unknownRequired = (definition.parameters.required ?? []).filter(
+      (name) => !parameterNames.includes(name),
+    );
+    if (unknownRequired.length > 0) {
+      throw new UserError(
+        `Required parameter(s) not declared in properties: ${unknownRequired.join(', ')}`,
+      );
+    }
+
+    // Parse the formula once up front, with placeholder values, so typos are
+    // reported at registration time rather than on the first call
+    try {
+      parseExpression(
+        definition.formula,
+        Object.fromEntries(parameterNames.map((name) => [name, 0])),
+      );
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        throw new UserError(`Invalid formula: ${error.message}`, {
+          error: 'ExpressionError',
+          message: error.message,
+          expression: error.expression,
+          position: error.position,
+        });
+      }
+      throw error;
+    }
+  }
+
+  function register(definition: OperationDefinition) {
+    validate(definition);
+    const replaced = operations.has(definition.name);
+
+    server.addTool({
+      name: definition.name,
+      description: `${definition.description} (formula: ${definition.formula})`,
+      parameters: toZodParameters(definition.parameters),
+      annotations: {
+        openWorldHint: false,
+        readOnlyHint: true,
+        title: definition.name,
+      },
+      outputSchema: calculationResultSchema,
+      execute: async (args) => {
+        const variables: Record<string, number> = {};
+        for (const [name, value] of Object.entries(args)) {
+          if (typeof value === 'number') {
+            variables[name] = value;
+          }
+        }
+        try {
+          const { result } = evaluateExpression(definition.formula, variables);
+          return JSON.stringify(
+            calculationResult(
+              definition.name,
+              Object.values(variables),
+              result,
+            ),
+          );
+        } catch (error) {
+          if (error instanceof ExpressionError) {
+            throw new UserError(error.message);
+          }
+          throw error;
+        }
+      },
+    });
+
+    operations.set(definition.name, {
+      ...definition,
+      registeredAt: new Date(),
+    });
+    return { replaced };
+  }
+
+  function remove(name: string) {
+    if (!operations.has(name)) {
+      throw new UserError(
+        reservedNames.includes(name)
+          ? `'${name}' is a built-in tool and cannot be removed`
+          : `No runtime operation named '${name}'`,
+      );
+    }
+    server.removeTool(name);
+    operations.delete(name);
+  }
+
+  function list() {
+    return [...operations.values()];
+  }
+
+  function has(name: string) {
+    return operations.has(name);
+  }
+
+  return { register, remove, list, has };
+}
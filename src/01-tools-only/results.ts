@@ -0,0 +1,154 @@
+import { UserError } from 'fastmcp';
+import { z } from 'zod';
+import {
+  calculateDecimal,
+  Decimal,
+  type DecimalOperation,
+  type DecimalOptions,
+  ROUNDING_MODES,
+} from '../shared/decimal';
+
+/**
+ * Structured results and typed errors shared by the calculator tools.
+ */
+
+export const calculationResultSchema = z.object({
+  result: z
+    .union([z.number(), z.string()])
+    .describe('The numeric result, or an exact decimal string in decimal mode'),
+  operation: z.string().describe('The operation that was performed'),
+  operands: z
+    .array(z.union([z.number(), z.string()]))
+    .describe('The operands, in order'),
+  precision: z
+    .object({
+      mode: z.literal('decimal'),
+      scale: z.number().optional(),
+      rounding: z.enum(ROUNDING_MODES),
+    })
+    .optional()
+    .describe('Present when the result was calculated in decimal mode'),
+});
+
+export type CalculationResult = z.infer<typeof calculationResultSchema>;
+
+export type CalculationErrorCode = 'DivisionByZero' | 'Overflow' | 'NotANumber';
+
+/**
+ * A tool error whose payload is returned to the client as JSON alongside the
+ * human-readable message.
+ */
+export class CalculationError extends UserError {
+  constructor(
+    public readonly code: CalculationErrorCode,
+    message: string,
+    operation: string,
+    operands: (number | string)[],
+  ) {
+    super(message, { error: code, message, operation, operands });
+  }
+}
+
+/**
+ * Checks a raw result and wraps it in the structured result shape.
+ *
+ * @throws {CalculationError} when the result is NaN or not finite
+ */
+export function calculationResult(
+  operation: string,
+  operands: number[],
+  result: number,
+): CalculationResult {
+  if (Number.isNaN(result)) {
+    throw new CalculationError(
+      'NotANumber',
+      `The result of ${operation} is not a number`,
+      operation,
+      operands,
+    );
+  }
+  if (!Number.isFinite(result)) {
+    throw new CalculationError(
+      'Overflow',
+      `The result of ${operation} is too large to represent`,
+      operation,
+      operands,
+    );
+  }
+  return { result, operation, operands };
+}
+
+/**
+ * Calculates `operation` exactly with BigInt-backed decimals, returning the
+ * result as a string. Operands are passed through as strings so callers can
+ * send values that don't fit in a double.
+ *
+ * @throws {CalculationError} when dividing by zero
+ */
+export function decimalCalculationResult(
+  operation: DecimalOperation,
+  operands: [string, string],
+  { scale, rounding = 'half-even' }: DecimalOptions = {},
+): CalculationResult {
+  const [a, b] = operands;
+  if (operation === 'divide' && Decimal.parse(b).isZero()) {
+    throw new CalculationError(
+      'DivisionByZero',
+      'Cannot divide by zero',
+      operation,
+      operands,
+    );
+  }
+  return {
+    result: calculateDecimal(operation, a, b, { scale, rounding }),
+    operation,
+    operands,
+    precision: { mode: 'decimal', scale, rounding },
+  };
+}
+
+export const evaluationResultSchema = z.object({
+  expression: z.string().describe('The expression that was evaluated'),
+  result: z.number().describe('The numeric result'),
+  steps: z
+    .array(
+      z.object({
+        step: z.number(),
+        operation: z.string(),
+        expression: z.string(),
+      }),
+    )
+    .describe('Each reduction applied, in order'),
+});
+
+export const conversionResultSchema = z.object({
+  result: z.number().describe('The converted value'),
+  unit: z.string().describe('The unit of the result'),
+  dimension: z.string().describe('What the units measure, e.g. "length"'),
+  from: z.object({ value: z.number(), unit: z.string() }),
+  ratesAsOf: z
+    .string()
+    .optional()
+    .describe('Date of the exchange rates used, for currency conversions'),
+});
+
+export const quantityResultSchema = z.object({
+  result: z.number().describe('The numeric result'),
+  unit: z
+    .string()
+    .optional()
+    .describe('The unit of the result; absent for plain numbers'),
+  dimension: z.string().optional(),
+  operation: z.string().describe('The operation that was performed'),
+  operands: z.array(z.string()).describe('The operands with their units'),
+  ratesAsOf: z.string().optional(),
+});
+
+export const factorizationResultSchema = z.object({
+  n: z.string().describe('The number that was factorised'),
+  factors: z
+    .array(z.string())
+    .describe('Prime factors in ascending order, with repeats'),
+  prime: z.boolean().describe('Whether n is itself prime'),
+  elapsedMs: z.number().describe('How long the factorisation took'),
+});
@@ -0,0 +1,491 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startServer as startResourcesServer } from '../02-resources/server';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+
+describe('tools-only calculator server', () => {
+  let resourcesServer: TestServer;
+  let server: TestServer;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    // Statistics tools read CSV resources from the resources server. Its URL is
+    // read from the config when the module loads, so import the server after
+    // pointing it at a test instance, which samples its metrics often so there
+    // is CSV data to read.
+    resourcesServer = await startTestServer((port) =>
+      startResourcesServer(port, { metricsIntervalMs: 50 }),
+    );
+    vi.stubEnv('RESOURCES_SERVER_URL', resourcesServer.url.href);
+    const { startServer } = await import('./server');
+
+    server = await startTestServer(startServer);
+    client = await connectHttp(server.url);
+    // Once it has listed the tools, the SDK client validates results against
+    // their output schemas, error results included
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+    await resourcesServer?.stop();
+  });
+
+  /** Calls a tool that must succeed and returns its structured result */
+  const structured = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool(name, args);
+    expect(result.isError, result.text).toBe(false);
+    expect(result.structuredContent).toBeDefined();
+    return result.structuredContent!;
+  };
+
+  /** Calls a tool that must fail and returns its typed error payload */
+  const toolError = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.sdk.callTool({ name, arguments: args });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    const payload = (result.content as { text: string }[]).at(-1)!;
+    return JSON.parse(payload.text) as Record<string, unknown>;
+  };
+
+  describe('arithmetic', () => {
+    it.each([
+      ['add', 5, 3, 8],
+      ['subtract', 5, 3, 2],
+      ['multiply', 5, 3, 15],
+      ['divide', 6, 3, 2],
+    ])('%s(%d, %d) = %d', async (operation, a, b, expected) => {
+      expect(await structured(operation, { a, b })).toEqual({
+        result: expected,
+        operation,
+        operands: [a, b],
+      });
+    });
+
+    it('reports division by zero as a tool error', async () => {
+      const result = await client.callTool('divide', { a: 1, b: 0 });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Cannot divide by zero');
+    });
+
+    it.each([
+      ['divide', { a: 1, b: 0 }, 'DivisionByZero'],
+      ['multiply', { a: 1e308, b: 10 }, 'Overflow'],
+      ['divide', { a: '1', b: '0', precision: 'decimal' }, 'DivisionByZero'],
+    ])('returns a typed %s error', async (operation, args, code) => {
+      expect(await toolError(operation, args)).toMatchObject({
+        error: code,
+        operation,
+      });
+    });
+
+    it('calculates exactly in decimal mode', async () => {
+      expect(
+        await structured('add', { a: '0.1', b: '0.2', precision: 'decimal' }),
+      ).toMatchObject({ result: '0.3', precision: { mode: 'decimal' } });
+    });
+
+    it('rejects decimals too long to calculate with quickly', async () => {
+      const started = performance.now();
+      await expect(
+        client.callTool('add', {
+          a: '1e-5000000',
+          b: '1',
+          precision: 'decimal',
+        }),
+      ).rejects.toThrow('Must have at most 1000 digits');
+      expect(performance.now() - started).toBeLessThan(500);
+      expect(
+        await structured('add', { a: '1e-999', b: '1', precision: 'decimal' }),
+      ).toMatchObject({ result: `1.${'0'.repeat(998)}1` });
+    });
+
+    it('remembers the precision mode for the session', async () => {
+      const session = await connectHttp(server.url);
+      try {
+        const { text } = await session.callTool('setPrecisionMode', {
+          mode: 'decimal',
+          scale: 2,
+        });
+        expect(text).toBe(
+          'Decimal mode enabled: 2 decimal places, half-even rounding',
+        );
+        const divided = await session.callTool('divide', { a: 1, b: 3 });
+        expect(divided.structuredContent).toMatchObject({ result: '0.33' });
+      } finally {
+        await session.close();
+      }
+
+      // Other sessions keep the float default
+      expect(await structured('divide', { a: 1, b: 4 })).toMatchObject({
+        result: 0.25,
+      });
+    });
+  });
+
+  describe('batch', () => {
+    it('feeds earlier results into later steps', async () => {
+      expect(
+        await structured('batch', {
+          steps: [
+            { op: 'multiply', a: 5, b: 3 },
+            { op: 'add', a: '$1', b: 10 },
+          ],
+        }),
+      ).toMatchObject({
+        result: 25,
+        steps: [
+          { step: 1, result: 15 },
+          { step: 2, result: 25 },
+        ],
+      });
+    });
+
+    it('names the step that failed', async () => {
+      const result = await client.callTool('batch', {
+        steps: [
+          { op: 'add', a: 1, b: 1 },
+          { op: 'divide', a: '$1', b: 0 },
+        ],
+      });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(
+        'Step 2 (divide) failed: Cannot divide by zero. Completed steps: $1 = 2',
+      );
+    });
+
+    it('keeps the results of earlier steps in the error', async () => {
+      expect(
+        await toolError('batch', {
+          steps: [
+            { op: 'multiply', a: 5, b: 3 },
+            { op: 'add', a: '$1', b: 10 },
+            { op: 'divide', a: '$2', b: 0 },
+          ],
+        }),
+      ).toMatchObject({
+        error: 'BatchStepFailed',
+        failedStep: 3,
+        details: { error: 'DivisionByZero' },
+        steps: [
+          { step: 1, result: 15 },
+          { step: 2, result: 25 },
+        ],
+      });
+    });
+  });
+
+  describe('evaluate', () => {
+    it('evaluates an expression with a trace', async () => {
+      const evaluation = await structured('evaluate', {
+        expression: '(5 * 3) + 10',
+      });
+      expect(evaluation.result).toBe(25);
+      expect(evaluation.steps).toHaveLength(2);
+    });
+
+    it('points at the position of a syntax error', async () => {
+      const result = await client.callTool('evaluate', { expression: '2 + ' });
+      expect(result.isError).toBe(true);
+      expect(result.text).toMatch(/\^/);
+      expect(await toolError('evaluate', { expression: '1 +' })).toMatchObject({
+        error: 'ExpressionError',
+        position: 3,
+      });
+    });
+  });
+
+  describe('factorize', () => {
+    it('finds prime factors', async () => {
+      expect(await structured('factorize', { n: 360 })).toMatchObject({
+        n: '360',
+        factors: ['2', '2', '2', '3', '3', '5'],
+        prime: false,
+      });
+    });
+
+    it('accepts large numbers as strings', async () => {
+      expect(await structured('factorize', { n: '1000000007' })).toMatchObject({
+        factors: ['1000000007'],
+        prime: true,
+      });
+    });
+
+    it('rejects numbers below 2', async () => {
+      const result = await client.callTool('factorize', { n: '1' });
+      expect(result).toMatchObject({
+        isError: true,
+        text: expect.stringContaining('n must be at least 2'),
+      });
+    });
+  });
+
+  describe('units', () => {
+    it('converts between units', async () => {
+      const conversion = await structured('convert', {
+        value: 5,
+        from: 'mi',
+        to: 'km',
+      });
+      expect(conversion).toMatchObject({ unit: 'km', dimension: 'length' });
+      expect(conversion.result).toBeCloseTo(8.04672);
+    });
+
+    it('says which exchange rates a currency conversion used', async () => {
+      const conversion = await structured('convert', {
+        value: 10,
+        from: 'EUR',
+        to: 'USD',
+      });
+      expect(conversion.ratesAsOf).toEqual(expect.any(String));
+    });
+
+    it('rejects converting between dimensions', async () => {
+      expect(
+        await toolError('convert', { value: 1, from: 'kg', to: 'km' }),
+      ).toMatchObject({ error: 'IncompatibleUnits', from: 'kg', to: 'km' });
+    });
+
+    it('names a currency without an exchange rate', async () => {
+      expect(
+        await toolError('convert', { value: 1, from: 'EUR', to: 'XYZ' }),
+      ).toMatchObject({ error: 'UnknownUnit', unit: 'XYZ' });
+    });
+
+    it('types errors of calculations with units', async () => {
+      expect(
+        await toolError('calculateWithUnits', {
+          operation: 'add',
+          a: '1 km',
+          b: '1 kg',
+        }),
+      ).toMatchObject({
+        error: 'IncompatibleUnits',
+        operands: ['1 km', '1 kg'],
+      });
+    });
+
+    it('calculates with quantities', async () => {
+      const sum = await structured('calculateWithUnits', {
+        operation: 'add',
+        a: '1 km',
+        b: '500 m',
+      });
+      expect(sum).toMatchObject({ result: 1.5, unit: 'km' });
+    });
+
+    it('lists the units of a dimension', async () => {
+      const { text } = await client.callTool('listUnits', {
+        dimension: 'mass',
+      });
+      expect(text).toContain('kg');
+      expect(text).not.toContain('km');
+    });
+
+    it('reloads the exchange rates', async () => {
+      const { text, isError } = await client.callTool('reloadExchangeRates');
+      expect(isError).toBe(false);
+      expect(text).toMatch(/^Loaded \d+ exchange rates against/);
+    });
+  });
+
+  describe('statistics', () => {
+    it.each([
+      ['mean', {}, 3],
+      ['median', {}, 3],
+      ['percentile', { p: 50 }, 3],
+    ])('%s of values', async (statistic, extra, expected) => {
+      expect(
+        await structured(statistic, { values: [1, 2, 3, 4, 5], ...extra }),
+      ).toMatchObject({ statistic, result: expected, count: 5 });
+    });
+
+    it('finds every mode', async () => {
+      expect(
+        await structured('mode', { values: [1, 1, 2, 2, 3] }),
+      ).toMatchObject({ result: [1, 2], frequency: 2 });
+    });
+
+    it('finds the mode of a long list', async () => {
+      // Too many distinct values to spread into Math.max
+      const values = Array.from({ length: 200_000 }, (_, index) => index);
+      expect(
+        await structured('mode', { values: [...values, 7] }),
+      ).toMatchObject({ result: [7], frequency: 2 });
+    });
+
+    it('uses the sample formula unless population is set', async () => {
+      const values = [2, 4, 4, 4, 5, 5, 7, 9];
+      const sample = await structured('variance', { values });
+      const population = await structured('stddev', {
+        values,
+        population: true,
+      });
+      expect(sample.result).toBeCloseTo(32 / 7);
+      expect(population.result).toBe(2);
+    });
+
+    it('bins values into a histogram', async () => {
+      const { result } = await structured('histogram', {
+        values: [0, 1, 2, 3],
+        bins: 2,
+      });
+      expect(result).toEqual([
+        { from: 0, to: 1.5, count: 2 },
+        { from: 1.5, to: 3, count: 2 },
+      ]);
+    });
+
+    it('fits a line', async () => {
+      expect(
+        await structured('linearRegression', { x: [1, 2, 3], y: [3, 5, 7] }),
+      ).toMatchObject({ result: { slope: 2, intercept: 1, rSquared: 1 } });
+    });
+
+    it('reads a column from inline CSV', async () => {
+      expect(
+        await structured('mean', { csv: 'a,b\n1,10\n2,20', column: 'b' }),
+      ).toMatchObject({ result: 15, source: 'csv#b' });
+    });
+
+    it('pairs x and y from whole rows, skipping short ones', async () => {
+      expect(
+        await structured('linearRegression', {
+          csv: 'x,y\n1,2\n2\n3,6\n4,8',
+          xColumn: 'x',
+          yColumn: 'y',
+        }),
+      ).toMatchObject({ result: { slope: 2, intercept: 0 }, count: 3 });
+    });
+
+    it('reads a CSV resource from the resources server', async () => {
+      // The metrics sampled from a minute ago to a minute from now
+      const minute = (offset: number) =>
+        new Date(Date.now() + offset * 60_000).toISOString().slice(0, 16) + 'Z';
+      const resource = `data://metrics/${minute(-1)}/${minute(1)}.csv`;
+      await vi.waitFor(async () => {
+        expect(
+          await structured('mean', { resource, column: 'requests' }),
+        ).toMatchObject({
+          count: expect.any(Number),
+          source: `${resource}#requests`,
+        });
+      }, 5000);
+    });
+
+    it('rejects CSV cells that are not finite numbers', async () => {
+      const result = await client.callTool('mean', {
+        csv: 'a\n1\nInfinity',
+        column: 'a',
+      });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(
+        "Column 'a' has a non-numeric value 'Infinity' on row 2",
+      );
+    });
+
+    it('asks for values when none are given', async () => {
+      const result = await client.callTool('mean', {});
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(
+        'Provide the numbers as values, or a csv or resource together with a column',
+      );
+    });
+
+    it('lists the columns when the column is missing', async () => {
+      const result = await client.callTool('median', { csv: 'a,b\n1,2' });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Available columns: a, b');
+    });
+  });
+
+  describe('runtime operations', () => {
+    const hypotenuse = {
+      name: 'hypotenuse',
+      description: 'Length of the hypotenuse of a right triangle',
+      parameters: {
+        properties: { a: { type: 'number' }, b: { type: 'number' } },
+        required: ['a', 'b'],
+      },
+      formula: 'sqrt(a^2 + b^2)',
+    };
+
+    it('registers, calls, lists and removes an operation', async () => {
+      const registered = await client.callTool('registerOperation', hypotenuse);
+      expect(registered.text).toBe(
+        "Operation 'hypotenuse' registered (formula: sqrt(a^2 + b^2))",
+      );
+      expect(await client.listTools()).toContain('hypotenuse');
+
+      expect(await structured('hypotenuse', { a: 3, b: 4 })).toMatchObject({
+        result: 5,
+        operation: 'hypotenuse',
+      });
+
+      const { text } = await client.callTool('listOperations');
+      expect(JSON.parse(text)).toEqual([
+        expect.objectContaining({ name: 'hypotenuse' }),
+      ]);
+
+      await client.callTool('removeOperation', { name: 'hypotenuse' });
+      expect(await client.listTools()).not.toContain('hypotenuse');
+    });
+
+    it('rejects a formula that does not parse', async () => {
+      const result = await client.callTool('registerOperation', {
+        ...hypotenuse,
+        formula: 'sqrt(a^2 +',
+      });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Invalid formula');
+    });
+
+    /** Registers an operation with a single parameter called `name` */
+    const registerWithParameter = (name: string) =>
+      client.callTool('registerOperation', {
+        name: 'doubled',
+        description: 'Doubles a number',
+        parameters: { properties: { [name]: { type: 'number' } } },
+        formula: `2 * ${name}`,
+      });
+
+    it('rejects parameter names that are not identifiers', async () => {
+      await expect(registerWithParameter('a-b')).rejects.toThrow(
+        'Parameter names must start with a letter',
+      );
+    });
+
+    it.each(['Sqrt', 'pi'])(
+      'rejects the parameter name %s, which would hide a built-in',
+      async (name) => {
+        const result = await registerWithParameter(name);
+        expect(result.isError).toBe(true);
+        expect(result.text).toContain(
+          `clash with built-in functions or constants: ${name}`,
+        );
+      },
+    );
+
+    it('protects built-in tools', async () => {
+      const replaced = await client.callTool('registerOperation', {
+        ...hypotenuse,
+        name: 'add',
+      });
+      expect(replaced.text).toContain(
+        "'add' is a built-in tool and cannot be replaced",
+      );
+
+      const removed = await client.callTool('removeOperation', {
+        name: 'add',
+      });
+      expect(removed.text).toContain(
+        "'add' is a built-in tool and cannot be removed",
+      );
+    });
+  });
+});
@@ -1,105 +1,586 @@
-import { FastMCP } from 'fastmcp';
+import { FastMCP, UserError } from 'fastmcp';
 import { z } from 'zod';
-import { PORT } from './constants';
+import {
+  numericInput,
+  PRECISION_MODES,
+  precisionParameters,
+  type PrecisionSettings,
+} from '../shared/decimal';
+import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { cancellation, throttleProgress } from '../shared/long-running';
+import { isMainModule, type RunningServer } from '../shared/main-module';
+import { trackSessionIds } from '../shared/session-ids';
+import { structuredOutput } from '../shared/structured-output';
+import { useToolCallMiddleware } from '../shared/tool-call-middleware';
+import { batchResultSchema, batchStepSchema, runBatch } from './batch';
+import { EXCHANGE_RATES_FILE, PORT } from './constants';
+import { createExchangeRates } from './exchange-rates';
+import { factorize } from './factorize';
+import {
+  evaluateExpression,
+  ExpressionError,
+  SUPPORTED_CONSTANTS,
+  SUPPORTED_FUNCTIONS,
+} from './expression';
+import {
+  createOperationRegistry,
+  operationDefinitionSchema,
+} from './operations';
+import {
+  calculationResult,
+  calculationResultSchema,
+  CalculationError,
+  type CalculationResult,
+  conversionResultSchema,
+  decimalCalculationResult,
+  evaluationResultSchema,
+  factorizationResultSchema,
+  quantityResultSchema,
+} from './results';
+import { addStatisticsTools } from './statistics-tools';
+import {
+  calculateQuantity,
+  convertQuantity,
+  DIMENSIONS,
+  findUnit,
+  formatQuantity,
+  listUnits,
+  parseQuantity,
+  type Quantity,
+} from './units';
 
-const server = new FastMCP({
-  name: 'calculator-tools-server',
-  version: '1.0.0',
-  instructions: `
+export async function startServer(port = PORT): Promise<RunningServer> {
+  const server = new FastMCP({
+    name: 'calculator-tools-server',
+    version: '1.0.0',
+    instructions: `
 This is a calculator server.
+Use the evaluate tool to work out multi-step calculations in a single call, or batch to run a list of steps that reference earlier results.
+For money or other values that must be exact, pass precision: "decimal" (or call setPrecisionMode) and send numbers as strings.
+Statistics tools (mean, median, mode, variance, stddev, percentile, histogram, linearRegression) accept a list of numbers or a CSV column, including CSV resources such as data://sample-metrics.csv.
+Use convert and calculateWithUnits for quantities with units (length, mass, temperature, time, data size, area and currencies).
+New operations can be added and removed at runtime with registerOperation and removeOperation.
   `.trim(),
-});
-
-server.addTool({
-  name: 'add',
-  description: 'Add two numbers together',
-  parameters: z.object({
-    a: z.coerce.number().describe('The first number to add'),
-    b: z.coerce.number().describe('The second number to add'),
-  }),
-  annotations: {
-    openWorldHint: false, // This tool doesn't interact with external systems
-    readOnlyHint: true, // This tool doesn't modify anything
-    title: 'Number Addition Calculator',
-  },
-  execute: async (args) => {
-    const result = args.a + args.b;
-    return result.toString(); // NOTE: this is a string, not a number
-  },
-});
-
-server.addTool({
-  name: 'subtract',
-  description: 'Subtract two numbers',
-  parameters: z.object({
-    a: z.coerce.number().describe('The first number to subtract from'),
-    b: z.coerce.number().describe('The number to subtract'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Precision Subtraction Calculator',
-  },
-  execute: async (args) => {
-    const result = args.a - args.b;
-    return result.toString();
-  },
-});
-
-server.addTool({
-  name: 'multiply',
-  description: 'Multiply two numbers together',
-  parameters: z.object({
-    a: z.coerce.number().describe('The first number to multiply'),
-    b: z.coerce.number().describe('The second number to multiply'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Number Multiplication Engine',
-  },
-  execute: async (args) => {
-    const result = args.a * args.b;
-    return result.toString();
-  },
-});
-
-server.addTool({
-  name: 'divide',
-  description: 'Divide first number by second number',
-  parameters: z.object({
-    a: z.coerce.number().describe('The number to be divided (dividend)'),
-    b: z.coerce.number().describe('The number to divide by (divisor)'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Smart Division Calculator',
-  },
-  execute: async (args) => {
-    if (args.b === 0) {
-      throw new Error('Cannot divide by zero');
+    authenticate: guardRequests(),
+  });
+
+  // Origin and Host checks for the HTTP routes outside /mcp
+  guardRoutes(server);
+
+  // Per-session precision defaults, set with setPrecisionMode. Arguments passed
+  // to an individual call take priority.
+  trackSessionIds(server);
+  const sessionPrecision = new Map<string, PrecisionSettings>();
+
+  const arithmetic = {
+    add: (a: number, b: number) => a + b,
+    subtract: (a: number, b: number) => a - b,
+    multiply: (a: number, b: number) => a * b,
+    divide: (a: number, b: number) => a / b,
+  };
+
+  const arithmeticParameters = (a: string, b: string) =>
+    z.object({
+      a: numericInput.describe(a),
+      b: numericInput.describe(b),
+      ...precisionParameters,
+    });
+
+  type ArithmeticArgs = z.infer<ReturnType<typeof arithmeticParameters>>;
+
+  function calculate(
+    operation: keyof typeof arithmetic,
+    args: ArithmeticArgs,
+    sessionId?: string,
+  ): CalculationResult {
+    const defaults = sessionPrecision.get(sessionId ?? '') ?? { mode: 'float' };
+    if ((args.precision ?? defaults.mode) === 'decimal') {
+      return decimalCalculationResult(
+        operation,
+        [String(args.a), String(args.b)],
+        {
+          scale: args.scale ?? defaults.scale,
+          rounding: args.rounding ?? defaults.rounding,
+        },
+      );
+    }
+
+    const a = Number(args.a);
+    const b = Number(args.b);
+    if (operation === 'divide' && b === 0) {
+      throw new CalculationError(
+        'DivisionByZero',
+        'Cannot divide by zero',
+        'divide',
+        [a, b],
+      );
     }
-    const result = args.a / args.b;
-    return result.toString();
-  },
-});
-
-// Event handlers to demonstrate server lifecycle
-server.on('connect', (event) => {
-  console.log('🔗 Client connected to tools-only server');
-  console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
-});
-
-server.on('disconnect', (event) => {
-  console.log('❌ Client disconnected from tools-only server');
-  console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
-});
-
-// Start the server
-server.start({
-  transportType: 'httpStream',
-  httpStream: { port: PORT },
-});
-console.log(`🔧 Tools-Only MCP Server running on port ${PORT}`);
-console.log(`📡 Connect via: http://localhost:${PORT}/stream`);
+    return calculationResult(operation, [a, b], arithmetic[operation](a, b));
+  }
+
+  server.addTool({
+    name: 'add',
+    description: 'Add two numbers together',
+    parameters: arithmeticParameters(
+      'The first number to add',
+      'The second number to add',
+    ),
+    annotations: {
+      openWorldHint: false, // This tool doesn't interact with external systems
+      readOnlyHint: true, // This tool doesn't modify anything
+      title: 'Number Addition Calculator',
+    },
+    outputSchema: calculationResultSchema,
+    execute: async (args, { sessionId }) => {
+      // Serialised as JSON; the structuredOutput middleware turns this into
+      // structuredContent so clients get a real number back
+      return JSON.stringify(calculate('add', args, sessionId));
+    },
+  });
+
+  server.addTool({
+    name: 'subtract',
+    description: 'Subtract two numbers',
+    parameters: arithmeticParameters(
+      'The first number to subtract from',
+      'The number to subtract',
+    ),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Precision Subtraction Calculator',
+    },
+    outputSchema: calculationResultSchema,
+    execute: async (args, { sessionId }) =>
+      JSON.stringify(calculate('subtract', args, sessionId)),
+  });
+
+  server.addTool({
+    name: 'multiply',
+    description: 'Multiply two numbers together',
+    parameters: arithmeticParameters(
+      'The first number to multiply',
+      'The second number to multiply',
+    ),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Number Multiplication Engine',
+    },
+    outputSchema: calculationResultSchema,
+    execute: async (args, { sessionId }) =>
+      JSON.stringify(calculate('multiply', args, sessionId)),
+  });
+
+  server.addTool({
+    name: 'divide',
+    description: 'Divide first number by second number',
+    parameters: arithmeticParameters(
+      'The number to be divided (dividend)',
+      'The number to divide by (divisor)',
+    ),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Smart Division Calculator',
+    },
+    outputSchema: calculationResultSchema,
+    execute: async (args, { sessionId }) =>
+      JSON.stringify(calculate('divide', args, sessionId)),
+  });
+
+  server.addTool({
+    name: 'batch',
+    description:
+      'Run several add/subtract/multiply/divide steps in one call. Steps run in order and later steps can use earlier results via "$1", "$2", ... (numbered from 1). Returns every intermediate result. Example: [{"op":"multiply","a":5,"b":3},{"op":"add","a":"$1","b":10}].',
+    parameters: z.object({
+      steps: z
+        .array(batchStepSchema)
+        .min(1)
+        .max(100)
+        .describe('The steps to run, in order'),
+      ...precisionParameters,
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Batch Calculator',
+    },
+    outputSchema: batchResultSchema,
+    execute: async ({ steps, ...defaults }, { sessionId }) => {
+      // Precision set on the batch applies to every step that doesn't set its own
+      const batch = runBatch(steps, ({ op, ...step }) =>
+        calculate(
+          op,
+          {
+            ...step,
+            precision: step.precision ?? defaults.precision,
+            scale: step.scale ?? defaults.scale,
+            rounding: step.rounding ?? defaults.rounding,
+          },
+          sessionId,
+        ),
+      );
+      return JSON.stringify(batch, null, 2);
+    },
+  });
+
+  server.addTool({
+    name: 'setPrecisionMode',
+    description:
+      'Set the default precision for add, subtract, multiply and divide in this session. "decimal" mode does exact decimal arithmetic on strings (use it for money); "float" uses ordinary floating point.',
+    parameters: z.object({
+      mode: z.enum(PRECISION_MODES).describe('The default precision mode'),
+      scale: precisionParameters.scale,
+      rounding: precisionParameters.rounding,
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Set Precision Mode',
+    },
+    execute: async (args, { sessionId }) => {
+      sessionPrecision.set(sessionId ?? '', args);
+      return args.mode === 'decimal'
+        ? `Decimal mode enabled: ${args.scale === undefined ? 'exact results' : `${args.scale} decimal places`}, ${args.rounding ?? 'half-even'} rounding`
+        : 'Float mode enabled';
+    },
+  });
+
+  server.addTool({
+    name: 'evaluate',
+    description: `Evaluate a full arithmetic expression in one call and return the result with a step-by-step reduction trace. Supports + - * / % ^ (or **), parentheses, unary minus, the constants ${SUPPORTED_CONSTANTS.join(', ')} and the functions ${SUPPORTED_FUNCTIONS.join(', ')}. Example: "(5 * 3) + 10".`,
+    parameters: z.object({
+      expression: z
+        .string()
+        .describe('The arithmetic expression to evaluate, e.g. "2 + 3 * 4"'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Expression Evaluator',
+    },
+    outputSchema: evaluationResultSchema,
+    execute: async (args) => {
+      try {
+        const evaluation = evaluateExpression(args.expression);
+        return JSON.stringify(evaluation, null, 2);
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          // Surface parse/evaluation problems as structured tool errors so the
+          // client can point at the offending character
+          throw new UserError(`${error.message}\n${error.pointer()}`, {
+            error: 'ExpressionError',
+            message: error.message,
+            expression: error.expression,
+            position: error.position,
+          });
+        }
+        throw error;
+      }
+    },
+  });
+
+  server.addTool({
+    name: 'factorize',
+    description:
+      'Find the prime factors of a whole number. Numbers with large prime factors can take a long time; the tool reports progress and stops if the client cancels the call.',
+    parameters: z.object({
+      n: z
+        .union([
+          z.number().int().min(2),
+          z.string().regex(/^\d{1,40}$/, 'Must be a whole number'),
+        ])
+        .describe(
+          'The number to factorise (at least 2). Pass large numbers as strings.',
+        ),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Prime Factorizer',
+    },
+    outputSchema: factorizationResultSchema,
+    execute: async (args, { reportProgress }) => {
+      const n = BigInt(args.n);
+      if (n < 2n) {
+        throw new UserError('n must be at least 2');
+      }
+
+      const progress = throttleProgress(reportProgress);
+      const started = Date.now();
+      const factors = await factorize(n, ({ divisor, limit }) =>
+        progress({
+          progress: Number(divisor),
+          total: Number(limit),
+          message: `Trial division: ${divisor} of ${limit}`,
+        }),
+      );
+
+      return JSON.stringify({
+        n: n.toString(),
+        factors: factors.map(String),
+        prime: factors.length === 1,
+        elapsedMs: Date.now() - started,
+      });
+    },
+  });
+
+  const exchangeRates = await createExchangeRates(EXCHANGE_RATES_FILE);
+
+  // Currency results depend on the rate table, so say which one was used
+  const ratesAsOf = (...quantities: Quantity[]) =>
+    quantities.some((quantity) => quantity.unit?.dimension === 'currency')
+      ? exchangeRates.get().asOf
+      : undefined;
+
+  server.addTool({
+    name: 'convert',
+    description:
+      'Convert a value between units of the same dimension: length, mass, temperature, time, data size, area or currency (offline exchange rates). Example: 5 mi to km.',
+    parameters: z.object({
+      value: z.coerce.number().describe('The value to convert'),
+      from: z.string().describe('The unit to convert from, e.g. "mi" or "EUR"'),
+      to: z.string().describe('The unit to convert to, e.g. "km" or "USD"'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Unit Converter',
+    },
+    outputSchema: conversionResultSchema,
+    execute: async (args) => {
+      const rates = exchangeRates.get();
+      const from = findUnit(args.from, rates);
+      const converted = convertQuantity(
+        { value: args.value, unit: from },
+        findUnit(args.to, rates),
+      );
+      return JSON.stringify({
+        result: converted.value,
+        unit: converted.unit!.symbol,
+        dimension: from.dimension,
+        from: { value: args.value, unit: from.symbol },
+        ratesAsOf: ratesAsOf(converted),
+      });
+    },
+  });
+
+  server.addTool({
+    name: 'calculateWithUnits',
+    description:
+      'Add, subtract, multiply or divide quantities with units, e.g. "5 mi" plus "300 m" in km. Adding or subtracting needs matching dimensions; multiply and divide scale a quantity by a plain number, and dividing two quantities of the same dimension gives a ratio.',
+    parameters: z.object({
+      operation: z
+        .enum(['add', 'subtract', 'multiply', 'divide'])
+        .describe('The operation to perform'),
+      a: z
+        .union([z.number(), z.string()])
+        .describe('The first quantity, e.g. "5 miles" or "20 °C"'),
+      b: z
+        .union([z.number(), z.string()])
+        .describe('The second quantity, e.g. "300 m", or a plain number'),
+      resultUnit: z
+        .string()
+        .optional()
+        .describe("Unit for the result; defaults to the first quantity's unit"),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Unit-Aware Calculator',
+    },
+    outputSchema: quantityResultSchema,
+    execute: async (args) => {
+      const rates = exchangeRates.get();
+      const a = parseQuantity(args.a, rates);
+      const b = parseQuantity(args.b, rates);
+      const result = calculateQuantity(
+        args.operation,
+        a,
+        b,
+        args.resultUnit === undefined
+          ? undefined
+          : findUnit(args.resultUnit, rates),
+      );
+      return JSON.stringify({
+        result: result.value,
+        unit: result.unit?.symbol,
+        dimension: result.unit?.dimension,
+        operation: args.operation,
+        operands: [formatQuantity(a), formatQuantity(b)],
+        ratesAsOf: ratesAsOf(a, b),
+      });
+    },
+  });
+
+  server.addTool({
+    name: 'listUnits',
+    description:
+      'List the units and currencies that convert and calculateWithUnits understand',
+    parameters: z.object({
+      dimension: z
+        .enum(DIMENSIONS)
+        .optional()
+        .describe('Only list units of this dimension'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'List Units',
+    },
+    execute: async (args) => {
+      return JSON.stringify(
+        listUnits(exchangeRates.get(), args.dimension),
+        null,
+        2,
+      );
+    },
+  });
+
+  server.addTool({
+    name: 'reloadExchangeRates',
+    description:
+      'Re-read the offline exchange rate file so currency conversions use the latest rates',
+    parameters: z.object({}),
+    annotations: {
+      idempotentHint: true,
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Reload Exchange Rates',
+    },
+    execute: async () => {
+      const rates = await exchangeRates.reload();
+      console.log(
+        `💱 Exchange rates reloaded from ${exchangeRates.path} (as of ${rates.asOf})`,
+      );
+      return `Loaded ${Object.keys(rates.rates).length} exchange rates against ${rates.base}, as of ${rates.asOf}`;
+    },
+  });
+
+  const statisticsTools = addStatisticsTools(server);
+
+  // Admin tools: add, remove and discover operations at runtime
+  const builtInTools = [
+    'add',
+    'subtract',
+    'multiply',
+    'divide',
+    'batch',
+    'setPrecisionMode',
+    'evaluate',
+    'factorize',
+    'convert',
+    'calculateWithUnits',
+    'listUnits',
+    'reloadExchangeRates',
+    ...statisticsTools,
+    'registerOperation',
+    'removeOperation',
+    'listOperations',
+  ];
+  const operations = createOperationRegistry(server, builtInTools);
+
+  // Tools that declare an outputSchema get structuredContent on their results
+  const structuredTools = new Set([
+    'add',
+    'subtract',
+    'multiply',
+    'divide',
+    'batch',
+    'evaluate',
+    'factorize',
+    'convert',
+    'calculateWithUnits',
+    ...statisticsTools,
+  ]);
+  useToolCallMiddleware(
+    server,
+    structuredOutput(
+      (name) => structuredTools.has(name) || operations.has(name),
+    ),
+  );
+  useToolCallMiddleware(server, cancellation());
+
+  server.addTool({
+    name: 'registerOperation',
+    description:
+      'Register a new calculator operation at runtime from a declarative definition. Connected clients are notified that the tool list changed.',
+    parameters: operationDefinitionSchema,
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Register Operation',
+    },
+    execute: async (args) => {
+      const { replaced } = operations.register(args);
+      console.log(
+        `🧩 Operation '${args.name}' ${replaced ? 'replaced' : 'registered'}: ${args.formula}`,
+      );
+      return `Operation '${args.name}' ${replaced ? 'replaced' : 'registered'} (formula: ${args.formula})`;
+    },
+  });
+
+  server.addTool({
+    name: 'removeOperation',
+    description:
+      'Remove a calculator operation that was registered at runtime. Built-in tools cannot be removed.',
+    parameters: z.object({
+      name: z.string().describe('The name of the operation to remove'),
+    }),
+    annotations: {
+      destructiveHint: true,
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Remove Operation',
+    },
+    execute: async (args) => {
+      operations.remove(args.name);
+      console.log(`🗑️  Operation '${args.name}' removed`);
+      return `Operation '${args.name}' removed`;
+    },
+  });
+
+  server.addTool({
+    name: 'listOperations',
+    description: 'List the calculator operations registered at runtime',
+    parameters: z.object({}),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'List Operations',
+    },
+    execute: async () => {
+      return JSON.stringify(operations.list(), null, 2);
+    },
+  });
+
+  // Event handlers to demonstrate server lifecycle
+  server.on('connect', (event) => {
+    console.log('🔗 Client connected to tools-only server');
+    console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
+  });
+
+  server.on('disconnect', (event) => {
+    sessionPrecision.delete(event.session.sessionId ?? '');
+    console.log('❌ Client disconnected from tools-only server');
+    console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
+  });
+
+  // Start the server
+  await server.start({
+    transportType: 'httpStream',
+    httpStream: { port, host: HTTP_SECURITY.host },
+  });
+  console.log(`🔧 Tools-Only MCP Server running on port ${port}`);
+  console.log(`📡 Connect via: http://localhost:${port}/stream`);
+  return { stop: () => server.stop() };
+}
+
+if (isMainModule(import.meta.url)) {
+  await startServer();
+}
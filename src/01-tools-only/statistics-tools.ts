@@ -0,0 +1,424 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import { FastMCP, UserError } from 'fastmcp';
+import { z } from 'zod';
+import { RESOURCES_SERVER_URL } from './constants';
+import {
+  histogram,
+  linearRegression,
+  mean,
+  median,
+  mode,
+  percentile,
+  stddev,
+  variance,
+} from './statistics';
+
+/**
+ * Statistics tools.
+ *
+ * Each tool takes its numbers from one of three places: a `values` array, CSV
+ * text plus a `column`, or a CSV `resource` plus a `column`. Resources are
+ * read from the resources server (example 02), so an agent can ask for the
+ * p95 of `data://sample-metrics.csv` without copying the data through the
+ * prompt.
+ */
+
+interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Parses CSV with a header row. Quoted fields may contain commas and "". */
+function parseCsv(text: string): CsvTable {
+  const parseLine = (line: string) => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let index = 0; index < line.length; index++) {
+      const char = line[index];
+      if (quoted) {
+        if (char === '"' && line[index + 1] === '"') {
+          cell += '"';
+          index++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell.trim());
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    cells.push(cell.trim());
+    return cells;
+  };
+
+  const [headerLine, ...lines] = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '');
+  if (!headerLine) {
+    throw new UserError('The CSV is empty');
+  }
+  return {
+    headers: parseLine(headerLine),
+    rows: lines.map((line) => parseLine(line)),
+  };
+}
+
+function columnValues(table: CsvTable, column: string): number[] {
+  const index = table.headers.indexOf(column);
+  if (index === -1) {
+    throw new UserError(
+      `Column '${column}' not found. Available columns: ${table.headers.join(', ')}`,
+    );
+  }
+
+  const values: number[] = [];
+  for (const [rowIndex, row] of table.rows.entries()) {
+    const cell = row[index] ?? '';
+    if (cell === '') {
+      continue; // Missing values are skipped
+    }
+    const value = Number(cell);
+    // Infinity parses too, but no statistic of it can be returned as JSON
+    if (!Number.isFinite(value)) {
+      throw new UserError(
+        `Column '${column}' has a non-numeric value '${cell}' on row ${rowIndex + 1}`,
+      );
+    }
+    values.push(value);
+  }
+  return values;
+}
+
+async function readResource(uri: string): Promise<string> {
+  const client = new Client({
+    name: 'calculator-tools-server',
+    version: '1.0.0',
+  });
+  try {
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(RESOURCES_SERVER_URL)),
+    );
+    const { contents } = await client.readResource({ uri });
+    const text = contents.find((content) => 'text' in content)?.text;
+    if (typeof text !== 'string') {
+      throw new UserError(`Resource ${uri} has no text content`);
+    }
+    return text;
+  } catch (error) {
+    if (error instanceof UserError) {
+      throw error;
+    }
+    throw new UserError(
+      `Could not read ${uri} from the resources server at ${RESOURCES_SERVER_URL}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+const sourceParameters = {
+  csv: z
+    .string()
+    .optional()
+    .describe('CSV text with a header row; use together with a column name'),
+  resource: z
+    .string()
+    .optional()
+    .describe(
+      'URI of a CSV resource on the resources server, e.g. "data://sample-metrics.csv"; use together with a column name',
+    ),
+};
+
+const datasetParameters = {
+  values: z.array(z.number()).optional().describe('The numbers to analyse'),
+  ...sourceParameters,
+  column: z
+    .string()
+    .optional()
+    .describe('The CSV column to analyse, e.g. "response_time_ms"'),
+};
+
+type SourceArgs = { csv?: string; resource?: string };
+
+async function loadTable(args: SourceArgs) {
+  if (args.csv !== undefined && args.resource !== undefined) {
+    throw new UserError('Pass either csv or resource, not both');
+  }
+  if (args.resource !== undefined) {
+    return {
+      table: parseCsv(await readResource(args.resource)),
+      source: args.resource,
+    };
+  }
+  if (args.csv !== undefined) {
+    return { table: parseCsv(args.csv), source: 'csv' };
+  }
+  return;
+}
+
+async function loadValues(
+  args: SourceArgs & { values?: number[]; column?: string },
+) {
+  const loaded = await loadTable(args);
+  if (!loaded) {
+    if (!args.values) {
+      throw new UserError(
+        'Provide the numbers as values, or a csv or resource together with a column',
+      );
+    }
+    return { values: args.values, source: 'values' };
+  }
+  if (args.values) {
+    throw new UserError('Pass either values or a CSV source, not both');
+  }
+  if (!args.column) {
+    throw new UserError(
+      `A column is required with CSV input. Available columns: ${loaded.table.headers.join(', ')}`,
+    );
+  }
+  return {
+    values: columnValues(loaded.table, args.column),
+    source: `${loaded.source}#${args.column}`,
+  };
+}
+
+const statisticResultSchema = z.object({
+  statistic: z.string().describe('The statistic that was calculated'),
+  count: z.number().describe('How many values were analysed'),
+  source: z
+    .string()
+    .describe('Where the values came from, e.g. "data://metrics.csv#column"'),
+});
+
+const numericStatisticSchema = statisticResultSchema.extend({
+  result: z.number(),
+});
+
+/**
+ * Adds the statistics tools to `server` and returns their names.
+ */
+export function addStatisticsTools(server: FastMCP): string[] {
+  const annotations = { openWorldHint: false, readOnlyHint: true };
+
+  const simpleStatistics = [
+    {
+      name: 'mean',
+      description: 'Calculate the arithmetic mean (average)',
+      calculate: (values: number[]) => mean(values),
+    },
+    {
+      name: 'median',
+      description: 'Calculate the median (middle value)',
+      calculate: (values: number[]) => median(values),
+    },
+  ];
+  for (const statistic of simpleStatistics) {
+    server.addTool({
+      name: statistic.name,
+      description: `${statistic.description} of a list of numbers or a CSV column`,
+      parameters: z.object(datasetParameters),
+      annotations: { ...annotations, title: `Statistics: ${statistic.name}` },
+      outputSchema: numericStatisticSchema,
+      execute: async (args) => {
+        const { values, source } = await loadValues(args);
+        return JSON.stringify({
+          statistic: statistic.name,
+          result: statistic.calculate(values),
+          count: values.length,
+          source,
+        });
+      },
+    });
+  }
+
+  server.addTool({
+    name: 'mode',
+    description:
+      'Find the most frequent value(s) in a list of numbers or a CSV column',
+    parameters: z.object(datasetParameters),
+    annotations: { ...annotations, title: 'Statistics: mode' },
+    outputSchema: statisticResultSchema.extend({
+      result: z.array(z.number()).describe('The most frequent value(s)'),
+      frequency: z.number().describe('How often each mode occurs'),
+    }),
+    execute: async (args) => {
+      const { values, source } = await loadValues(args);
+      const { modes, frequency } = mode(values);
+      return JSON.stringify({
+        statistic: 'mode',
+        result: modes,
+        frequency,
+        count: values.length,
+        source,
+      });
+    },
+  });
+
+  for (const [name, calculate, description] of [
+    ['variance', variance, 'Calculate the variance'],
+    ['stddev', stddev, 'Calculate the standard deviation'],
+  ] as const) {
+    server.addTool({
+      name,
+      description: `${description} of a list of numbers or a CSV column. Uses the sample formula (n - 1) unless population is true.`,
+      parameters: z.object({
+        ...datasetParameters,
+        population: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            'Treat the values as a whole population instead of a sample',
+          ),
+      }),
+      annotations: { ...annotations, title: `Statistics: ${name}` },
+      outputSchema: numericStatisticSchema.extend({
+        population: z.boolean(),
+      }),
+      execute: async (args) => {
+        const { values, source } = await loadValues(args);
+        return JSON.stringify({
+          statistic: name,
+          result: calculate(values, args.population),
+          population: args.population,
+          count: values.length,
+          source,
+        });
+      },
+    });
+  }
+
+  server.addTool({
+    name: 'percentile',
+    description:
+      'Calculate a percentile (e.g. p95) of a list of numbers or a CSV column, interpolating linearly between ranks',
+    parameters: z.object({
+      ...datasetParameters,
+      p: z.coerce
+        .number()
+        .min(0)
+        .max(100)
+        .describe('The percentile to calculate, from 0 to 100 (e.g. 95)'),
+    }),
+    annotations: { ...annotations, title: 'Statistics: percentile' },
+    outputSchema: numericStatisticSchema.extend({ p: z.number() }),
+    execute: async (args) => {
+      const { values, source } = await loadValues(args);
+      return JSON.stringify({
+        statistic: 'percentile',
+        result: percentile(values, args.p),
+        p: args.p,
+        count: values.length,
+        source,
+      });
+    },
+  });
+
+  server.addTool({
+    name: 'histogram',
+    description:
+      'Count a list of numbers or a CSV column into equal-width bins',
+    parameters: z.object({
+      ...datasetParameters,
+      bins: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(10)
+        .describe('Number of bins'),
+    }),
+    annotations: { ...annotations, title: 'Statistics: histogram' },
+    outputSchema: statisticResultSchema.extend({
+      result: z
+        .array(
+          z.object({ from: z.number(), to: z.number(), count: z.number() }),
+        )
+        .describe('The bins, lowest first'),
+    }),
+    execute: async (args) => {
+      const { values, source } = await loadValues(args);
+      return JSON.stringify({
+        statistic: 'histogram',
+        result: histogram(values, args.bins),
+        count: values.length,
+        source,
+      });
+    },
+  });
+
+  server.addTool({
+    name: 'linearRegression',
+    description:
+      'Fit a straight line y = slope * x + intercept by least squares. Takes x and y arrays, or a csv or resource with xColumn and yColumn.',
+    parameters: z.object({
+      x: z.array(z.number()).optional().describe('The x values'),
+      y: z.array(z.number()).optional().describe('The y values'),
+      ...sourceParameters,
+      xColumn: z.string().optional().describe('CSV column for x'),
+      yColumn: z.string().optional().describe('CSV column for y'),
+    }),
+    annotations: { ...annotations, title: 'Statistics: linear regression' },
+    outputSchema: statisticResultSchema.extend({
+      result: z.object({
+        slope: z.number(),
+        intercept: z.number(),
+        rSquared: z.number().describe('Goodness of fit: 1 is a perfect fit'),
+      }),
+    }),
+    execute: async (args) => {
+      const loaded = await loadTable(args);
+      let x = args.x;
+      let y = args.y;
+      let source = 'values';
+      if (loaded) {
+        if (!args.xColumn || !args.yColumn) {
+          throw new UserError(
+            `xColumn and yColumn are required with CSV input. Available columns: ${loaded.table.headers.join(', ')}`,
+          );
+        }
+        // Read whole rows so x and y stay paired. Short rows lack cells.
+        const xIndex = loaded.table.headers.indexOf(args.xColumn);
+        const yIndex = loaded.table.headers.indexOf(args.yColumn);
+        const pairs = loaded.table.rows.filter(
+          (row) => (row[xIndex] ?? '') !== '' && (row[yIndex] ?? '') !== '',
+        );
+        const paired = { headers: loaded.table.headers, rows: pairs };
+        x = columnValues(paired, args.xColumn);
+        y = columnValues(paired, args.yColumn);
+        source = `${loaded.source}#${args.xColumn},${args.yColumn}`;
+      }
+      if (!x || !y) {
+        throw new UserError(
+          'Provide x and y arrays, or a csv or resource with xColumn and yColumn',
+        );
+      }
+      return JSON.stringify({
+        statistic: 'linearRegression',
+        result: linearRegression(x, y),
+        count: x.length,
+        source,
+      });
+    },
+  });
+
+  return [
+    'mean',
+    'median',
+    'mode',
+    'variance',
+    'stddev',
+    'percentile',
+    'histogram',
+    'linearRegression',
+  ];
+}
@@ -0,0 +1,156 @@
+import { UserError } from 'fastmcp';
+
+/**
+ * Descriptive statistics over lists of numbers.
+ *
+ * Pure functions with no MCP concerns: the tools in `statistics-tools.ts`
+ * resolve their input (an array, CSV text or a CSV resource) and call these.
+ */
+
+function requireValues(values: number[], minimum = 1) {
+  if (values.length < minimum) {
+    throw new UserError(
+      minimum === 1
+        ? 'No values to analyse'
+        : `At least ${minimum} values are needed, got ${values.length}`,
+    );
+  }
+}
+
+const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+
+export function mean(values: number[]): number {
+  requireValues(values);
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/** The most frequent value(s). Every value is a mode when none repeats. */
+export function mode(values: number[]): { modes: number[]; frequency: number } {
+  requireValues(values);
+  const counts = new Map<number, number>();
+  // Tracked while counting: Math.max(...counts) overflows the stack on long
+  // lists
+  let frequency = 0;
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    frequency = Math.max(frequency, count);
+  }
+  const modes = [...counts]
+    .filter(([, count]) => count === frequency)
+    .map(([value]) => value)
+    .sort((a, b) => a - b);
+  return { modes, frequency };
+}
+
+/**
+ * Sample variance (n - 1 denominator) by default; pass `population` for the
+ * population variance.
+ */
+export function variance(values: number[], population = false): number {
+  requireValues(values, population ? 1 : 2);
+  const average = mean(values);
+  const squares = values.reduce(
+    (sum, value) => sum + (value - average) ** 2,
+    0,
+  );
+  return squares / (population ? values.length : values.length - 1);
+}
+
+export function stddev(values: number[], population = false): number {
+  return Math.sqrt(variance(values, population));
+}
+
+/**
+ * The `p`th percentile (0-100), linearly interpolating between the closest
+ * ranks. This is the same method as Excel's PERCENTILE.INC and NumPy's
+ * default.
+ */
+export function percentile(values: number[], p: number): number {
+  requireValues(values);
+  if (p < 0 || p > 100) {
+    throw new UserError(`Percentile must be between 0 and 100, got ${p}`);
+  }
+  const ordered = sorted(values);
+  const rank = (p / 100) * (ordered.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return ordered[lower]! + (ordered[upper]! - ordered[lower]!) * (rank - lower);
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * Counts values into `bins` equal-width bins spanning the data. Each bin
+ * includes its lower bound; the last bin also includes the maximum.
+ */
+export function histogram(values: number[], bins = 10): HistogramBin[] {
+  requireValues(values);
+  const ordered = sorted(values);
+  const min = ordered[0]!;
+  const max = ordered.at(-1)!;
+  if (min === max) {
+    return [{ from: min, to: max, count: values.length }];
+  }
+
+  const width = (max - min) / bins;
+  const result = Array.from({ length: bins }, (_, index) => ({
+    from: min + index * width,
+    to: index === bins - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of values) {
+    const index = Math.min(Math.floor((value - min) / width), bins - 1);
+    result[index]!.count++;
+  }
+  return result;
+}
+
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+  /** Coefficient of determination: 1 is a perfect fit */
+  rSquared: number;
+}
+
+/** Ordinary least squares fit of `y = slope * x + intercept`. */
+export function linearRegression(x: number[], y: number[]): LinearRegression {
+  if (x.length !== y.length) {
+    throw new UserError(
+      `x and y must have the same length (got ${x.length} and ${y.length})`,
+    );
+  }
+  requireValues(x, 2);
+
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [index, xValue] of x.entries()) {
+    const dx = xValue - meanX;
+    const dy = y[index]! - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+  if (varianceX === 0) {
+    throw new UserError('Cannot fit a line: all x values are the same');
+  }
+
+  const slope = covariance / varianceX;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared:
+      varianceY === 0 ? 1 : (covariance * covariance) / (varianceX * varianceY),
+  };
+}
@@ -0,0 +1,357 @@
+import { UserError } from 'fastmcp';
+
+/**
+ * Units of measure and unit-aware arithmetic.
+ *
+ * Every unit belongs to a dimension and converts to that dimension's base
+ * unit (metre, kilogram, kelvin, second, byte, square metre) with
+ * `base = value * factor + offset`. Only temperatures need an offset.
+ * Currencies are an extra dimension whose factors come from the exchange
+ * rate table, so they can change at runtime.
+ */
+
+export const DIMENSIONS = [
+  'length',
+  'mass',
+  'temperature',
+  'time',
+  'data',
+  'area',
+  'currency',
+] as const;
+
+export type Dimension = (typeof DIMENSIONS)[number];
+
+export interface Unit {
+  symbol: string;
+  name: string;
+  dimension: Dimension;
+  factor: number;
+  offset?: number;
+  aliases?: string[];
+}
+
+export type UnitErrorCode =
+  'UnknownUnit' | 'IncompatibleUnits' | 'InvalidQuantity';
+
+export class UnitError extends UserError {
+  constructor(
+    public readonly code: UnitErrorCode,
+    message: string,
+    details: Record<string, unknown> = {},
+  ) {
+    super(message, { error: code, message, ...details });
+  }
+}
+
+type UnitSpec = [
+  symbol: string,
+  name: string,
+  factor: number,
+  aliases?: string[],
+];
+
+const defineUnits = (dimension: Dimension, specs: UnitSpec[]): Unit[] =>
+  specs.map(([symbol, name, factor, aliases]) => ({
+    symbol,
+    name,
+    dimension,
+    factor,
+    aliases,
+  }));
+
+const UNITS: Unit[] = [
+  ...defineUnits('length', [
+    ['m', 'metre', 1, ['meter']],
+    ['km', 'kilometre', 1000, ['kilometer']],
+    ['cm', 'centimetre', 0.01, ['centimeter']],
+    ['mm', 'millimetre', 0.001, ['millimeter']],
+    ['mi', 'mile', 1609.344],
+    ['yd', 'yard', 0.9144],
+    ['ft', 'foot', 0.3048, ['feet']],
+    ['in', 'inch', 0.0254, ['inches']],
+    ['nmi', 'nautical mile', 1852],
+  ]),
+  ...defineUnits('mass', [
+    ['kg', 'kilogram', 1, ['kilo']],
+    ['g', 'gram', 0.001],
+    ['mg', 'milligram', 1e-6],
+    ['t', 'tonne', 1000, ['metric ton']],
+    ['lb', 'pound', 0.453_592_37, ['lbs']],
+    ['oz', 'ounce', 0.028_349_523_125],
+    ['st', 'stone', 6.350_293_18],
+  ]),
+  ...defineUnits('temperature', [['K', 'kelvin', 1]]),
+  {
+    symbol: '°C',
+    name: 'celsius',
+    dimension: 'temperature',
+    factor: 1,
+    offset: 273.15,
+    aliases: ['c', 'degc', 'degrees celsius'],
+  },
+  {
+    symbol: '°F',
+    name: 'fahrenheit',
+    dimension: 'temperature',
+    factor: 5 / 9,
+    offset: (459.67 * 5) / 9,
+    aliases: ['f', 'degf', 'degrees fahrenheit'],
+  },
+  ...defineUnits('time', [
+    ['s', 'second', 1, ['sec']],
+    ['ms', 'millisecond', 0.001],
+    ['min', 'minute', 60],
+    ['h', 'hour', 3600, ['hr']],
+    ['d', 'day', 86_400],
+    ['wk', 'week', 604_800],
+    ['yr', 'year', 31_557_600],
+  ]),
+  ...defineUnits('data', [
+    ['bit', 'bit', 1 / 8],
+    ['B', 'byte', 1],
+    ['KB', 'kilobyte', 1e3],
+    ['MB', 'megabyte', 1e6],
+    ['GB', 'gigabyte', 1e9],
+    ['TB', 'terabyte', 1e12],
+    ['KiB', 'kibibyte', 1024],
+    ['MiB', 'mebibyte', 1024 ** 2],
+    ['GiB', 'gibibyte', 1024 ** 3],
+    ['TiB', 'tebibyte', 1024 ** 4],
+  ]),
+  ...defineUnits('area', [
+    ['m²', 'square metre', 1, ['m2', 'sq m', 'square meter']],
+    ['km²', 'square kilometre', 1e6, ['km2', 'sq km', 'square kilometer']],
+    ['cm²', 'square centimetre', 1e-4, ['cm2', 'sq cm', 'square centimeter']],
+    ['ha', 'hectare', 10_000],
+    ['ac', 'acre', 4046.856_422_4],
+    ['ft²', 'square foot', 0.092_903_04, ['ft2', 'sq ft', 'square feet']],
+    ['mi²', 'square mile', 2_589_988.110_336, ['mi2', 'sq mi']],
+  ]),
+];
+
+// Names and aliases match case-insensitively and in the plural. Exact symbols
+// are checked first, so "B" (byte) and "K" (kelvin) still resolve.
+const unitsByKey = new Map<string, Unit>();
+for (const unit of UNITS) {
+  for (const name of [unit.name, ...(unit.aliases ?? [])]) {
+    unitsByKey.set(name.toLowerCase(), unit);
+    unitsByKey.set(`${name.toLowerCase()}s`, unit);
+  }
+  unitsByKey.set(unit.symbol.toLowerCase(), unit);
+}
+
+/** Exchange rates: units of each currency per one unit of `base`. */
+export interface ExchangeRates {
+  base: string;
+  asOf: string;
+  rates: Record<string, number>;
+}
+
+function currencyUnit(code: string, rates: ExchangeRates): Unit | undefined {
+  const upper = code.toUpperCase();
+  const rate = upper === rates.base ? 1 : rates.rates[upper];
+  if (rate === undefined) {
+    return undefined;
+  }
+  return {
+    symbol: upper,
+    name: upper,
+    dimension: 'currency',
+    factor: 1 / rate,
+  };
+}
+
+/**
+ * @throws {UnitError} when the unit isn't known
+ */
+export function findUnit(name: string, rates: ExchangeRates): Unit {
+  const key = name.trim();
+  const unit =
+    UNITS.find((candidate) => candidate.symbol === key) ??
+    unitsByKey.get(key.toLowerCase()) ??
+    currencyUnit(key, rates);
+  if (!unit) {
+    throw new UnitError('UnknownUnit', `Unknown unit '${key}'`, { unit: key });
+  }
+  return unit;
+}
+
+export function listUnits(rates: ExchangeRates, dimension?: Dimension) {
+  const currencies = [rates.base, ...Object.keys(rates.rates)]
+    .filter((code, index, codes) => codes.indexOf(code) === index)
+    .map((code) => currencyUnit(code, rates)!);
+  return [...UNITS, ...currencies]
+    .filter((unit) => !dimension || unit.dimension === dimension)
+    .map(({ symbol, name, dimension }) => ({ symbol, name, dimension }));
+}
+
+/** A number with an optional unit; no unit means a plain number. */
+export interface Quantity {
+  value: number;
+  unit?: Unit;
+}
+
+const QUANTITY_PATTERN =
+  /^([+-]?(?:\d[\d,]*\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(.*)$/i;
+
+/**
+ * Parses quantities such as "5 miles", "300m", "-40 °F" or "12.5".
+ *
+ * @throws {UnitError} for malformed quantities or unknown units
+ */
+export function parseQuantity(
+  input: string | number,
+  rates: ExchangeRates,
+): Quantity {
+  if (typeof input === 'number') {
+    return { value: input };
+  }
+  const match = QUANTITY_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new UnitError(
+      'InvalidQuantity',
+      `'${input}' is not a quantity; expected a number followed by a unit, e.g. "5 km"`,
+      { quantity: input },
+    );
+  }
+  const [, value = '', unit = ''] = match;
+  return {
+    value: Number(value.replaceAll(',', '')),
+    unit: unit ? findUnit(unit, rates) : undefined,
+  };
+}
+
+export function formatQuantity({ value, unit }: Quantity): string {
+  return unit ? `${value} ${unit.symbol}` : String(value);
+}
+
+// Tidies floating point noise such as 8.046720000000001
+const tidy = (value: number) => Number(value.toPrecision(12));
+
+function toBase({ value, unit }: Quantity, asDifference = false): number {
+  if (!unit) {
+    return value;
+  }
+  return value * unit.factor + (asDifference ? 0 : (unit.offset ?? 0));
+}
+
+function fromBase(value: number, unit: Unit): number {
+  return (value - (unit.offset ?? 0)) / unit.factor;
+}
+
+/**
+ * @throws {UnitError} when the units measure different dimensions
+ */
+export function convertQuantity(quantity: Quantity, target: Unit): Quantity {
+  const source = quantity.unit;
+  if (!source || source.dimension !== target.dimension) {
+    throw new UnitError(
+      'IncompatibleUnits',
+      `Cannot convert ${source ? `${source.dimension} (${source.symbol})` : 'a plain number'} to ${target.dimension} (${target.symbol})`,
+      { from: source?.symbol ?? null, to: target.symbol },
+    );
+  }
+  return { value: tidy(fromBase(toBase(quantity), target)), unit: target };
+}
+
+export type UnitOperation = 'add' | 'subtract' | 'multiply' | 'divide';
+
+function incompatible(operation: UnitOperation, a: Quantity, b: Quantity) {
+  const describe = (quantity: Quantity) =>
+    quantity.unit
+      ? `${quantity.unit.dimension} (${quantity.unit.symbol})`
+      : 'a plain number';
+  return new UnitError(
+    'IncompatibleUnits',
+    `Cannot ${operation} ${describe(a)} and ${describe(b)}`,
+    {
+      operation,
+      operands: [formatQuantity(a), formatQuantity(b)],
+    },
+  );
+}
+
+/**
+ * Unit-aware arithmetic.
+ *
+ * - add/subtract need operands of the same dimension. For temperatures the
+ *   second operand is a difference, so 20 °C + 10 °F is 25.56 °C.
+ * - multiply/divide scale a quantity by a plain number; dividing two
+ *   quantities of the same dimension gives a plain ratio.
+ *
+ * The result is expressed in `resultUnit`, or the first operand's unit.
+ *
+ * @throws {UnitError} for incompatible dimensions or a result unit of the
+ * wrong dimension
+ */
+export function calculateQuantity(
+  operation: UnitOperation,
+  a: Quantity,
+  b: Quantity,
+  resultUnit?: Unit,
+): Quantity {
+  let result: Quantity;
+
+  switch (operation) {
+    case 'add':
+    case 'subtract': {
+      if (a.unit?.dimension !== b.unit?.dimension) {
+        throw incompatible(operation, a, b);
+      }
+      if (!a.unit) {
+        result = {
+          value: operation === 'add' ? a.value + b.value : a.value - b.value,
+        };
+        break;
+      }
+      // The second operand of temperature arithmetic is a difference, not a
+      // reading, so its offset is ignored
+      const left = toBase(a);
+      const right = toBase(b, a.unit.dimension === 'temperature');
+      result = {
+        value: fromBase(
+          operation === 'add' ? left + right : left - right,
+          a.unit,
+        ),
+        unit: a.unit,
+      };
+      break;
+    }
+    case 'multiply': {
+      if (a.unit && b.unit) {
+        throw incompatible(operation, a, b);
+      }
+      result = { value: a.value * b.value, unit: a.unit ?? b.unit };
+      break;
+    }
+    case 'divide': {
+      if (b.value === 0) {
+        throw new UnitError('InvalidQuantity', 'Cannot divide by zero', {
+          operation,
+          operands: [formatQuantity(a), formatQuantity(b)],
+        });
+      }
+      if (!b.unit) {
+        result = { value: a.value / b.value, unit: a.unit };
+      } else if (a.unit?.dimension === b.unit.dimension) {
+        result = { value: toBase(a, true) / toBase(b, true) };
+      } else {
+        throw incompatible(operation, a, b);
+      }
+      break;
+    }
+  }
+
+  if (resultUnit && result.unit && resultUnit !== result.unit) {
+    return convertQuantity(result, resultUnit);
+  }
+  if (resultUnit && !result.unit) {
+    throw new UnitError(
+      'IncompatibleUnits',
+      `The result is a plain number and cannot be expressed in ${resultUnit.symbol}`,
+      { to: resultUnit.symbol },
+    );
+  }
+  return { ...result, value: tidy(result.value) };
+}
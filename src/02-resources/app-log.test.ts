@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type AppLog, createAppLog, type LogQuery } from './app-log';
+
+describe('app log', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'app-log-'));
+    file = path.join(directory, 'logs', 'app.log');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('writes one line per entry, creating the directory', async () => {
+    const log = createAppLog({ file, maxBytes: 10_000, maxFiles: 2 });
+    log.write('info', 'Started');
+    log.write('error', 'Failed:\n  disk full');
+
+    const lines = fs.readFileSync(file, 'utf8').trimEnd().split('\n');
+    expect(lines).toEqual([
+      expect.stringMatching(/^\S+Z \[INFO] Started$/),
+      expect.stringMatching(/^\S+Z \[ERROR] Failed: disk full$/),
+    ]);
+    expect(await log.read()).toMatchObject([
+      { level: 'info', message: 'Started' },
+      { level: 'error', message: 'Failed: disk full' },
+    ]);
+  });
+
+  /** The messages of the entries the log reads back */
+  const messages = async (log: AppLog, query?: LogQuery) => {
+    const entries = await log.read(query);
+    return entries.map(({ message }) => message);
+  };
+
+  it('rotates the file, keeping maxFiles old ones', async () => {
+    // Each entry is 40 bytes with its newline, so a file holds two
+    const log = createAppLog({ file, maxBytes: 80, maxFiles: 2 });
+    for (let entry = 1; entry <= 7; entry++) {
+      log.write('info', `Entry ${entry}`);
+    }
+
+    expect(fs.readdirSync(path.dirname(file)).sort()).toEqual([
+      'app.log',
+      'app.log.1',
+      'app.log.2',
+    ]);
+    expect(fs.readFileSync(file, 'utf8')).toContain('Entry 7');
+    // Entry 1 and 2 have been rotated away
+    expect(await messages(log)).toEqual([
+      'Entry 3',
+      'Entry 4',
+      'Entry 5',
+      'Entry 6',
+      'Entry 7',
+    ]);
+  });
+
+  it('keeps writing to a file from before it started', async () => {
+    createAppLog({ file, maxBytes: 80, maxFiles: 1 }).write('info', 'Entry 1');
+    const log = createAppLog({ file, maxBytes: 80, maxFiles: 1 });
+    log.write('info', 'Entry 2');
+    log.write('info', 'Entry 3');
+
+    expect(fs.readFileSync(`${file}.1`, 'utf8')).toContain('Entry 2');
+    expect(await messages(log)).toEqual(['Entry 1', 'Entry 2', 'Entry 3']);
+  });
+
+  it('filters by level and time, then keeps the last entries', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2025-01-31T09:00Z') });
+    const log = createAppLog({ file, maxBytes: 10_000, maxFiles: 1 });
+    for (const [minute, level] of [
+      [0, 'debug'],
+      [1, 'warn'],
+      [2, 'info'],
+      [3, 'error'],
+      [4, 'warn'],
+    ] as const) {
+      vi.setSystemTime(new Date(`2025-01-31T09:0${minute}Z`));
+      log.write(level, String(minute));
+    }
+
+    expect(await messages(log, { level: 'warn' })).toEqual(['1', '3', '4']);
+    expect(
+      await messages(log, { since: new Date('2025-01-31T09:02Z') }),
+    ).toEqual(['2', '3', '4']);
+    expect(await messages(log, { level: 'warn', tail: 2 })).toEqual(['3', '4']);
+    expect(
+      await messages(log, {
+        level: 'info',
+        since: new Date('2025-01-31T09:01Z'),
+        tail: 10,
+      }),
+    ).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('tells listeners about each entry written', () => {
+    const log = createAppLog({ file, maxBytes: 10_000, maxFiles: 1 });
+    const written: string[] = [];
+    const stop = log.onAppend(({ message }) => written.push(message));
+    log.write('info', 'One');
+    stop();
+    log.write('info', 'Two');
+    expect(written).toEqual(['One']);
+  });
+});
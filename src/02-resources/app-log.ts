@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { LOG_LEVELS } from './constants';
+
+/**
+ * The server's application log: a plain text file with one entry per line,
+ *
+ *   2025-01-31T09:30:00.000Z [INFO] Client connected (session 4f0c...)
+ *
+ * When a write would take the file past `maxBytes` it is rotated: app.log
+ * becomes app.log.1, app.log.1 becomes app.log.2 and so on, keeping
+ * `maxFiles` old files. Reads look through the old files too, oldest first.
+ */
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  time: Date;
+  level: LogLevel;
+  message: string;
+  /** The entry as written in the file */
+  line: string;
+}
+
+export interface LogQuery {
+  /** Only the last `tail` matching entries */
+  tail?: number;
+  /** Only entries written at or after this time */
+  since?: Date;
+  /** Only entries at this level or more severe */
+  level?: LogLevel;
+}
+
+export interface AppLogOptions {
+  file: string;
+  /** The size a file may grow to before it is rotated */
+  maxBytes: number;
+  /** How many rotated files to keep */
+  maxFiles: number;
+}
+
+export interface AppLog {
+  readonly file: string;
+  write(level: LogLevel, message: string): void;
+  /** The entries matching `query`, oldest first */
+  read(query?: LogQuery): Promise<LogEntry[]>;
+  /** Calls `listener` with each entry written. Returns an unsubscribe. */
+  onAppend(listener: (entry: LogEntry) => void): () => void;
+}
+
+const LINE = /^(\S+) \[([A-Z]+)\] (.*)$/;
+
+function parseLine(line: string): LogEntry | undefined {
+  const match = LINE.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const [, timestamp, levelName, message] = match;
+  const time = new Date(timestamp!);
+  const level = levelName!.toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level) || Number.isNaN(time.getTime())) {
+    return undefined;
+  }
+  return { time, level, message: message!, line };
+}
+
+/** Keeps the entries matching `query` */
+function filterEntries(entries: LogEntry[], query: LogQuery = {}) {
+  const threshold = LOG_LEVELS.indexOf(query.level ?? 'debug');
+  const matching = entries.filter(
+    (entry) =>
+      LOG_LEVELS.indexOf(entry.level) >= threshold &&
+      (!query.since || entry.time >= query.since),
+  );
+  return query.tail === undefined ? matching : matching.slice(-query.tail);
+}
+
+export function createAppLog({
+  file,
+  maxBytes,
+  maxFiles,
+}: AppLogOptions): AppLog {
+  const listeners = new Set<(entry: LogEntry) => void>();
+  const rotated = (index: number) => `${file}.${index}`;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let size = fs.existsSync(file) ? fs.statSync(file).size : 0;
+
+  function rotate() {
+    fs.rmSync(rotated(maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) {
+        fs.renameSync(rotated(index), rotated(index + 1));
+      }
+    }
+    fs.renameSync(file, rotated(1));
+    size = 0;
+  }
+
+  return {
+    file,
+
+    write(level, message) {
+      const time = new Date();
+      // One line per entry, whatever the message holds
+      const line = `${time.toISOString()} [${level.toUpperCase()}] ${message.replaceAll(/\s*\n\s*/g, ' ')}`;
+      const bytes = Buffer.byteLength(line) + 1;
+      try {
+        if (size > 0 && size + bytes > maxBytes) {
+          rotate();
+        }
+        fs.appendFileSync(file, `${line}\n`);
+        size += bytes;
+      } catch (error) {
+        // Logging must never take the server down
+        console.error(
+          `❌ Could not write to ${file}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return;
+      }
+      for (const listener of listeners) {
+        listener({ time, level, message, line });
+      }
+    },
+
+    async read(query) {
+      const files = [
+        ...Array.from({ length: maxFiles }, (_, index) =>
+          rotated(maxFiles - index),
+        ),
+        file,
+      ];
+      const entries: LogEntry[] = [];
+      for (const logFile of files) {
+        let text: string;
+        try {
+          text = await fs.promises.readFile(logFile, 'utf8');
+        } catch {
+          // Not written or rotated yet
+          continue;
+        }
+        for (const line of text.split('\n')) {
+          const entry = parseLine(line);
+          if (entry) {
+            entries.push(entry);
+          }
+        }
+      }
+      return filterEntries(entries, query);
+    },
+
+    onAppend(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
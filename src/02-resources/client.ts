@@ -1,8 +1,17 @@
 #!/usr/bin/env node
 
-import { experimental_createMCPClient as createMCPClient } from 'ai';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
-import { PORT, RESOURCE_URIS, RESOURCE_NAMES } from './constants';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types';
+import {
+  describeBinary,
+  isTextual,
+  saveBinary,
+} from '../shared/binary-content';
+import { cassetteTransport } from '../shared/cassette';
+import { flagValue } from '../shared/config';
+import { PORT, RESOURCE_URIS, UPDATE_INTERVAL_MS } from './constants';
 
 /**
  * Resources Deep-Dive Example Client
@@ -11,27 +20,33 @@ import { PORT, RESOURCE_URIS, RESOURCE_NAMES } from './constants';
  * of tools and prompts. Perfect for learning core resource concepts.
  */
 
-async function runResourcesDeepDive() {
+async function runResourcesDeepDive(saveDirectory?: string) {
   console.log('🗂️  Starting MCP Resources Deep-Dive Demo...\n');
 
+  // The AI SDK's MCP client only handles tools, so resources are read with
+  // the MCP SDK client
+  const client = new Client({
+    name: 'resources-deep-dive-client',
+    version: '1.0.0',
+  });
   try {
     // Connect to the resources deep-dive server
     // ---
     // NOTE: StreamableHTTPClientTransport enables efficient streaming of large or binary resources (e.g., images, logs, CSV) from the server to the client. This is crucial for scalable, real-world MCP applications where resources may be too large to load all at once or may be streamed in real time.
     // ---
-    const mcpClient = await createMCPClient({
-      transport: new StreamableHTTPClientTransport(
-        new URL(`http://localhost:${PORT}/mcp`),
+    await client.connect(
+      cassetteTransport(
+        'resources',
+        () =>
+          new StreamableHTTPClientTransport(
+            new URL(`http://localhost:${PORT}/mcp`),
+          ),
       ),
-    });
+    );
 
     console.log('📡 Connected to resources deep-dive server');
 
-    // Build the list of resources from RESOURCE_URIS and RESOURCE_NAMES
-    const resources = Object.entries(RESOURCE_URIS).map(([key, uri]) => ({
-      name: (RESOURCE_NAMES as Record<string, string>)[key] || uri,
-      uri,
-    }));
+    const { resources } = await client.listResources();
 
     console.log(
       `🗂️  Available resources: ${resources.length ? resources.map((r) => r.name || r.uri).join(', ') : 'none'}\n`,
@@ -45,23 +60,31 @@ async function runResourcesDeepDive() {
       for (const resource of resources) {
         const uri = resource.uri;
         try {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const result = await (mcpClient as any).fetchResource({ uri });
-          // Print a short preview (first 120 chars or base64 length for images)
-          let preview = '';
-          if (typeof result?.text === 'string') {
-            if (uri.startsWith('image://')) {
-              preview = `[image/png, base64 length: ${result.text.length}]`;
+          const { contents } = await client.readResource({ uri });
+          for (const content of contents) {
+            // Text is shown as is; binary content arrives base64-encoded in
+            // `blob` and is decoded according to its MIME type
+            let preview: string;
+            if ('blob' in content) {
+              const bytes = Buffer.from(content.blob, 'base64');
+              preview = describeBinary(content.mimeType, bytes);
+              if (saveDirectory && !isTextual(content.mimeType)) {
+                const file = saveBinary(
+                  saveDirectory,
+                  content.uri,
+                  content.mimeType,
+                  bytes,
+                );
+                preview += ` 💾 ${file}`;
+              }
             } else {
               preview =
-                result.text.length > 120
-                  ? result.text.slice(0, 120) + '...'
-                  : result.text;
+                content.text.length > 120
+                  ? content.text.slice(0, 120) + '...'
+                  : content.text;
             }
-          } else {
-            preview = '[no text content]';
+            console.log(`   • ${resource.name || uri}: ${preview}`);
           }
-          console.log(`   • ${resource.name || uri}: ${preview}`);
         } catch (error) {
           console.log(
             `   • ${resource.name || uri}: [Error fetching resource: ${error instanceof Error ? error.message : String(error)}]`,
@@ -101,6 +124,9 @@ async function runResourcesDeepDive() {
     console.log('   • web://dashboard.html - Web content and dashboards');
     console.log('   • data://sample-metrics.csv - Data files and datasets');
     console.log('   • image://mcp-logo.png - Binary content like images');
+    console.log(
+      '   • asset://resources-cheatsheet.pdf - Files from a directory',
+    );
     console.log('   • volatile://might-fail - Demonstrating error handling\n');
 
     console.log('   URI Design Best Practices:');
@@ -125,7 +151,16 @@ async function runResourcesDeepDive() {
     console.log('   • text/markdown - Documentation and formatted text');
     console.log('   • text/html - Web content and dashboards');
     console.log('   • text/csv - Tabular data and metrics');
-    console.log('   • image/png - Binary image content\n');
+    console.log(
+      '   • application/x-ndjson - One JSON record per line, for streaming',
+    );
+    console.log('   • image/png - Binary image content');
+    console.log(
+      '   • application/pdf, application/gzip - Documents and archives',
+    );
+    console.log(
+      '   Binary content comes base64-encoded in `blob`; decode it by MIME type\n',
+    );
 
     console.log('   MIME Type Importance:');
     console.log('   • Tells clients how to interpret resource content');
@@ -148,7 +183,7 @@ async function runResourcesDeepDive() {
     console.log('   • System status (system://status) - real-time metrics');
     console.log('   • Log files (file:///logs/app.log) - updated timestamps');
     console.log(
-      '   • Data exports (data://sample-metrics.csv) - generated data',
+      "   • Data exports (data://sample-metrics.csv) - the server's own metrics, sampled live",
     );
     console.log(
       '   • Dashboards (web://dashboard.html) - current information\n',
@@ -264,6 +299,94 @@ async function runResourcesDeepDive() {
     console.log(
       '\n📚 This demo showcases resource patterns even without live connection.',
     );
+  } finally {
+    await client.close();
+  }
+}
+
+// Subscriptions: the server pushes notifications/resources/updated when a
+// subscribed resource changes, and the client reads it again. The AI SDK's
+// MCP client can't subscribe, so this uses the MCP SDK client directly.
+async function watchLiveResources(updates = 3) {
+  console.log('\n🎯 Demo 8: Live Updates with Subscriptions');
+  console.log('='.repeat(50));
+
+  const client = new Client({
+    name: 'resources-deep-dive-client',
+    version: '1.0.0',
+  });
+  try {
+    await client.connect(
+      cassetteTransport(
+        'subscriptions',
+        () =>
+          new StreamableHTTPClientTransport(
+            new URL(`http://localhost:${PORT}/mcp`),
+          ),
+      ),
+    );
+
+    let received = 0;
+    let allReceived: () => void = () => {};
+    const done = new Promise<void>((resolve) => {
+      allReceived = resolve;
+    });
+    client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      async ({ params: { uri } }) => {
+        const { contents } = await client.readResource({ uri });
+        const [content] = contents;
+        const text = content && 'text' in content ? content.text : '';
+        if (uri !== RESOURCE_URIS.SYSTEM_STATUS) {
+          console.log(`   🔔 ${uri} updated: ${text.split('\n').at(-1)}`);
+          return;
+        }
+        const status = JSON.parse(text);
+        console.log(
+          `   🔔 ${uri} updated: uptime ${Math.round(status.uptime)}s, heap ${status.memory.used} MB`,
+        );
+        if (++received >= updates) {
+          allReceived();
+        }
+      },
+    );
+
+    for (const uri of [
+      RESOURCE_URIS.SYSTEM_STATUS,
+      RESOURCE_URIS.SAMPLE_METRICS,
+    ]) {
+      await client.subscribeResource({ uri });
+      console.log(`   📬 Subscribed to ${uri}`);
+    }
+    console.log(
+      `   Waiting for ${updates} status updates (the server checks every ${UPDATE_INTERVAL_MS / 1000}s)...`,
+    );
+
+    // Replayed sessions and stopped servers send nothing, so don't wait forever
+    const timeout = new Promise<'timeout'>((resolve) =>
+      setTimeout(
+        resolve,
+        UPDATE_INTERVAL_MS * (updates + 1),
+        'timeout',
+      ).unref(),
+    );
+    if ((await Promise.race([done, timeout])) === 'timeout') {
+      console.log(`   ⏱️  Received ${received} of ${updates} updates`);
+    }
+
+    for (const uri of [
+      RESOURCE_URIS.SYSTEM_STATUS,
+      RESOURCE_URIS.SAMPLE_METRICS,
+    ]) {
+      await client.unsubscribeResource({ uri });
+    }
+    console.log('   📭 Unsubscribed; the server stops checking for changes\n');
+  } catch (error) {
+    console.log(
+      `   ❌ Subscriptions failed: ${error instanceof Error ? error.message : String(error)}\n`,
+    );
+  } finally {
+    await client.close();
   }
 }
 
@@ -306,6 +429,8 @@ function printResourceExercises() {
   console.log('• Load Function: Dynamic content generation logic');
 }
 
-// Run the demo
-await runResourcesDeepDive();
+// Run the demo. With --save-dir, binary resources are also written there.
+const saveDirectory = flagValue(process.argv, '--save-dir', 'downloads');
+await runResourcesDeepDive(saveDirectory && path.resolve(saveDirectory));
+await watchLiveResources();
 printResourceExercises();
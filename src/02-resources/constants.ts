@@ -1,4 +1,54 @@
-export const PORT = 8088;
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { loadConfig, port } from '../shared/config';
+
+// The images, documents and archives that ship with the example
+export const BUNDLED_ASSETS_DIRECTORY = fileURLToPath(
+  new URL('assets', import.meta.url),
+);
+
+export const RESOURCES_CONFIG = loadConfig(
+  'resources',
+  {
+    port: port(8088),
+    // How often subscribers are told that live resources changed
+    updateIntervalMs: z.coerce.number().int().min(100).default(5000),
+    // Directory whose files are served as asset:// resources
+    assetsDirectory: z.string().default(BUNDLED_ASSETS_DIRECTORY),
+    // The server's application log, rotated when it reaches logMaxBytes
+    logFile: z.string().default(path.resolve('logs', 'app.log')),
+    logMaxBytes: z.coerce
+      .number()
+      .int()
+      .min(1024)
+      .default(1024 * 1024),
+    logMaxFiles: z.coerce.number().int().min(1).default(3),
+    // How often the server samples its own metrics, and how many samples it
+    // keeps (an hour's worth by default)
+    metricsIntervalMs: z.coerce.number().int().min(100).default(10_000),
+    metricsCapacity: z.coerce.number().int().min(1).default(360),
+  },
+  {
+    RESOURCES_SERVER_PORT: 'port',
+    RESOURCES_UPDATE_INTERVAL_MS: 'updateIntervalMs',
+    RESOURCES_ASSETS_DIR: 'assetsDirectory',
+    RESOURCES_LOG_FILE: 'logFile',
+    RESOURCES_LOG_MAX_BYTES: 'logMaxBytes',
+    RESOURCES_LOG_MAX_FILES: 'logMaxFiles',
+    RESOURCES_METRICS_INTERVAL_MS: 'metricsIntervalMs',
+    RESOURCES_METRICS_CAPACITY: 'metricsCapacity',
+  },
+);
+
+export const PORT = RESOURCES_CONFIG.port;
+export const UPDATE_INTERVAL_MS = RESOURCES_CONFIG.updateIntervalMs;
+export const ASSETS_DIRECTORY = RESOURCES_CONFIG.assetsDirectory;
+export const LOG_FILE = RESOURCES_CONFIG.logFile;
+export const LOG_MAX_BYTES = RESOURCES_CONFIG.logMaxBytes;
+export const LOG_MAX_FILES = RESOURCES_CONFIG.logMaxFiles;
+export const METRICS_INTERVAL_MS = RESOURCES_CONFIG.metricsIntervalMs;
+export const METRICS_CAPACITY = RESOURCES_CONFIG.metricsCapacity;
 
 // Resource URI Schemes
 export const URI_SCHEMES = {
@@ -10,6 +60,8 @@ export const URI_SCHEMES = {
   DATA: 'data://',
   IMAGE: 'image://',
   VOLATILE: 'volatile://',
+  LOGS: 'logs://',
+  ASSET: 'asset://',
 } as const;
 
 // MIME Types
@@ -19,7 +71,10 @@ export const MIME_TYPES = {
   MARKDOWN: 'text/markdown',
   HTML: 'text/html',
   CSV: 'text/csv',
+  NDJSON: 'application/x-ndjson',
   PNG: 'image/png',
+  PDF: 'application/pdf',
+  GZIP: 'application/gzip',
 } as const;
 
 // Server Configuration
@@ -35,7 +90,9 @@ export const RESOURCE_NAMES = {
   SERVER_CONFIG: 'Server Configuration',
   RESOURCES_GUIDE: 'Resources Guide',
   RESOURCE_DASHBOARD: 'Resource Dashboard',
-  SAMPLE_METRICS: 'Sample Metrics Data',
+  SAMPLE_METRICS: 'Server Metrics (CSV)',
+  METRICS_JSON: 'Server Metrics (JSON)',
+  METRICS_NDJSON: 'Server Metrics (NDJSON)',
   MCP_LOGO: 'MCP Logo',
   VOLATILE_RESOURCE: 'Volatile Resource',
 } as const;
@@ -48,6 +105,35 @@ export const RESOURCE_URIS = {
   RESOURCES_GUIDE: `${URI_SCHEMES.DOCS}resources-guide.md`,
   RESOURCE_DASHBOARD: `${URI_SCHEMES.WEB}dashboard.html`,
   SAMPLE_METRICS: `${URI_SCHEMES.DATA}sample-metrics.csv`,
+  METRICS_JSON: `${URI_SCHEMES.DATA}metrics.json`,
+  METRICS_NDJSON: `${URI_SCHEMES.DATA}metrics.ndjson`,
   MCP_LOGO: `${URI_SCHEMES.IMAGE}mcp-logo.png`,
   VOLATILE_RESOURCE: `${URI_SCHEMES.VOLATILE}might-fail`,
-} as const;
\ No newline at end of file
+} as const;
+
+// Log levels, least severe first
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+// How many log entries file:///logs/app.log shows, and the most a query may
+// ask for
+export const LOG_TAIL_DEFAULT = 100;
+export const LOG_TAIL_MAX = 1000;
+
+// The widest range the metrics template serves, in hours
+export const METRICS_MAX_RANGE_HOURS = 24;
+
+// Resource Template Names
+export const RESOURCE_TEMPLATE_NAMES = {
+  APP_LOGS_BY_LEVEL: 'Application Logs by Level',
+  APP_LOGS_QUERY: 'Application Logs Query',
+  METRICS_RANGE: 'Metrics for a Time Range',
+  PROCESS_INFO: 'Process Information',
+} as const;
+
+// Resource Templates (RFC 6570 URI templates)
+export const RESOURCE_TEMPLATES = {
+  APP_LOGS_BY_LEVEL: `${URI_SCHEMES.LOGS}app/{level}`,
+  APP_LOGS_QUERY: `${URI_SCHEMES.FILE}logs/app.log{?tail,since,level}`,
+  METRICS_RANGE: `${URI_SCHEMES.DATA}metrics/{from}/{to}.csv`,
+  PROCESS_INFO: `${URI_SCHEMES.SYSTEM}process/{pid}`,
+} as const;
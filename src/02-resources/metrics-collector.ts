@@ -0,0 +1,243 @@
+import { monitorEventLoopDelay } from 'perf_hooks';
+import type { FastMCP, FastMCPSessionAuth } from 'fastmcp';
+import {
+  type RequestHandler,
+  wrapRequestHandlers,
+} from '../shared/request-handlers';
+
+/**
+ * Performance metrics of the resources server itself.
+ *
+ * Every MCP request is timed by wrapping the request handlers of each
+ * session's SDK server. Every `intervalMs` the collector takes a sample: the
+ * requests handled since the last one and their latency, event loop lag, CPU
+ * use, memory and connected sessions. The last `capacity` samples are kept in
+ * a ring buffer and can be rendered as CSV, JSON or NDJSON, and as CSV for a
+ * time range.
+ */
+
+export interface MetricsSample {
+  timestamp: string;
+  /** Requests handled since the previous sample */
+  requests: number;
+  /** Of those, requests that failed */
+  errors: number;
+  /** Mean and longest time to handle a request */
+  responseTimeMs: number;
+  maxResponseTimeMs: number;
+  /** Mean delay of the event loop beyond what was scheduled */
+  eventLoopLagMs: number;
+  /** CPU time used as a percentage of one core */
+  cpuPercent: number;
+  heapUsedMb: number;
+  rssMb: number;
+  /** Connected MCP sessions */
+  connections: number;
+}
+
+export interface MetricsTotals {
+  /** Requests handled since the server started, by method */
+  requests: Record<string, number>;
+  errors: number;
+  /** When a resource was last read, if ever */
+  lastResourceRead?: string;
+}
+
+export interface TimeRange {
+  /** Included */
+  from: Date;
+  /** Not included */
+  to: Date;
+}
+
+export interface MetricsCollectorOptions {
+  /** Time between samples */
+  intervalMs: number;
+  /** How many samples to keep */
+  capacity: number;
+}
+
+// CSV columns, in order
+const CSV_COLUMNS: [keyof MetricsSample, string][] = [
+  ['timestamp', 'timestamp'],
+  ['requests', 'requests'],
+  ['errors', 'errors'],
+  ['responseTimeMs', 'response_time_ms'],
+  ['maxResponseTimeMs', 'max_response_time_ms'],
+  ['eventLoopLagMs', 'event_loop_lag_ms'],
+  ['cpuPercent', 'cpu_percent'],
+  ['heapUsedMb', 'heap_used_mb'],
+  ['rssMb', 'rss_mb'],
+  ['connections', 'connections'],
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const toMb = (bytes: number) => round(bytes / 1024 / 1024);
+
+/** A fixed-size buffer that drops the oldest value when full */
+function createRingBuffer<T>(capacity: number) {
+  const values: T[] = [];
+  let start = 0;
+  return {
+    push(value: T) {
+      if (values.length < capacity) {
+        values.push(value);
+      } else {
+        values[start] = value;
+        start = (start + 1) % capacity;
+      }
+    },
+    /** The values, oldest first */
+    values: () => [...values.slice(start), ...values.slice(0, start)],
+  };
+}
+
+/**
+ * Starts collecting metrics for `server`. Create it after anything else that
+ * wraps request handlers when a session connects, such as
+ * `useResourceSubscriptions`, so that its requests are timed once.
+ */
+export function createMetricsCollector<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  { intervalMs, capacity }: MetricsCollectorOptions,
+) {
+  const samples = createRingBuffer<MetricsSample>(capacity);
+  const listeners = new Set<(sample: MetricsSample) => void>();
+  const totals: MetricsTotals = { requests: {}, errors: 0 };
+
+  // Requests since the last sample
+  let requests = 0;
+  let errors = 0;
+  let totalMs = 0;
+  let maxMs = 0;
+
+  const record = (method: string, ms: number, failed: boolean) => {
+    requests++;
+    totalMs += ms;
+    maxMs = Math.max(maxMs, ms);
+    totals.requests[method] = (totals.requests[method] ?? 0) + 1;
+    if (failed) {
+      errors++;
+      totals.errors++;
+    } else if (method === 'resources/read') {
+      totals.lastResourceRead = new Date().toISOString();
+    }
+  };
+
+  // Handlers already timed, so setting one again doesn't time it twice
+  const timedHandlers = new WeakSet<RequestHandler>();
+  const timed = (method: string, handler: RequestHandler): RequestHandler => {
+    if (timedHandlers.has(handler)) {
+      return handler;
+    }
+    const wrapped: RequestHandler = async (request, ...rest) => {
+      const started = performance.now();
+      let failed = true;
+      try {
+        const result = await handler(request, ...rest);
+        failed = false;
+        return result;
+      } finally {
+        record(method, performance.now() - started, failed);
+      }
+    };
+    timedHandlers.add(wrapped);
+    return wrapped;
+  };
+
+  server.on('connect', ({ session }) => {
+    wrapRequestHandlers(session.server, timed);
+  });
+
+  const lag = monitorEventLoopDelay({ resolution: 10 });
+  lag.enable();
+  let cpu = process.cpuUsage();
+  let sampledAt = performance.now();
+
+  function sample() {
+    const now = performance.now();
+    const used = process.cpuUsage(cpu);
+    const memory = process.memoryUsage();
+    const taken: MetricsSample = {
+      timestamp: new Date().toISOString(),
+      requests,
+      errors,
+      responseTimeMs: requests > 0 ? round(totalMs / requests) : 0,
+      maxResponseTimeMs: round(maxMs),
+      eventLoopLagMs: round((lag.mean || 0) / 1_000_000),
+      cpuPercent: round(
+        ((used.user + used.system) / 1000 / (now - sampledAt)) * 100,
+      ),
+      heapUsedMb: toMb(memory.heapUsed),
+      rssMb: toMb(memory.rss),
+      connections: server.sessions.length,
+    };
+    samples.push(taken);
+
+    requests = 0;
+    errors = 0;
+    totalMs = 0;
+    maxMs = 0;
+    lag.reset();
+    cpu = process.cpuUsage();
+    sampledAt = now;
+
+    for (const listener of listeners) {
+      listener(taken);
+    }
+  }
+
+  const timer = setInterval(sample, intervalMs);
+  // Sampling alone doesn't keep the process running
+  timer.unref();
+
+  return {
+    intervalMs,
+    capacity,
+    /** The samples kept, oldest first */
+    samples: () => samples.values(),
+    totals: (): MetricsTotals => ({
+      ...totals,
+      requests: { ...totals.requests },
+    }),
+    /** Calls `listener` with each sample taken. Returns an unsubscribe. */
+    onSample(listener: (sample: MetricsSample) => void) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    /** The samples as CSV, only those taken in `range` if given */
+    csv(range?: TimeRange) {
+      const rows = samples
+        .values()
+        .filter(
+          ({ timestamp }) =>
+            !range ||
+            (new Date(timestamp) >= range.from &&
+              new Date(timestamp) < range.to),
+        )
+        .map((row) => CSV_COLUMNS.map(([key]) => row[key]).join(','));
+      return [CSV_COLUMNS.map(([, column]) => column).join(','), ...rows].join(
+        '\n',
+      );
+    },
+    json() {
+      return JSON.stringify(
+        { intervalMs, capacity, samples: samples.values() },
+        null,
+        2,
+      );
+    },
+    ndjson() {
+      return samples
+        .values()
+        .map((row) => JSON.stringify(row))
+        .join('\n');
+    },
+    stop() {
+      clearInterval(timer);
+      lag.disable();
+    },
+  };
+}
+
+export type MetricsCollector = ReturnType<typeof createMetricsCollector>;
@@ -0,0 +1,52 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types';
+import { z } from 'zod';
+
+/**
+ * Helpers for resource templates: URIs with parameters, such as
+ * `logs://app/{level}`, that clients fill in to read a slice of the data.
+ *
+ * FastMCP hands a template's `load` the parameters as strings matched from
+ * the URI. `parseTemplateArguments` turns them into typed values with a zod
+ * schema, and `completeFrom` answers `completion/complete` requests for them.
+ */
+
+/** The MCP error code for a resource that doesn't exist */
+export const RESOURCE_NOT_FOUND = -32_002;
+
+/**
+ * Parses the parameters matched from `uri` with `schema`.
+ *
+ * @throws {McpError} `InvalidParams`, naming the parameter that's wrong
+ */
+export function parseTemplateArguments<Schema extends z.ZodTypeAny>(
+  schema: Schema,
+  args: Record<string, string>,
+  uri: string,
+): z.infer<Schema> {
+  const result = schema.safeParse(args);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `${issue.path.join('.') || 'uri'}: ${issue.message}`,
+    );
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${uri}: ${problems.join('; ')}`,
+      { uri, problems },
+    );
+  }
+  return result.data;
+}
+
+/**
+ * A completer offering the `values` that start with what has been typed so
+ * far. `values` is called on every request, so suggestions such as "an hour
+ * ago" stay current.
+ */
+export const completeFrom =
+  (values: () => string[]) =>
+  async (value: string): Promise<{ values: string[]; total: number }> => {
+    const matches = values().filter((candidate) =>
+      candidate.toLowerCase().startsWith(value.toLowerCase()),
+    );
+    return { values: matches, total: matches.length };
+  };
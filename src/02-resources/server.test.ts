@@ -0,0 +1,603 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import {
+  ErrorCode,
+  ResourceUpdatedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { describeBinary } from '../shared/binary-content';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import {
+  MIME_TYPES,
+  RESOURCE_TEMPLATES,
+  RESOURCE_URIS,
+  UPDATE_INTERVAL_MS,
+} from './constants';
+import { RESOURCE_NOT_FOUND } from './resource-templates';
+import { startServer } from './server';
+
+// Sample often, so that tests don't wait long for metrics
+const METRICS_INTERVAL_MS = 200;
+
+describe('resources server', () => {
+  let server: TestServer;
+  let client: TestClient;
+  let logDirectory: string;
+
+  beforeAll(async () => {
+    logDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'resources-logs-'));
+    server = await startTestServer((port) =>
+      startServer(port, {
+        logFile: path.join(logDirectory, 'app.log'),
+        metricsIntervalMs: METRICS_INTERVAL_MS,
+      }),
+    );
+    client = await connectHttp(server.url);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+    fs.rmSync(logDirectory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /** Reads a resource that has a single text content */
+  const readText = async (uri: string) => {
+    const [content, ...rest] = await client.readResource(uri);
+    expect(rest).toHaveLength(0);
+    expect(content).toHaveProperty('text');
+    return content as { uri: string; mimeType?: string; text: string };
+  };
+
+  it('lists every resource with its MIME type', async () => {
+    const resources = await client.listResources();
+    expect(resources.map(({ uri, mimeType }) => ({ uri, mimeType }))).toEqual([
+      { uri: RESOURCE_URIS.APP_LOGS, mimeType: MIME_TYPES.PLAIN_TEXT },
+      { uri: RESOURCE_URIS.SYSTEM_STATUS, mimeType: MIME_TYPES.JSON },
+      { uri: RESOURCE_URIS.SERVER_CONFIG, mimeType: MIME_TYPES.JSON },
+      { uri: RESOURCE_URIS.RESOURCES_GUIDE, mimeType: MIME_TYPES.MARKDOWN },
+      { uri: RESOURCE_URIS.RESOURCE_DASHBOARD, mimeType: MIME_TYPES.HTML },
+      { uri: RESOURCE_URIS.SAMPLE_METRICS, mimeType: MIME_TYPES.CSV },
+      { uri: RESOURCE_URIS.METRICS_JSON, mimeType: MIME_TYPES.JSON },
+      { uri: RESOURCE_URIS.METRICS_NDJSON, mimeType: MIME_TYPES.NDJSON },
+      { uri: RESOURCE_URIS.MCP_LOGO, mimeType: MIME_TYPES.PNG },
+      { uri: RESOURCE_URIS.VOLATILE_RESOURCE, mimeType: MIME_TYPES.PLAIN_TEXT },
+      { uri: 'asset://mcp-logo.png', mimeType: MIME_TYPES.PNG },
+      { uri: 'asset://metrics-2025-01-31.csv.gz', mimeType: MIME_TYPES.GZIP },
+      { uri: 'asset://resources-cheatsheet.pdf', mimeType: MIME_TYPES.PDF },
+    ]);
+  });
+
+  it("serves the server's own log", async () => {
+    const { text, mimeType } = await readText(RESOURCE_URIS.APP_LOGS);
+    expect(mimeType).toBe(MIME_TYPES.PLAIN_TEXT);
+    expect(text).toContain(`[INFO] Server started on port ${server.port}`);
+    expect(text).toMatch(/\[INFO] Client connected \(session [\w-]+\)/);
+    for (const line of text.split('\n')) {
+      expect(line).toMatch(
+        /^\d{4}-\d{2}-\d{2}T[\d:.]+Z \[(DEBUG|INFO|WARN|ERROR)] /,
+      );
+    }
+  });
+
+  it('serves the system status as JSON', async () => {
+    const { text } = await readText(RESOURCE_URIS.SYSTEM_STATUS);
+    const status = JSON.parse(text);
+    expect(status.server).toMatchObject({
+      name: 'resources-deep-dive-server',
+      port: server.port,
+    });
+    expect(status.cpu.nodeVersion).toBe(process.version);
+  });
+
+  it('counts the connections, resources and requests in the status', async () => {
+    const other = await connectHttp(server.url);
+    try {
+      const resources = await client.listResources();
+      const { resourceTemplates } = await client.sdk.listResourceTemplates();
+      const status = await readText(RESOURCE_URIS.SYSTEM_STATUS);
+      const before = JSON.parse(status.text);
+      expect(before.server.activeConnections).toBeGreaterThanOrEqual(2);
+      expect(before.resourceMetrics).toMatchObject({
+        totalResources: resources.length,
+        totalResourceTemplates: resourceTemplates.length,
+        lastAccessed: expect.stringMatching(/Z$/),
+      });
+
+      const { text } = await readText(RESOURCE_URIS.SYSTEM_STATUS);
+      const after = JSON.parse(text);
+      expect(after.resourceMetrics.reads).toBe(
+        before.resourceMetrics.reads + 1,
+      );
+      expect(after.requests.byMethod['resources/list']).toBeGreaterThanOrEqual(
+        1,
+      );
+    } finally {
+      await other.close();
+    }
+  });
+
+  it('serves the resolved configuration', async () => {
+    const { text } = await readText(RESOURCE_URIS.SERVER_CONFIG);
+    const config = JSON.parse(text);
+    expect(config.server).toEqual({
+      name: 'resources-deep-dive-server',
+      version: '1.0.0',
+      transport: 'httpStream',
+    });
+    expect(config.http.host).toBe('localhost');
+  });
+
+  it('serves the guide as Markdown', async () => {
+    const { text, mimeType } = await readText(RESOURCE_URIS.RESOURCES_GUIDE);
+    expect(mimeType).toBe(MIME_TYPES.MARKDOWN);
+    expect(text).toMatch(/^# MCP Resources Deep-Dive Guide/);
+  });
+
+  it('serves the dashboard as HTML', async () => {
+    const { text } = await readText(RESOURCE_URIS.RESOURCE_DASHBOARD);
+    expect(text).toMatch(/^<!DOCTYPE html>/);
+    expect(text).toContain('MCP Resources Deep-Dive Dashboard');
+    const resources = await client.listResources();
+    expect(text).toContain(
+      `<div class="stat-number">${resources.length}</div>\n                <div>Resources</div>`,
+    );
+  });
+
+  describe('metrics', () => {
+    /** Waits for the collector to have taken at least one sample */
+    const readSamples = async () =>
+      vi.waitFor(
+        async () => {
+          const { text } = await readText(RESOURCE_URIS.METRICS_JSON);
+          const metrics = JSON.parse(text);
+          expect(metrics.samples.length).toBeGreaterThan(0);
+          return metrics;
+        },
+        { timeout: METRICS_INTERVAL_MS * 20, interval: METRICS_INTERVAL_MS },
+      );
+
+    it('samples the server as JSON', async () => {
+      const metrics = await readSamples();
+      expect(metrics).toMatchObject({
+        intervalMs: METRICS_INTERVAL_MS,
+        capacity: expect.any(Number),
+      });
+      const sample = metrics.samples.at(-1);
+      expect(sample).toEqual({
+        timestamp: expect.stringMatching(/Z$/),
+        requests: expect.any(Number),
+        errors: expect.any(Number),
+        responseTimeMs: expect.any(Number),
+        maxResponseTimeMs: expect.any(Number),
+        eventLoopLagMs: expect.any(Number),
+        cpuPercent: expect.any(Number),
+        heapUsedMb: expect.any(Number),
+        rssMb: expect.any(Number),
+        connections: expect.any(Number),
+      });
+      expect(sample.heapUsedMb).toBeGreaterThan(0);
+      expect(sample.connections).toBeGreaterThanOrEqual(1);
+      // The reads made while waiting for the sample were counted
+      const requests = metrics.samples.reduce(
+        (sum: number, { requests }: { requests: number }) => sum + requests,
+        0,
+      );
+      expect(requests).toBeGreaterThan(0);
+    });
+
+    it('serves the same samples as CSV and NDJSON', async () => {
+      const {
+        samples: [first],
+      } = await readSamples();
+
+      const { text: csv, mimeType } = await readText(
+        RESOURCE_URIS.SAMPLE_METRICS,
+      );
+      expect(mimeType).toBe(MIME_TYPES.CSV);
+      const [header, row] = csv.split('\n');
+      expect(header).toBe(
+        'timestamp,requests,errors,response_time_ms,max_response_time_ms,event_loop_lag_ms,cpu_percent,heap_used_mb,rss_mb,connections',
+      );
+      expect(row).toBe(
+        [
+          first.timestamp,
+          first.requests,
+          first.errors,
+          first.responseTimeMs,
+          first.maxResponseTimeMs,
+          first.eventLoopLagMs,
+          first.cpuPercent,
+          first.heapUsedMb,
+          first.rssMb,
+          first.connections,
+        ].join(','),
+      );
+
+      const ndjson = await readText(RESOURCE_URIS.METRICS_NDJSON);
+      expect(ndjson.mimeType).toBe(MIME_TYPES.NDJSON);
+      expect(JSON.parse(ndjson.text.split('\n')[0]!)).toEqual(first);
+    });
+  });
+
+  /** Reads a resource that has a single blob content, decoded */
+  const readBlob = async (uri: string) => {
+    const [content, ...rest] = await client.readResource(uri);
+    expect(rest).toHaveLength(0);
+    expect(content).not.toHaveProperty('text');
+    const { mimeType, blob } = content as { mimeType?: string; blob: string };
+    return { mimeType, bytes: Buffer.from(blob, 'base64') };
+  };
+
+  it('serves the logo as a PNG blob', async () => {
+    const { mimeType, bytes } = await readBlob(RESOURCE_URIS.MCP_LOGO);
+    expect(mimeType).toBe(MIME_TYPES.PNG);
+    expect(describeBinary(mimeType, bytes)).toBe(
+      `[image/png, ${bytes.length} bytes, 32×32]`,
+    );
+  });
+
+  describe('assets', () => {
+    it('serves PDF documents', async () => {
+      const { mimeType, bytes } = await readBlob(
+        'asset://resources-cheatsheet.pdf',
+      );
+      expect(mimeType).toBe(MIME_TYPES.PDF);
+      expect(describeBinary(mimeType, bytes)).toMatch(
+        /^\[application\/pdf, \d+ bytes, PDF 1\.4, 1 page\(s\)\]$/,
+      );
+    });
+
+    it('serves gzip archives unchanged', async () => {
+      const { mimeType, bytes } = await readBlob(
+        'asset://metrics-2025-01-31.csv.gz',
+      );
+      expect(mimeType).toBe(MIME_TYPES.GZIP);
+      const csv = gunzipSync(bytes).toString().trim().split('\n');
+      expect(csv[0]).toBe(
+        'timestamp,requests,response_time_ms,error_rate,cpu_usage,memory_mb',
+      );
+      expect(csv).toHaveLength(25);
+    });
+  });
+
+  describe('volatile resource', () => {
+    it('loads when the simulated failure does not happen', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      const { text } = await readText(RESOURCE_URIS.VOLATILE_RESOURCE);
+      expect(text).toMatch(/^Success! Resource loaded at/);
+    });
+
+    it('reports the simulated failure as an error', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      await expect(
+        client.readResource(RESOURCE_URIS.VOLATILE_RESOURCE),
+      ).rejects.toThrow(/resource temporarily unavailable/);
+    });
+  });
+
+  describe('resource templates', () => {
+    const complete = async (
+      uriTemplate: string,
+      name: string,
+      value: string,
+    ) => {
+      const { completion } = await client.sdk.complete({
+        ref: { type: 'ref/resource', uri: uriTemplate },
+        argument: { name, value },
+      });
+      return completion.values;
+    };
+
+    it('lists the templates', async () => {
+      const { resourceTemplates } = await client.sdk.listResourceTemplates();
+      expect(
+        resourceTemplates.map(({ uriTemplate, mimeType }) => ({
+          uriTemplate,
+          mimeType,
+        })),
+      ).toEqual([
+        {
+          uriTemplate: RESOURCE_TEMPLATES.APP_LOGS_BY_LEVEL,
+          mimeType: MIME_TYPES.PLAIN_TEXT,
+        },
+        {
+          uriTemplate: RESOURCE_TEMPLATES.METRICS_RANGE,
+          mimeType: MIME_TYPES.CSV,
+        },
+        {
+          uriTemplate: RESOURCE_TEMPLATES.PROCESS_INFO,
+          mimeType: MIME_TYPES.JSON,
+        },
+        {
+          uriTemplate: RESOURCE_TEMPLATES.APP_LOGS_QUERY,
+          mimeType: MIME_TYPES.PLAIN_TEXT,
+        },
+      ]);
+    });
+
+    it('serves log entries at a level or more severe', async () => {
+      // A failed load of the volatile resource is logged as a warning
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      await expect(
+        client.readResource(RESOURCE_URIS.VOLATILE_RESOURCE),
+      ).rejects.toThrow();
+
+      const warn = await readText('logs://app/warn');
+      expect(warn.uri).toBe('logs://app/warn');
+      expect(warn.text).toContain(
+        `[WARN] ${RESOURCE_URIS.VOLATILE_RESOURCE} failed to load`,
+      );
+      expect(warn.text).not.toContain('[INFO]');
+
+      const info = await readText('logs://app/info');
+      expect(info.text).toContain('[INFO]');
+      expect(info.text).toContain('[WARN]');
+    });
+
+    it('serves the last log entries since a time, with query parameters', async () => {
+      const { text } = await readText(RESOURCE_URIS.APP_LOGS);
+      const all = text.split('\n');
+
+      const tail = await readText(`${RESOURCE_URIS.APP_LOGS}?tail=2`);
+      expect(tail.uri).toBe(`${RESOURCE_URIS.APP_LOGS}?tail=2`);
+      expect(tail.text.split('\n')).toEqual(all.slice(-2));
+
+      const since = all.at(-1)!.split(' ')[0]!;
+      const recent = await readText(
+        `${RESOURCE_URIS.APP_LOGS}?since=${encodeURIComponent(since)}&level=debug`,
+      );
+      expect(recent.text.split('\n')).toContain(all.at(-1));
+      expect(recent.text.split('\n').length).toBeLessThan(all.length);
+
+      const future = await readText(
+        `${RESOURCE_URIS.APP_LOGS}?since=2999-01-01`,
+      );
+      expect(future.text).toBe('');
+
+      await expect(
+        client.readResource(`${RESOURCE_URIS.APP_LOGS}?tail=0`),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('tail: Expected 1 to 1000 entries'),
+      });
+    });
+
+    it('serves the metrics sampled in a time range', async () => {
+      const {
+        samples: [first, second],
+      } = await vi.waitFor(
+        async () => {
+          const { text } = await readText(RESOURCE_URIS.METRICS_JSON);
+          const metrics = JSON.parse(text);
+          expect(metrics.samples.length).toBeGreaterThan(1);
+          return metrics;
+        },
+        { timeout: METRICS_INTERVAL_MS * 20, interval: METRICS_INTERVAL_MS },
+      );
+      // Only the first sample was taken from its time up to the second's
+      const { text, mimeType } = await readText(
+        `data://metrics/${first.timestamp}/${second.timestamp}.csv`,
+      );
+      expect(mimeType).toBe(MIME_TYPES.CSV);
+      const [header, ...rows] = text.split('\n');
+      expect(rows).toEqual([
+        expect.stringMatching(new RegExp(`^${first.timestamp},`)),
+      ]);
+
+      // Nothing was sampled before the server started
+      const { text: before } = await readText(
+        'data://metrics/2025-01-31T09:00Z/2025-01-31T09:30Z.csv',
+      );
+      expect(before).toBe(header);
+    });
+
+    it('rejects parameters that do not parse', async () => {
+      await expect(
+        client.readResource('logs://app/loud'),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringMatching(/level:/),
+      });
+      await expect(
+        client.readResource('data://metrics/yesterday/2025-01-31.csv'),
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.stringContaining('from: Expected an ISO 8601 date'),
+      });
+      await expect(
+        client.readResource('data://metrics/2025-01-31/2025-01-30.csv'),
+      ).rejects.toThrow(/to: Must be after "from"/);
+      await expect(
+        client.readResource('data://metrics/2025-01-01/2025-01-31.csv'),
+      ).rejects.toThrow(/at most 24 hours/);
+    });
+
+    it("describes the server's own process only", async () => {
+      const { text } = await readText(`system://process/${process.pid}`);
+      expect(JSON.parse(text)).toMatchObject({
+        pid: process.pid,
+        nodeVersion: process.version,
+      });
+
+      await expect(
+        client.readResource('system://process/1'),
+      ).rejects.toMatchObject({ code: RESOURCE_NOT_FOUND });
+      await expect(
+        client.readResource('system://process/self'),
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+
+    it('completes template parameters', async () => {
+      expect(
+        await complete(RESOURCE_TEMPLATES.APP_LOGS_BY_LEVEL, 'level', 'w'),
+      ).toEqual(['warn']);
+      expect(
+        await complete(RESOURCE_TEMPLATES.APP_LOGS_BY_LEVEL, 'level', ''),
+      ).toEqual(['debug', 'info', 'warn', 'error']);
+      expect(
+        await complete(RESOURCE_TEMPLATES.PROCESS_INFO, 'pid', ''),
+      ).toEqual([String(process.pid)]);
+
+      // Times are offered to the minute, as the template accepts them
+      const [from = ''] = await complete(
+        RESOURCE_TEMPLATES.METRICS_RANGE,
+        'from',
+        '',
+      );
+      const [to = ''] = await complete(
+        RESOURCE_TEMPLATES.METRICS_RANGE,
+        'to',
+        '',
+      );
+      expect(from).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}Z$/);
+      const { text } = await readText(`data://metrics/${from}/${to}.csv`);
+      expect(text).toMatch(/^timestamp,requests,/);
+    });
+  });
+
+  describe('subscriptions', () => {
+    /** Connects a client that records the URIs it's told were updated */
+    const connectWatcher = async () => {
+      const watcher = await connectHttp(server.url);
+      const updated: string[] = [];
+      watcher.sdk.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        async ({ params }) => {
+          updated.push(params.uri);
+        },
+      );
+      return { watcher, updated };
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('advertises subscriptions', () => {
+      expect(client.sdk.getServerCapabilities()?.resources).toMatchObject({
+        subscribe: true,
+      });
+    });
+
+    it('tells subscribers when the status changes, until they unsubscribe', async () => {
+      // The ticker starts on the first subscription, so it uses the fake timers
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      const { watcher, updated } = await connectWatcher();
+      const bystander = await connectWatcher();
+      try {
+        await watcher.sdk.subscribeResource({
+          uri: RESOURCE_URIS.SYSTEM_STATUS,
+        });
+        vi.advanceTimersByTime(UPDATE_INTERVAL_MS * 2);
+        await vi.waitFor(() =>
+          expect(updated).toEqual([
+            RESOURCE_URIS.SYSTEM_STATUS,
+            RESOURCE_URIS.SYSTEM_STATUS,
+          ]),
+        );
+
+        // Only subscribers are told
+        expect(bystander.updated).toEqual([]);
+
+        await watcher.sdk.unsubscribeResource({
+          uri: RESOURCE_URIS.SYSTEM_STATUS,
+        });
+        await bystander.watcher.sdk.subscribeResource({
+          uri: RESOURCE_URIS.SYSTEM_STATUS,
+        });
+        vi.advanceTimersByTime(UPDATE_INTERVAL_MS);
+        await vi.waitFor(() =>
+          expect(bystander.updated).toEqual([RESOURCE_URIS.SYSTEM_STATUS]),
+        );
+        expect(updated).toHaveLength(2);
+
+        // Closing doesn't end the session at once, so leave nothing running
+        await bystander.watcher.sdk.unsubscribeResource({
+          uri: RESOURCE_URIS.SYSTEM_STATUS,
+        });
+      } finally {
+        await watcher.close();
+        await bystander.watcher.close();
+      }
+    });
+
+    it('tells subscribers when a metrics sample is taken', async () => {
+      const { watcher, updated } = await connectWatcher();
+      try {
+        await watcher.sdk.subscribeResource({
+          uri: RESOURCE_URIS.METRICS_NDJSON,
+        });
+        await vi.waitFor(
+          () => expect(updated).toContain(RESOURCE_URIS.METRICS_NDJSON),
+          { timeout: METRICS_INTERVAL_MS * 20 },
+        );
+        // Not the other formats, which it didn't subscribe to
+        expect(new Set(updated)).toEqual(
+          new Set([RESOURCE_URIS.METRICS_NDJSON]),
+        );
+        await watcher.sdk.unsubscribeResource({
+          uri: RESOURCE_URIS.METRICS_NDJSON,
+        });
+      } finally {
+        await watcher.close();
+      }
+    });
+
+    it('tells subscribers when log entries are written', async () => {
+      const { watcher, updated } = await connectWatcher();
+      try {
+        await watcher.sdk.subscribeResource({ uri: RESOURCE_URIS.APP_LOGS });
+        // Subscribing is logged too
+        await vi.waitFor(() =>
+          expect(updated).toContain(RESOURCE_URIS.APP_LOGS),
+        );
+        updated.length = 0;
+
+        vi.spyOn(Math, 'random').mockReturnValue(0.1);
+        await expect(
+          client.readResource(RESOURCE_URIS.VOLATILE_RESOURCE),
+        ).rejects.toThrow();
+        await vi.waitFor(() =>
+          expect(updated).toContain(RESOURCE_URIS.APP_LOGS),
+        );
+        expect(new Set(updated)).toEqual(new Set([RESOURCE_URIS.APP_LOGS]));
+
+        await watcher.sdk.unsubscribeResource({ uri: RESOURCE_URIS.APP_LOGS });
+      } finally {
+        await watcher.close();
+      }
+    });
+
+    it('rejects subscriptions to resources that never change', async () => {
+      await expect(
+        client.sdk.subscribeResource({ uri: RESOURCE_URIS.RESOURCES_GUIDE }),
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+
+  it('rejects an unknown resource', async () => {
+    await expect(client.readResource('file:///missing.txt')).rejects.toThrow(
+      /Resource not found/i,
+    );
+  });
+});
@@ -1,12 +1,51 @@
 #!/usr/bin/env node
 
+import fs from 'fs';
+import path from 'path';
 import { FastMCP } from 'fastmcp';
+import { McpError } from '@modelcontextprotocol/sdk/types';
+import { z } from 'zod';
 import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { mimeTypeOf } from '../shared/binary-content';
+import { isMainModule, type RunningServer } from '../shared/main-module';
+import { useResourceSubscriptions } from '../shared/resource-subscriptions';
+import {
+  ASSETS_DIRECTORY,
+  BUNDLED_ASSETS_DIRECTORY,
+  LOG_FILE,
+  LOG_MAX_BYTES,
+  LOG_MAX_FILES,
+  LOG_TAIL_DEFAULT,
+  LOG_TAIL_MAX,
+  METRICS_CAPACITY,
+  METRICS_INTERVAL_MS,
+  PORT,
+  RESOURCES_CONFIG,
   SERVER_CONFIG,
   MIME_TYPES,
   RESOURCE_NAMES,
   RESOURCE_URIS,
+  LOG_LEVELS,
+  METRICS_MAX_RANGE_HOURS,
+  RESOURCE_TEMPLATE_NAMES,
+  RESOURCE_TEMPLATES,
+  UPDATE_INTERVAL_MS,
+  URI_SCHEMES,
 } from './constants';
+import { createAppLog, type LogEntry } from './app-log';
+import {
+  createMetricsCollector,
+  type MetricsTotals,
+} from './metrics-collector';
+import {
+  completeFrom,
+  parseTemplateArguments,
+  RESOURCE_NOT_FOUND,
+} from './resource-templates';
 
 /**
  * Resources Deep-Dive Example Server
@@ -20,10 +59,94 @@ import {
  * - Real-time data resources
  */
 
-const server = new FastMCP({
-  name: SERVER_CONFIG.NAME,
-  version: SERVER_CONFIG.VERSION,
-  instructions: `
+const MINUTE_MS = 60_000;
+
+// Template parameters. Times are ISO 8601 dates or UTC date-times, e.g.
+// 2025-01-31 or 2025-01-31T09:30Z.
+const isoTime = z
+  .string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?Z)?$/,
+    'Expected an ISO 8601 date or UTC time, e.g. 2025-01-31 or 2025-01-31T09:30Z',
+  )
+  .transform((value) => new Date(value))
+  .refine((date) => !Number.isNaN(date.getTime()), 'Not a valid date');
+
+const logsArguments = z.object({ level: z.enum(LOG_LEVELS) });
+
+const logQueryArguments = z.object({
+  tail: z
+    .string()
+    .regex(/^\d+$/, 'Expected a number of entries, e.g. 20')
+    .transform(Number)
+    .refine(
+      (tail) => tail >= 1 && tail <= LOG_TAIL_MAX,
+      `Expected 1 to ${LOG_TAIL_MAX} entries`,
+    )
+    .optional(),
+  since: isoTime.optional(),
+  level: z.enum(LOG_LEVELS).optional(),
+});
+
+const logText = (entries: LogEntry[]) =>
+  entries.map(({ line }) => line).join('\n');
+
+const metricsArguments = z
+  .object({ from: isoTime, to: isoTime })
+  .refine(({ from, to }) => from < to, {
+    message: 'Must be after "from"',
+    path: ['to'],
+  })
+  .refine(
+    ({ from, to }) =>
+      to.getTime() - from.getTime() <= METRICS_MAX_RANGE_HOURS * 60 * MINUTE_MS,
+    {
+      message: `The range can be at most ${METRICS_MAX_RANGE_HOURS} hours`,
+      path: ['to'],
+    },
+  );
+
+const processArguments = z.object({
+  pid: z
+    .string()
+    .regex(/^\d+$/, 'Expected a process ID, e.g. 1234')
+    .transform(Number),
+});
+
+// Suggested times for the metrics template, to the minute
+const minuteIso = (time: number) =>
+  new Date(Math.floor(time / MINUTE_MS) * MINUTE_MS)
+    .toISOString()
+    .replace(':00.000Z', 'Z');
+const dateIso = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const requestCount = (totals: MetricsTotals) =>
+  Object.values(totals.requests).reduce((sum, count) => sum + count, 0);
+
+/** The files in the assets directory, by name */
+function assetFiles() {
+  if (!fs.existsSync(ASSETS_DIRECTORY)) {
+    console.warn(`⚠️  No assets directory at ${ASSETS_DIRECTORY}`);
+    return [];
+  }
+  return fs
+    .readdirSync(ASSETS_DIRECTORY, { withFileTypes: true })
+    .filter((entry) => entry.isFile() && !entry.name.startsWith('.'))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+export async function startServer(
+  port = PORT,
+  {
+    logFile = LOG_FILE,
+    metricsIntervalMs = METRICS_INTERVAL_MS,
+  }: { logFile?: string; metricsIntervalMs?: number } = {},
+): Promise<RunningServer> {
+  const server = new FastMCP({
+    name: SERVER_CONFIG.NAME,
+    version: SERVER_CONFIG.VERSION,
+    instructions: `
 This server focuses exclusively on MCP resource patterns.
 
 Learn fundamental resource concepts:
@@ -36,138 +159,184 @@ Learn fundamental resource concepts:
 
 Master resource management before moving to tools and prompts.
   `.trim(),
-});
-
-// Example 1: Simple static text resource
-server.addResource({
-  uri: RESOURCE_URIS.APP_LOGS,
-  name: RESOURCE_NAMES.APP_LOGS,
-  mimeType: MIME_TYPES.PLAIN_TEXT,
-  description: 'Current application log entries',
-  load: async () => {
-    // Simulate log content generation
-    const timestamp = new Date().toISOString();
-    const logEntries = [
-      `${timestamp} [INFO] Application started successfully`,
-      `${timestamp} [INFO] MCP Resources Deep-Dive server initialized`,
-      `${timestamp} [INFO] Resource patterns demonstration active`,
-      `${timestamp} [DEBUG] Static resource access: app.log`,
-      `${timestamp} [INFO] Ready to serve resource requests`,
-    ];
-
-    return {
-      text: logEntries.join('\n'),
-    };
-  },
-});
-
-// Example 2: Dynamic JSON resource with current data
-server.addResource({
-  uri: RESOURCE_URIS.SYSTEM_STATUS,
-  name: RESOURCE_NAMES.SYSTEM_STATUS,
-  mimeType: MIME_TYPES.JSON,
-  description: 'Current system status and metrics',
-  load: async () => {
-    const status = {
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      memory: {
-        used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
-        total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
-        external: Math.round(process.memoryUsage().external / 1024 / 1024),
-      },
-      cpu: {
-        platform: process.platform,
-        arch: process.arch,
-        nodeVersion: process.version,
-      },
-      server: {
-        name: 'resources-deep-dive-server',
-        version: '1.0.0',
-        port: 8088,
-        activeConnections: 1, // Simplified for demo
-      },
-      resourceMetrics: {
-        totalResources: 8, // Will match actual count
-        resourceTypes: [
-          'logs',
-          'status',
-          'config',
-          'documentation',
-          'images',
-          'data',
-        ],
-        lastAccessed: new Date().toISOString(),
-      },
-    };
-
-    return {
-      text: JSON.stringify(status, null, 2),
-    };
-  },
-});
-
-// Example 3: Configuration resource with structured data
-server.addResource({
-  uri: RESOURCE_URIS.SERVER_CONFIG,
-  name: RESOURCE_NAMES.SERVER_CONFIG,
-  mimeType: MIME_TYPES.JSON,
-  description: 'Current server configuration settings',
-  load: async () => {
-    const config = {
-      server: {
-        name: 'resources-deep-dive-server',
-        version: '1.0.0',
-        transport: 'httpStream',
-        port: 8088,
-        cors: {
-          enabled: true,
-          origins: ['*'],
+    authenticate: guardRequests(),
+  });
+
+  guardRoutes(server);
+
+  // Resources are added through here so the status resource can count them
+  let resourceCount = 0;
+  let resourceTemplateCount = 0;
+  const addResource: typeof server.addResource = (resource) => {
+    resourceCount++;
+    server.addResource(resource);
+  };
+  const addResourceTemplate: typeof server.addResourceTemplate = (template) => {
+    resourceTemplateCount++;
+    server.addResourceTemplate(template);
+  };
+
+  // The server writes what happens to it to a real, rotating log file, which
+  // file:///logs/app.log serves
+  const appLog = createAppLog({
+    file: logFile,
+    maxBytes: LOG_MAX_BYTES,
+    maxFiles: LOG_MAX_FILES,
+  });
+
+  // Live resources: subscribers are told when they change. The status
+  // changes all the time, so it is pushed on every tick, which only runs while
+  // someone is subscribed to it. The log tells its subscribers about each
+  // entry as it is written, and the metrics about each sample.
+  let ticker: NodeJS.Timeout | undefined;
+  const stopUpdates = () => {
+    clearInterval(ticker);
+    ticker = undefined;
+  };
+  const startUpdates = () => {
+    ticker ??= setInterval(
+      () => subscriptions.notify(RESOURCE_URIS.SYSTEM_STATUS),
+      UPDATE_INTERVAL_MS,
+    );
+  };
+  const metricsUris = [
+    RESOURCE_URIS.SAMPLE_METRICS,
+    RESOURCE_URIS.METRICS_JSON,
+    RESOURCE_URIS.METRICS_NDJSON,
+  ];
+  const subscriptions = useResourceSubscriptions(server, {
+    subscribable: [
+      RESOURCE_URIS.APP_LOGS,
+      RESOURCE_URIS.SYSTEM_STATUS,
+      ...metricsUris,
+    ],
+    onChange: (subscribed) => {
+      appLog.write(
+        'info',
+        subscribed.size > 0
+          ? `Resources with subscribers: ${[...subscribed].join(', ')}`
+          : 'No resources have subscribers',
+      );
+      if (subscribed.has(RESOURCE_URIS.SYSTEM_STATUS)) {
+        startUpdates();
+      } else {
+        stopUpdates();
+      }
+    },
+  });
+  const stopLogUpdates = appLog.onAppend(() =>
+    subscriptions.notify(RESOURCE_URIS.APP_LOGS),
+  );
+
+  // The server's own request counts and latency, event loop lag, CPU and
+  // memory, sampled into a ring buffer. Created after the subscriptions so
+  // that their requests are timed too.
+  const metrics = createMetricsCollector(server, {
+    intervalMs: metricsIntervalMs,
+    capacity: METRICS_CAPACITY,
+  });
+  const stopMetricsUpdates = metrics.onSample(() => {
+    for (const uri of metricsUris) {
+      subscriptions.notify(uri);
+    }
+  });
+
+  // Example 1: Text resource backed by a file
+  addResource({
+    uri: RESOURCE_URIS.APP_LOGS,
+    name: RESOURCE_NAMES.APP_LOGS,
+    mimeType: MIME_TYPES.PLAIN_TEXT,
+    description: `The last ${LOG_TAIL_DEFAULT} entries of the server's log. Subscribe to be told when entries are written.`,
+    load: async () => ({
+      text: logText(await appLog.read({ tail: LOG_TAIL_DEFAULT })),
+    }),
+  });
+
+  // Example 2: Dynamic JSON resource with current data
+  addResource({
+    uri: RESOURCE_URIS.SYSTEM_STATUS,
+    name: RESOURCE_NAMES.SYSTEM_STATUS,
+    mimeType: MIME_TYPES.JSON,
+    description:
+      'Current system status and metrics. Subscribe to be told when it changes.',
+    load: async () => {
+      const totals = metrics.totals();
+      const [latest] = metrics.samples().slice(-1);
+      const status = {
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        memory: {
+          used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
+          total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
+          external: Math.round(process.memoryUsage().external / 1024 / 1024),
         },
-      },
-      resources: {
-        caching: {
-          enabled: false, // Resources are dynamically generated
-          ttl: 300, // 5 minutes if enabled
+        cpu: {
+          platform: process.platform,
+          arch: process.arch,
+          nodeVersion: process.version,
+          // From the latest metrics sample, once one has been taken
+          percent: latest?.cpuPercent ?? null,
         },
-        maxSize: '10MB',
-        allowedTypes: [
-          'text/plain',
-          'text/markdown',
-          'application/json',
-          'text/html',
-          'image/png',
-          'text/csv',
-        ],
-      },
-      logging: {
-        level: 'info',
-        format: 'json',
-        destination: 'console',
-      },
-      features: {
-        staticFiles: true,
-        dynamicGeneration: true,
-        realTimeData: true,
-        errorHandling: true,
-        mimeTypeDetection: true,
-      },
-    };
-
-    return {
-      text: JSON.stringify(config, null, 2),
-    };
-  },
-});
-
-// Example 4: Markdown documentation resource
-server.addResource({
-  uri: RESOURCE_URIS.RESOURCES_GUIDE,
-  name: RESOURCE_NAMES.RESOURCES_GUIDE,
-  mimeType: MIME_TYPES.MARKDOWN,
-  description: 'Comprehensive guide to MCP resource patterns',
-  load: async () => {
-    const guide = `# MCP Resources Deep-Dive Guide
+        eventLoopLagMs: latest?.eventLoopLagMs ?? null,
+        server: {
+          name: SERVER_CONFIG.NAME,
+          version: SERVER_CONFIG.VERSION,
+          port,
+          activeConnections: server.sessions.length,
+        },
+        requests: {
+          total: requestCount(totals),
+          errors: totals.errors,
+          byMethod: totals.requests,
+        },
+        resourceMetrics: {
+          totalResources: resourceCount,
+          totalResourceTemplates: resourceTemplateCount,
+          reads: totals.requests['resources/read'] ?? 0,
+          subscribed: [...subscriptions.subscribed()],
+          lastAccessed: totals.lastResourceRead ?? null,
+        },
+      };
+
+      return {
+        text: JSON.stringify(status, null, 2),
+      };
+    },
+  });
+
+  // Example 3: Configuration resource with structured data
+  addResource({
+    uri: RESOURCE_URIS.SERVER_CONFIG,
+    name: RESOURCE_NAMES.SERVER_CONFIG,
+    mimeType: MIME_TYPES.JSON,
+    description:
+      'Current server configuration: defaults merged with mcp.config.json and environment variables',
+    load: async () => {
+      const config = {
+        server: {
+          name: SERVER_CONFIG.NAME,
+          version: SERVER_CONFIG.VERSION,
+          transport: 'httpStream',
+        },
+        // The resolved "resources" and "http" configuration sections
+        resources: RESOURCES_CONFIG,
+        http: HTTP_SECURITY,
+      };
+
+      return {
+        text: JSON.stringify(config, null, 2),
+      };
+    },
+  });
+
+  // Example 4: Markdown documentation resource
+  addResource({
+    uri: RESOURCE_URIS.RESOURCES_GUIDE,
+    name: RESOURCE_NAMES.RESOURCES_GUIDE,
+    mimeType: MIME_TYPES.MARKDOWN,
+    description: 'Comprehensive guide to MCP resource patterns',
+    load: async () => {
+      const guide = `# MCP Resources Deep-Dive Guide
 
 ## What Are MCP Resources?
 
@@ -194,6 +363,20 @@ MCP Resources are **read-only data sources** that servers can expose to clients.
 - \`cache://key\` - Cached content
 - \`temp://session-data\` - Temporary resources
 
+## Resource Templates
+
+A template is a URI with parameters (RFC 6570). Clients find templates with \`resources/templates/list\`, fill in the parameters and read the URI like any other resource, getting just the slice they need:
+- \`logs://app/{level}\` - Log entries at a level or more severe
+- \`file:///logs/app.log{?tail,since,level}\` - The last log entries since a time, e.g. \`file:///logs/app.log?tail=20&level=warn\`
+- \`data://metrics/{from}/{to}.csv\` - Metrics for a time range
+- \`system://process/{pid}\` - Details of a process
+
+Parameters arrive as strings; validate them and reject bad values with an \`InvalidParams\` error. \`completion/complete\` suggests values for a parameter as the user types.
+
+## Subscriptions
+
+Clients can subscribe to a resource that changes with \`resources/subscribe\` and get \`notifications/resources/updated\` when it does, then read it again. Here \`file:///logs/app.log\`, \`system://status\` and the metrics (\`data://sample-metrics.csv\`, \`data://metrics.json\` and \`data://metrics.ndjson\`) can be subscribed to. Only do the work of watching for changes while someone is subscribed.
+
 ## MIME Types and Content
 
 ### Text Resources
@@ -211,6 +394,9 @@ MCP Resources are **read-only data sources** that servers can expose to clients.
 - \`image/png\` - PNG images
 - \`image/jpeg\` - JPEG images
 - \`application/pdf\` - PDF documents
+- \`application/gzip\` - Compressed archives
+
+Return binary content base64-encoded in \`blob\`, not in \`text\`, with its MIME type so clients can decode it. The \`asset://\` resources serve the files in the assets directory this way.
 
 ## Resource Loading Patterns
 
@@ -260,18 +446,20 @@ load: async () => {
 Each serves a different purpose in the MCP ecosystem.
 `;
 
-    return { text: guide };
-  },
-});
-
-// Example 5: HTML content resource
-server.addResource({
-  uri: RESOURCE_URIS.RESOURCE_DASHBOARD,
-  name: RESOURCE_NAMES.RESOURCE_DASHBOARD,
-  mimeType: MIME_TYPES.HTML,
-  description: 'HTML dashboard showing resource information',
-  load: async () => {
-    const html = `<!DOCTYPE html>
+      return { text: guide };
+    },
+  });
+
+  // Example 5: HTML content resource
+  addResource({
+    uri: RESOURCE_URIS.RESOURCE_DASHBOARD,
+    name: RESOURCE_NAMES.RESOURCE_DASHBOARD,
+    mimeType: MIME_TYPES.HTML,
+    description: 'HTML dashboard showing resource information',
+    load: async () => {
+      const totals = metrics.totals();
+      const requests = requestCount(totals);
+      const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
@@ -299,19 +487,23 @@ server.addResource({
 
         <div class="stats">
             <div class="stat-box">
-                <div class="stat-number">8</div>
-                <div>Total Resources</div>
+                <div class="stat-number">${resourceCount}</div>
+                <div>Resources</div>
             </div>
             <div class="stat-box">
-                <div class="stat-number">6</div>
-                <div>MIME Types</div>
+                <div class="stat-number">${resourceTemplateCount}</div>
+                <div>Resource Templates</div>
             </div>
             <div class="stat-box">
-                <div class="stat-number">5</div>
-                <div>URI Schemes</div>
+                <div class="stat-number">${requests}</div>
+                <div>Requests Handled (${totals.errors} failed)</div>
             </div>
             <div class="stat-box">
-                <div class="stat-number">100%</div>
+                <div class="stat-number">${server.sessions.length}</div>
+                <div>Connected Sessions</div>
+            </div>
+            <div class="stat-box">
+                <div class="stat-number">${Math.round(process.uptime())}s</div>
                 <div>Uptime</div>
             </div>
         </div>
@@ -323,7 +515,7 @@ server.addResource({
                 <h3>Application Logs</h3>
                 <div class="resource-uri">file:///logs/app.log</div>
                 <div class="mime-type">text/plain</div>
-                <p>Current application log entries with timestamps</p>
+                <p>The server's own log, read from a rotating log file</p>
             </div>
 
             <div class="resource-item">
@@ -361,110 +553,319 @@ server.addResource({
 </body>
 </html>`;
 
-    return { text: html };
-  },
-});
-
-// Example 6: CSV data resource
-server.addResource({
-  uri: RESOURCE_URIS.SAMPLE_METRICS,
-  name: RESOURCE_NAMES.SAMPLE_METRICS,
-  mimeType: MIME_TYPES.CSV,
-  description: 'Sample performance metrics in CSV format',
-  load: async () => {
-    // Generate sample metrics data
-    const headers = [
-      'timestamp',
-      'requests',
-      'response_time_ms',
-      'error_rate',
-      'cpu_usage',
-      'memory_mb',
-    ];
-    const rows = [headers.join(',')];
-
-    // Generate 10 sample data points
-    for (let i = 0; i < 10; i++) {
-      const timestamp = new Date(Date.now() - (10 - i) * 60000).toISOString();
-      const requests = Math.floor(Math.random() * 1000) + 100;
-      const responseTime = Math.floor(Math.random() * 500) + 50;
-      const errorRate = (Math.random() * 5).toFixed(2);
-      const cpuUsage = (Math.random() * 80 + 10).toFixed(1);
-      const memoryMb = Math.floor(Math.random() * 500) + 100;
-
-      rows.push(
-        `${timestamp},${requests},${responseTime},${errorRate},${cpuUsage},${memoryMb}`,
+      return { text: html };
+    },
+  });
+
+  // Example 6: The same data in several formats. The server's own metrics are
+  // served as CSV for spreadsheets and statistics tools, JSON for programs
+  // and NDJSON, one sample per line, for streaming into log pipelines.
+  const metricsDescription = `The server's own metrics, sampled every ${metricsIntervalMs / 1000}s: requests, errors, response time, event loop lag, CPU, memory and connections. Keeps the last ${METRICS_CAPACITY} samples. Subscribe to be told when a sample is taken.`;
+  addResource({
+    uri: RESOURCE_URIS.SAMPLE_METRICS,
+    name: RESOURCE_NAMES.SAMPLE_METRICS,
+    mimeType: MIME_TYPES.CSV,
+    description: metricsDescription,
+    load: async () => ({ text: metrics.csv() }),
+  });
+  addResource({
+    uri: RESOURCE_URIS.METRICS_JSON,
+    name: RESOURCE_NAMES.METRICS_JSON,
+    mimeType: MIME_TYPES.JSON,
+    description: metricsDescription,
+    load: async () => ({ text: metrics.json() }),
+  });
+  addResource({
+    uri: RESOURCE_URIS.METRICS_NDJSON,
+    name: RESOURCE_NAMES.METRICS_NDJSON,
+    mimeType: MIME_TYPES.NDJSON,
+    description: metricsDescription,
+    load: async () => ({ text: metrics.ndjson() }),
+  });
+
+  // Example 7: Binary image resource. Binary content is sent base64-encoded
+  // in `blob`, and the MIME type tells the client how to decode it
+  addResource({
+    uri: RESOURCE_URIS.MCP_LOGO,
+    name: RESOURCE_NAMES.MCP_LOGO,
+    mimeType: MIME_TYPES.PNG,
+    description: 'Model Context Protocol logo image (32×32 PNG)',
+    load: async () => {
+      const png = await fs.promises.readFile(
+        path.join(BUNDLED_ASSETS_DIRECTORY, 'mcp-logo.png'),
       );
-    }
 
-    return {
-      text: rows.join('\n'),
-    };
-  },
-});
-
-// Example 7: Base64 image resource
-server.addResource({
-  uri: RESOURCE_URIS.MCP_LOGO,
-  name: RESOURCE_NAMES.MCP_LOGO,
-  mimeType: MIME_TYPES.PNG,
-  description: 'Model Context Protocol logo image',
-  load: async () => {
-    // Simple 32x32 placeholder image representing an "MCP" logo
-    const base64Image =
-      'iVBORw0KGgoAAAANSUhEUgAAACAAAAAgCAYAAABzenr0AAAABHNCSVQICAgIfAhkiAAAAAlwSFlzAAAAdgAAAHYBTnsmCAAAABl0RVh0U29mdHdhcmUAd3d3Lmlua3NjYXBlLm9yZ5vuPBoAAANCSURBVFiFtZdNaBNREMefmSRN0lqtWj9QLEVQwYMHL168eFAQD4IHL3rwA71YQdCDBy8ePHhQPHhQPOhBBQ9eFLx48OJBwYMHBQ9eFLx48aBY8QNbP2qTJpud8ZDdJJvsJmk/+EEyz7z3/2femzcvAv+RiAhERERERDRgIXjA4hfm+sT/M7q7u4nrujiOg+u6OI6D67q4rovjODiOg+M4uK6L4zg4joPrujiOg+u6OI6D4zg4joPjOLiui+M4OI6D67q4rovjODiOg+M4uK6L4zg4joPrujiOg+u6uK6L4zg4jkM4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4TDgcJhwOEw6HCYfDhMNhwuEw4XCYcDhMOBwmHA4TDocJh8OEw2HC4TDhcJhwOEw4HCYcDhMOhwmHw4TDYcLhMOFwmHA4/AHQkPF1xUMqnwAAAABJRU5ErkJggg==';
-
-    return {
-      text: base64Image,
-    };
-  },
-});
-
-// Example 8: Error handling resource (demonstrates resource that might fail)
-server.addResource({
-  uri: 'volatile://might-fail',
-  name: 'Volatile Resource',
-  mimeType: 'text/plain',
-  description: 'Resource that demonstrates error handling (fails randomly)',
-  load: async () => {
-    // Randomly fail to demonstrate error handling
-    const shouldFail = Math.random() < 0.3; // 30% chance of failure
-
-    if (shouldFail) {
-      throw new Error(
-        'Simulated resource failure - resource temporarily unavailable',
+      return {
+        blob: png.toString('base64'),
+      };
+    },
+  });
+
+  // Example 8: Error handling resource (demonstrates resource that might fail)
+  addResource({
+    uri: 'volatile://might-fail',
+    name: 'Volatile Resource',
+    mimeType: 'text/plain',
+    description: 'Resource that demonstrates error handling (fails randomly)',
+    load: async () => {
+      // Randomly fail to demonstrate error handling
+      const shouldFail = Math.random() < 0.3; // 30% chance of failure
+
+      if (shouldFail) {
+        appLog.write(
+          'warn',
+          `${RESOURCE_URIS.VOLATILE_RESOURCE} failed to load`,
+        );
+        throw new Error(
+          'Simulated resource failure - resource temporarily unavailable',
+        );
+      }
+
+      return {
+        text: `Success! Resource loaded at ${new Date().toISOString()}\n\nThis resource demonstrates error handling patterns in MCP resources. It randomly fails ~30% of the time to show how clients should handle resource loading errors gracefully.\n\nKey learning points:\n- Resources can fail and should handle errors appropriately\n- Clients should implement retry logic for important resources\n- Error messages should be descriptive and helpful\n- Temporary failures are common in real-world scenarios`,
+      };
+    },
+  });
+
+  // Example 9: Resource template - the application log filtered by level
+  addResourceTemplate({
+    uriTemplate: RESOURCE_TEMPLATES.APP_LOGS_BY_LEVEL,
+    name: RESOURCE_TEMPLATE_NAMES.APP_LOGS_BY_LEVEL,
+    mimeType: MIME_TYPES.PLAIN_TEXT,
+    description: `Application log entries at a level or more severe (${LOG_LEVELS.join(', ')})`,
+    arguments: [
+      {
+        name: 'level',
+        description: `The least severe level to include: ${LOG_LEVELS.join(', ')}`,
+        required: true,
+        complete: completeFrom(() => [...LOG_LEVELS]),
+      },
+    ],
+    load: async (args) => {
+      const { level } = parseTemplateArguments(
+        logsArguments,
+        args,
+        RESOURCE_TEMPLATES.APP_LOGS_BY_LEVEL,
       );
-    }
-
-    return {
-      text: `Success! Resource loaded at ${new Date().toISOString()}\n\nThis resource demonstrates error handling patterns in MCP resources. It randomly fails ~30% of the time to show how clients should handle resource loading errors gracefully.\n\nKey learning points:\n- Resources can fail and should handle errors appropriately\n- Clients should implement retry logic for important resources\n- Error messages should be descriptive and helpful\n- Temporary failures are common in real-world scenarios`,
-    };
-  },
-});
-
-// Event handlers to demonstrate server lifecycle
-server.on('connect', (event) => {
-  console.log('🗂️  Client connected to resources deep-dive server');
-  console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
-});
-
-server.on('disconnect', (event) => {
-  console.log('❌ Client disconnected from resources deep-dive server');
-  console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
-});
-
-// Start the server
-const port = 8088;
+      return {
+        text: logText(await appLog.read({ level })),
+      };
+    },
+  });
+
+  // Example 10: Resource template - metrics for a time range
+  addResourceTemplate({
+    uriTemplate: RESOURCE_TEMPLATES.METRICS_RANGE,
+    name: RESOURCE_TEMPLATE_NAMES.METRICS_RANGE,
+    mimeType: MIME_TYPES.CSV,
+    description: `The server's own metrics samples taken from one time to another, at most ${METRICS_MAX_RANGE_HOURS} hours apart, with the same columns as ${RESOURCE_URIS.SAMPLE_METRICS}. Only the last ${METRICS_CAPACITY} samples are kept, so earlier times have no rows.`,
+    arguments: [
+      {
+        name: 'from',
+        description:
+          'Start of the range (included), e.g. 2025-01-31 or 2025-01-31T09:30Z',
+        required: true,
+        complete: completeFrom(() => {
+          const now = Date.now();
+          return [
+            minuteIso(now - 10 * MINUTE_MS),
+            minuteIso(now - 60 * MINUTE_MS),
+            dateIso(now),
+          ];
+        }),
+      },
+      {
+        name: 'to',
+        description:
+          'End of the range (not included), e.g. 2025-02-01 or 2025-01-31T10:30Z',
+        required: true,
+        complete: completeFrom(() => {
+          const now = Date.now();
+          return [
+            minuteIso(now + MINUTE_MS),
+            dateIso(now + 24 * 60 * MINUTE_MS),
+          ];
+        }),
+      },
+    ],
+    load: async (args) => {
+      const { from, to } = parseTemplateArguments(
+        metricsArguments,
+        args,
+        RESOURCE_TEMPLATES.METRICS_RANGE,
+      );
+      return { text: metrics.csv({ from, to }) };
+    },
+  });
+
+  // Example 11: Resource template - details of a process by ID
+  addResourceTemplate({
+    uriTemplate: RESOURCE_TEMPLATES.PROCESS_INFO,
+    name: RESOURCE_TEMPLATE_NAMES.PROCESS_INFO,
+    mimeType: MIME_TYPES.JSON,
+    description:
+      "Memory, CPU time and uptime of a process. Only the server's own process can be described.",
+    arguments: [
+      {
+        name: 'pid',
+        description: "The process ID; completion offers the server's own",
+        required: true,
+        complete: completeFrom(() => [String(process.pid)]),
+      },
+    ],
+    load: async (args) => {
+      const { pid } = parseTemplateArguments(
+        processArguments,
+        args,
+        RESOURCE_TEMPLATES.PROCESS_INFO,
+      );
+      if (pid !== process.pid) {
+        throw new McpError(
+          RESOURCE_NOT_FOUND,
+          `No process ${pid} to describe; this server can only describe its own process, ${process.pid}`,
+          { uri: `system://process/${pid}` },
+        );
+      }
+
+      const memory = process.memoryUsage();
+      const cpu = process.cpuUsage();
+      const toMb = (bytes: number) => Math.round(bytes / 1024 / 1024);
+      return {
+        text: JSON.stringify(
+          {
+            pid,
+            parentPid: process.ppid,
+            title: process.title,
+            platform: process.platform,
+            arch: process.arch,
+            nodeVersion: process.version,
+            uptimeSeconds: Math.round(process.uptime()),
+            memoryMb: {
+              rss: toMb(memory.rss),
+              heapUsed: toMb(memory.heapUsed),
+              heapTotal: toMb(memory.heapTotal),
+            },
+            cpuSeconds: {
+              user: cpu.user / 1_000_000,
+              system: cpu.system / 1_000_000,
+            },
+          },
+          null,
+          2,
+        ),
+      };
+    },
+  });
+
+  // Example 12: Resource template - the application log with query
+  // parameters, all optional: file:///logs/app.log?tail=20&level=warn
+  addResourceTemplate({
+    uriTemplate: RESOURCE_TEMPLATES.APP_LOGS_QUERY,
+    name: RESOURCE_TEMPLATE_NAMES.APP_LOGS_QUERY,
+    mimeType: MIME_TYPES.PLAIN_TEXT,
+    description:
+      "The server's log entries, filtered by level and time and limited to the last few",
+    arguments: [
+      {
+        name: 'tail',
+        description: `Only the last entries, 1 to ${LOG_TAIL_MAX}`,
+        complete: completeFrom(() => ['10', '50', '100']),
+      },
+      {
+        name: 'since',
+        description:
+          'Only entries written at or after this time, e.g. 2025-01-31T09:30Z',
+        complete: completeFrom(() => [
+          minuteIso(Date.now() - 5 * MINUTE_MS),
+          minuteIso(Date.now() - 60 * MINUTE_MS),
+        ]),
+      },
+      {
+        name: 'level',
+        description: `The least severe level to include: ${LOG_LEVELS.join(', ')}`,
+        complete: completeFrom(() => [...LOG_LEVELS]),
+      },
+    ],
+    load: async (args) => {
+      const query = parseTemplateArguments(
+        logQueryArguments,
+        args,
+        RESOURCE_TEMPLATES.APP_LOGS_QUERY,
+      );
+      return {
+        text: logText(await appLog.read(query)),
+      };
+    },
+  });
+
+  // Example 13: Files from the assets directory, such as PNG images, PDF
+  // documents and gzip archives, each with the MIME type of its extension.
+  // The files are listed when the server starts.
+  for (const file of assetFiles()) {
+    addResource({
+      uri: `${URI_SCHEMES.ASSET}${encodeURIComponent(file)}`,
+      name: file,
+      mimeType: mimeTypeOf(file),
+      description: `${file} from the assets directory`,
+      load: async () => {
+        const bytes = await fs.promises.readFile(
+          path.join(ASSETS_DIRECTORY, file),
+        );
+        return { blob: bytes.toString('base64') };
+      },
+    });
+  }
 
-server.start({
-  transportType: 'httpStream',
-  httpStream: { port },
-});
+  // Event handlers to demonstrate server lifecycle
+  server.on('connect', (event) => {
+    appLog.write(
+      'info',
+      `Client connected (session ${event.session.sessionId ?? 'unknown'})`,
+    );
+    console.log('🗂️  Client connected to resources deep-dive server');
+    console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
+  });
+
+  server.on('disconnect', (event) => {
+    appLog.write(
+      'info',
+      `Client disconnected (session ${event.session.sessionId ?? 'unknown'})`,
+    );
+    console.log('❌ Client disconnected from resources deep-dive server');
+    console.log(`   Session: ${JSON.stringify(event.session, null, 2)}`);
+  });
+
+  // Start the server
+  await server.start({
+    transportType: 'httpStream',
+    httpStream: { port, host: HTTP_SECURITY.host },
+  });
+  appLog.write('info', `Server started on port ${port}`);
+
+  console.log(`🗂️  Resources Deep-Dive MCP Server running on port ${port}`);
+  console.log(`📡 Connect via: http://localhost:${port}/stream`);
+  console.log(`🎯 This server focuses exclusively on MCP resource patterns:`);
+  console.log(`   • Static and dynamic content serving`);
+  console.log(
+    `   • Multiple MIME types (text, JSON, HTML, CSV, images, PDF, gzip)`,
+  );
+  console.log(`   • Resource templates with argument completion`);
+  console.log(`   • Subscriptions with live update notifications`);
+  console.log(`   • Resource URI schemes and naming conventions`);
+  console.log(`   • Error handling for resource access`);
+  console.log(`📝 Writing its log to ${appLog.file}`);
+  return {
+    stop: () => {
+      appLog.write('info', 'Server stopping');
+      stopLogUpdates();
+      stopMetricsUpdates();
+      metrics.stop();
+      stopUpdates();
+      return server.stop();
+    },
+  };
+}
 
-console.log(`🗂️  Resources Deep-Dive MCP Server running on port ${port}`);
-console.log(`📡 Connect via: http://localhost:${port}/stream`);
-console.log(`🎯 This server focuses exclusively on MCP resource patterns:`);
-console.log(`   • Static and dynamic content serving`);
-console.log(`   • Multiple MIME types (text, JSON, HTML, CSV, images)`);
-console.log(`   • Resource URI schemes and naming conventions`);
-console.log(`   • Error handling for resource access`);
+if (isMainModule(import.meta.url)) {
+  await startServer();
+}
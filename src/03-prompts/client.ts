@@ -2,6 +2,7 @@
 
 import { experimental_createMCPClient as createMCPClient } from 'ai';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import { cassetteTransport } from '../shared/cassette';
 
 // TypeScript interfaces for MCP prompts
 interface MCPPrompt {
@@ -23,8 +24,12 @@ async function runPromptsMaxtery() {
   try {
     // Connect to the prompts mastery server
     const mcpClient = await createMCPClient({
-      transport: new StreamableHTTPClientTransport(
-        new URL('http://localhost:8089/stream'),
+      transport: cassetteTransport(
+        'prompts',
+        () =>
+          new StreamableHTTPClientTransport(
+            new URL('http://localhost:8089/stream'),
+          ),
       ),
     });
 
@@ -1 +1,7 @@
-export const PORT = 3003;
+import { loadConfig, port } from '../shared/config';
+
+export const { port: PORT } = loadConfig(
+  'prompts',
+  { port: port(3003) },
+  { PROMPTS_SERVER_PORT: 'port' },
+);
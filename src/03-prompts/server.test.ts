@@ -0,0 +1,148 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import { startServer } from './server';
+
+describe('prompts server', () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    server = await startTestServer(startServer);
+    client = await connectHttp(server.url);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+  });
+
+  /** Loads a prompt and returns the text of its single user message */
+  const promptText = async (name: string, args: Record<string, string>) => {
+    const { messages } = await client.getPrompt(name, args);
+    expect(messages).toHaveLength(1);
+    const { role, content } = messages[0]!;
+    expect(role).toBe('user');
+    expect(content.type).toBe('text');
+    return (content as { text: string }).text;
+  };
+
+  it('lists every prompt with its arguments', async () => {
+    const prompts = await client.listPrompts();
+    expect(prompts.map(({ name }) => name)).toEqual([
+      'greeting',
+      'code_review',
+      'team_discussion',
+      'explain_concept',
+      'creative_writing',
+      'data_analysis',
+      'problem_solving',
+      'conversation_context',
+    ]);
+
+    const greeting = prompts.find(({ name }) => name === 'greeting');
+    expect(greeting?.arguments).toEqual([
+      expect.objectContaining({ name: 'name', required: true }),
+      expect.objectContaining({ name: 'time_of_day', required: false }),
+    ]);
+  });
+
+  describe('greeting', () => {
+    it('fills in the name', async () => {
+      expect(await promptText('greeting', { name: 'Ada' })).toBe(
+        'Hello, Ada! How are you doing today?',
+      );
+    });
+
+    it('uses the time of day when given', async () => {
+      expect(
+        await promptText('greeting', { name: 'Ada', time_of_day: 'morning' }),
+      ).toBe('Good morning, Ada! How are you doing today?');
+    });
+
+    it('rejects a call without the required name', async () => {
+      await expect(client.getPrompt('greeting')).rejects.toThrow(/name/);
+    });
+  });
+
+  describe('code_review', () => {
+    it('embeds the code in a fenced block', async () => {
+      const text = await promptText('code_review', {
+        language: 'python',
+        code: 'print("hi")',
+      });
+      expect(text).toContain('```python\nprint("hi")\n```');
+      expect(text).not.toContain('Pay special attention to');
+    });
+
+    it('adds focus areas and guidance for the experience level', async () => {
+      const text = await promptText('code_review', {
+        language: 'typescript',
+        code: 'let x = 1',
+        focus_areas: 'security, performance',
+        experience_level: 'Beginner',
+      });
+      expect(text).toContain(
+        'Pay special attention to: security, performance.',
+      );
+      expect(text).toContain('Provide detailed explanations');
+    });
+  });
+
+  describe('explain_concept', () => {
+    it('tailors the explanation to the level', async () => {
+      const text = await promptText('explain_concept', {
+        concept: 'recursion',
+        subject: 'programming',
+        level: 'elementary',
+        examples: 'true',
+      });
+      expect(text).toContain('Target Level: ELEMENTARY');
+      expect(text).toContain('Include practical examples and applications.');
+    });
+
+    it('falls back to college level for an unknown level', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const text = await promptText('explain_concept', {
+        concept: 'entropy',
+        subject: 'physics',
+        level: 'kindergarten',
+      });
+      expect(text).toContain('Use academic language');
+      vi.restoreAllMocks();
+    });
+  });
+
+  it('gives each team member a turn in a team discussion', async () => {
+    const text = await promptText('team_discussion', {
+      topic: 'API design',
+      roles: 'architect, tester',
+    });
+    expect(text).toContain('"API design"');
+    expect(text).toContain('- ARCHITECT: a system architect');
+    expect(text).toContain('- TESTER: a team member with their perspective');
+  });
+
+  it.each([
+    ['creative_writing', { genre: 'mystery', style: 'noir' }],
+    [
+      'data_analysis',
+      { data_type: 'sales figures', analysis_type: 'trend analysis' },
+    ],
+    ['problem_solving', { problem: 'slow builds', domain: 'engineering' }],
+    ['conversation_context', { conversation_history: 'We discussed caching' }],
+  ])('%s includes its required arguments', async (name, args) => {
+    const text = await promptText(name, args);
+    for (const value of Object.values(args)) {
+      expect(text).toContain(value);
+    }
+  });
+
+  it('rejects an unknown prompt', async () => {
+    await expect(client.getPrompt('missing')).rejects.toThrow(/missing/);
+  });
+});
@@ -4,12 +4,17 @@ import {
 } from 'ai';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
 import { model } from '../model';
+import { cassetteTransport } from '../shared/cassette';
 
 const mcpClient = await createMCPClient({
-  transport: new StdioClientTransport({
-    command: 'npx',
-    args: ['tsx', 'src/04-stdio-filesystem/server.ts'],
-  }),
+  transport: cassetteTransport(
+    'filesystem',
+    () =>
+      new StdioClientTransport({
+        command: 'npx',
+        args: ['tsx', 'src/04-stdio-filesystem/server.ts'],
+      }),
+  ),
 });
 
 const tools = await mcpClient.tools();
@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { connectStdio, type TestClient } from '../shared/test-harness';
+
+const SERVER_SCRIPT = fileURLToPath(new URL('server.ts', import.meta.url));
+
+describe('stdio filesystem server', () => {
+  let directory: string;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-stdio-'));
+    await fs.writeFile(path.join(directory, 'notes.txt'), 'Hello from disk\n');
+    await fs.mkdir(path.join(directory, 'nested'));
+
+    client = await connectStdio(SERVER_SCRIPT);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('lists its tools', async () => {
+    expect(await client.listTools()).toEqual(['listDirectory', 'readFile']);
+  });
+
+  it('lists a directory', async () => {
+    const { text } = await client.callTool('listDirectory', {
+      path: directory,
+    });
+    const entries = JSON.parse(text) as { name: string; type: string }[];
+    expect(
+      entries
+        .map(({ name, type }) => ({ name, type }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    ).toEqual([
+      { name: 'nested', type: 'directory' },
+      { name: 'notes.txt', type: 'file' },
+    ]);
+  });
+
+  it('reads a file', async () => {
+    const { text } = await client.callTool('readFile', {
+      path: path.join(directory, 'notes.txt'),
+    });
+    expect(text).toBe('Hello from disk\n');
+  });
+
+  it('reports a missing file in the result text', async () => {
+    const { text } = await client.callTool('readFile', {
+      path: path.join(directory, 'missing.txt'),
+    });
+    expect(text).toMatch(/^Error reading file: ENOENT/);
+  });
+});
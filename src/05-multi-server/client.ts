@@ -5,17 +5,24 @@ import {
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
 
 import { USER_SERVER_PORT, PAYMENT_SERVER_PORT } from './constants';
-import { groqModel as model } from '../model';
+import { model } from '../model';
+import { cassetteTransport } from '../shared/cassette';
 
 // Create MCP clients for both servers
 const userUrl = new URL(`http://localhost:${USER_SERVER_PORT}/mcp`);
 const userClient = await createMCPClient({
-  transport: new StreamableHTTPClientTransport(userUrl),
+  transport: cassetteTransport(
+    'users',
+    () => new StreamableHTTPClientTransport(userUrl),
+  ),
 });
 
 const paymentUrl = new URL(`http://localhost:${PAYMENT_SERVER_PORT}/mcp`);
 const paymentClient = await createMCPClient({
-  transport: new StreamableHTTPClientTransport(paymentUrl),
+  transport: cassetteTransport(
+    'payments',
+    () => new StreamableHTTPClientTransport(paymentUrl),
+  ),
 });
 
 async function main() {
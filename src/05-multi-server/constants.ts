@@ -1,2 +1,10 @@
-export const USER_SERVER_PORT = 8082;
-export const PAYMENT_SERVER_PORT = 8083;
\ No newline at end of file
+import { loadConfig, port } from '../shared/config';
+
+const config = loadConfig(
+  'multiServer',
+  { userPort: port(8082), paymentPort: port(8083) },
+  { USER_SERVER_PORT: 'userPort', PAYMENT_SERVER_PORT: 'paymentPort' },
+);
+
+export const USER_SERVER_PORT = config.userPort;
+export const PAYMENT_SERVER_PORT = config.paymentPort;
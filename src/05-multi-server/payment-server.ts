@@ -1,5 +1,11 @@
 import { FastMCP } from 'fastmcp';
 import z from 'zod';
+import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { isMainModule, type RunningServer } from '../shared/main-module';
 import { PAYMENT_SERVER_PORT } from './constants';
 
 // Hardcoded transaction data
@@ -56,73 +62,86 @@ const transactions: Transaction[] = [
   },
 ];
 
-const server = new FastMCP({
-  name: 'payment-server',
-  version: '1.0.0',
-  instructions: `
+export async function startServer(
+  port = PAYMENT_SERVER_PORT,
+): Promise<RunningServer> {
+  const server = new FastMCP({
+    name: 'payment-server',
+    version: '1.0.0',
+    instructions: `
 This is a payment processing server that provides access to transaction data.
   `.trim(),
-});
+    authenticate: guardRequests(),
+  });
 
-// Event handlers
-server.on('connect', (event) => {
-  console.log(
-    'Client connected to payment server:',
-    JSON.stringify(event.session, null, 2),
-  );
-});
+  guardRoutes(server);
 
-server.on('disconnect', (event) => {
-  console.log(
-    'Client disconnected from payment server:',
-    JSON.stringify(event.session, null, 2),
-  );
-});
-
-// Tool: Get transactions by email
-server.addTool({
-  name: 'getTransactionsUsingUserId',
-  description: `Get transactions for a user by their user ID. Requires userId as input. Returns an array of transactions for that user. Example input: { userId: 'b1a7e8c2-1f2d-4e3a-9c4b-1a2b3c4d5e6f', count: 3 }. Example output: [ { id: 1, date: '2022-01-01', amount: 100.00 }, ... ]`,
-  parameters: z.object({
-    userId: z
-      .string()
-      .describe('The user id of the user to find transactions for'),
-    count: z.coerce
-      .number()
-      .optional()
-      .describe('The number of recent transactions to retrieve'),
-  }),
-  annotations: {
-    readOnlyHint: true,
-  },
-  execute: async (args) => {
+  // Event handlers
+  server.on('connect', (event) => {
     console.log(
-      `[Payment Server] getTransactions resolved userId: ${args.userId}`,
-    );
-    const userTransactions = transactions.filter(
-      (t) => t.userId === args.userId,
+      'Client connected to payment server:',
+      JSON.stringify(event.session, null, 2),
     );
-    const sortedTransactions = userTransactions.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
-    );
-    const result = args.count
-      ? sortedTransactions.slice(0, args.count)
-      : sortedTransactions;
-    const resultString = JSON.stringify(result, null, 2);
+  });
+
+  server.on('disconnect', (event) => {
     console.log(
-      `[Payment Server] getTransactions found ${result.length} transactions: ${resultString}`,
+      'Client disconnected from payment server:',
+      JSON.stringify(event.session, null, 2),
     );
-    return resultString;
-  },
-});
+  });
 
-// Start server with HTTP Stream transport
-server.start({
-  transportType: 'httpStream',
-  httpStream: {
-    port: PAYMENT_SERVER_PORT,
-  },
-});
+  // Tool: Get transactions by email
+  server.addTool({
+    name: 'getTransactionsUsingUserId',
+    description: `Get transactions for a user by their user ID. Requires userId as input. Returns an array of transactions for that user. Example input: { userId: 'b1a7e8c2-1f2d-4e3a-9c4b-1a2b3c4d5e6f', count: 3 }. Example output: [ { id: 1, date: '2022-01-01', amount: 100.00 }, ... ]`,
+    parameters: z.object({
+      userId: z
+        .string()
+        .describe('The user id of the user to find transactions for'),
+      count: z.coerce
+        .number()
+        .optional()
+        .describe('The number of recent transactions to retrieve'),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async (args) => {
+      console.log(
+        `[Payment Server] getTransactions resolved userId: ${args.userId}`,
+      );
+      const userTransactions = transactions.filter(
+        (t) => t.userId === args.userId,
+      );
+      const sortedTransactions = userTransactions.sort(
+        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+      );
+      const result = args.count
+        ? sortedTransactions.slice(0, args.count)
+        : sortedTransactions;
+      const resultString = JSON.stringify(result, null, 2);
+      console.log(
+        `[Payment Server] getTransactions found ${result.length} transactions: ${resultString}`,
+      );
+      return resultString;
+    },
+  });
+
+  // Start server with HTTP Stream transport
+  await server.start({
+    transportType: 'httpStream',
+    httpStream: {
+      port,
+      host: HTTP_SECURITY.host,
+    },
+  });
 
-console.log(`💳 Payment MCP Server running on port ${PAYMENT_SERVER_PORT}`);
-console.log(`📡 Connect via: http://localhost:${PAYMENT_SERVER_PORT}/stream`);
+  console.log(`💳 Payment MCP Server running on port ${port}`);
+  console.log(`📡 Connect via: http://localhost:${port}/stream`);
+  return { stop: () => server.stop() };
+}
+
+if (isMainModule(import.meta.url)) {
+  await startServer();
+}
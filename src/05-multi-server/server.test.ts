@@ -0,0 +1,90 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import { startServer as startPaymentServer } from './payment-server';
+import { startServer as startUserServer } from './user-server';
+
+const BOB_ID = 'b1a7e8c2-1f2d-4e3a-9c4b-1a2b3c4d5e6f';
+
+describe('user and payment servers', () => {
+  let userServer: TestServer;
+  let paymentServer: TestServer;
+  let users: TestClient;
+  let payments: TestClient;
+
+  beforeAll(async () => {
+    userServer = await startTestServer(startUserServer);
+    paymentServer = await startTestServer(startPaymentServer);
+    users = await connectHttp(userServer.url);
+    payments = await connectHttp(paymentServer.url);
+  });
+
+  afterAll(async () => {
+    await Promise.all([users?.close(), payments?.close()]);
+    await Promise.all([userServer?.stop(), paymentServer?.stop()]);
+  });
+
+  it('lists one tool on each server', async () => {
+    expect(await users.listTools()).toEqual(['getUserIdByEmail']);
+    expect(await payments.listTools()).toEqual(['getTransactionsUsingUserId']);
+  });
+
+  describe('getUserIdByEmail', () => {
+    it('finds a user by email, ignoring case', async () => {
+      const result = await users.callTool('getUserIdByEmail', {
+        email: 'Bob@Example.com',
+      });
+      expect(result).toMatchObject({ isError: false, text: BOB_ID });
+    });
+
+    it('reports an unknown email', async () => {
+      const result = await users.callTool('getUserIdByEmail', {
+        email: 'nobody@example.com',
+      });
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(
+        'User with email nobody@example.com not found',
+      );
+    });
+  });
+
+  describe('getTransactionsUsingUserId', () => {
+    it('returns the newest transactions first', async () => {
+      const result = await payments.callTool('getTransactionsUsingUserId', {
+        userId: BOB_ID,
+      });
+      const transactions = JSON.parse(result.text) as { date: string }[];
+      expect(transactions.map(({ date }) => date)).toEqual([
+        '2023-01-16',
+        '2023-01-15',
+        '2023-01-14',
+        '2023-01-12',
+      ]);
+    });
+
+    it('limits the number of transactions with count', async () => {
+      const result = await payments.callTool('getTransactionsUsingUserId', {
+        userId: BOB_ID,
+        count: 2,
+      });
+      expect(JSON.parse(result.text)).toHaveLength(2);
+    });
+
+    it('returns no transactions for an unknown user', async () => {
+      const result = await payments.callTool('getTransactionsUsingUserId', {
+        userId: 'unknown',
+      });
+      expect(JSON.parse(result.text)).toEqual([]);
+    });
+
+    it('rejects a call without a user ID', async () => {
+      await expect(
+        payments.callTool('getTransactionsUsingUserId', {}),
+      ).rejects.toThrow(/userId: Required/);
+    });
+  });
+});
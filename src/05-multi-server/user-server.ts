@@ -1,5 +1,11 @@
 import { FastMCP } from 'fastmcp';
 import z from 'zod';
+import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { isMainModule, type RunningServer } from '../shared/main-module';
 import { USER_SERVER_PORT } from './constants';
 
 // Hardcoded user data
@@ -31,55 +37,68 @@ const users: User[] = [
   },
 ];
 
-const server = new FastMCP({
-  name: 'user-server',
-  version: '1.0.0',
-  instructions: `
+export async function startServer(
+  port = USER_SERVER_PORT,
+): Promise<RunningServer> {
+  const server = new FastMCP({
+    name: 'user-server',
+    version: '1.0.0',
+    instructions: `
 This is a user management server that provides access to user data.
   `.trim(),
-});
+    authenticate: guardRequests(),
+  });
 
-// Event handlers
-server.on('connect', (event) => {
-  console.log('Client connected:', JSON.stringify(event.session, null, 2));
-});
+  guardRoutes(server);
 
-server.on('disconnect', (event) => {
-  console.log('Client disconnected:', JSON.stringify(event.session, null, 2));
-});
+  // Event handlers
+  server.on('connect', (event) => {
+    console.log('Client connected:', JSON.stringify(event.session, null, 2));
+  });
 
-server.addTool({
-  name: 'getUserIdByEmail',
-  description: `Get the user ID for a user by their email address.`,
-  parameters: z.object({
-    email: z.string().describe('The email of the user to find'),
-  }),
-  annotations: {
-    readOnlyHint: true,
-  },
-  execute: async (args) => {
-    console.log(
-      `[User Server] Executing getUserIdByEmail for email: ${args.email}`,
-    );
-    const user = users.find(
-      (u) => u.email.toLowerCase() === args.email.toLowerCase(),
-    );
-    if (!user) {
-      console.log(`[User Server] User not found: ${args.email}`);
-      throw new Error(`User with email ${args.email} not found`);
-    }
-    console.log(`[User Server] Found user ID: ${user.id}`);
-    return user.id;
-  },
-});
+  server.on('disconnect', (event) => {
+    console.log('Client disconnected:', JSON.stringify(event.session, null, 2));
+  });
 
-// Start server with HTTP Stream transport
-server.start({
-  transportType: 'httpStream',
-  httpStream: {
-    port: USER_SERVER_PORT,
-  },
-});
+  server.addTool({
+    name: 'getUserIdByEmail',
+    description: `Get the user ID for a user by their email address.`,
+    parameters: z.object({
+      email: z.string().describe('The email of the user to find'),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async (args) => {
+      console.log(
+        `[User Server] Executing getUserIdByEmail for email: ${args.email}`,
+      );
+      const user = users.find(
+        (u) => u.email.toLowerCase() === args.email.toLowerCase(),
+      );
+      if (!user) {
+        console.log(`[User Server] User not found: ${args.email}`);
+        throw new Error(`User with email ${args.email} not found`);
+      }
+      console.log(`[User Server] Found user ID: ${user.id}`);
+      return user.id;
+    },
+  });
+
+  // Start server with HTTP Stream transport
+  await server.start({
+    transportType: 'httpStream',
+    httpStream: {
+      port,
+      host: HTTP_SECURITY.host,
+    },
+  });
 
-console.log(`👥 User MCP Server running on port ${USER_SERVER_PORT}`);
-console.log(`📡 Connect via: http://localhost:${USER_SERVER_PORT}/stream`);
+  console.log(`👥 User MCP Server running on port ${port}`);
+  console.log(`📡 Connect via: http://localhost:${port}/stream`);
+  return { stop: () => server.stop() };
+}
+
+if (isMainModule(import.meta.url)) {
+  await startServer();
+}
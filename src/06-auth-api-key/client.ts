@@ -4,18 +4,23 @@ import {
 } from 'ai';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
 import { model } from '../model';
+import { cassetteTransport } from '../shared/cassette';
 import { BOB_API_KEY, ALICE_API_KEY, PORT } from './constants';
 
-async function createClient(apiKey: string) {
+async function createClient(username: string, apiKey: string) {
   const dbUrl = new URL(`http://localhost:${PORT}/mcp`);
   return await createMCPClient({
-    transport: new StreamableHTTPClientTransport(dbUrl, {
-      requestInit: {
-        headers: {
-          'x-api-key': apiKey,
-        },
-      },
-    }),
+    transport: cassetteTransport(
+      username,
+      () =>
+        new StreamableHTTPClientTransport(dbUrl, {
+          requestInit: {
+            headers: {
+              'x-api-key': apiKey,
+            },
+          },
+        }),
+    ),
   });
 }
 
@@ -79,7 +84,7 @@ async function main() {
 
   // Test Bob's access
   console.log("=== Testing Bob's Access ===\n");
-  const bobClient = await createClient(BOB_API_KEY);
+  const bobClient = await createClient('bob', BOB_API_KEY);
   await runQuery(bobClient, 'Show me my account balance.');
   await runQuery(bobClient, 'Show me my recent transactions.');
   await runQuery(
@@ -90,7 +95,7 @@ async function main() {
 
   // Test Alice's access
   console.log("\n=== Testing Alice's Access ===\n");
-  const aliceClient = await createClient(ALICE_API_KEY);
+  const aliceClient = await createClient('alice', ALICE_API_KEY);
   await runQuery(aliceClient, 'Show me my account balance.');
   await runQuery(aliceClient, 'Show me my recent transactions.');
   await runQuery(
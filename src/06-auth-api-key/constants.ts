@@ -1,7 +1,23 @@
-export const PORT = 8085;
+import { loadConfig, port, secret } from '../shared/config';
+
 // IMPORTANT: In a production environment, API keys should NEVER be hardcoded.
-// They should be stored securely, for example, as environment variables or in a secrets manager.
-export const BOB_API_KEY =
-  'fk_live_bob_3c7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d';
-export const ALICE_API_KEY =
-  'fk_live_alice_4d5e6f7g8h9i0j1k2l3m4n5o6p7q8r9s0t1u2v';
+// The defaults below are demo keys for local use; set BOB_API_KEY and
+// ALICE_API_KEY (or use a secrets manager) anywhere else. With NODE_ENV set
+// to production the server refuses to start with the demo keys.
+const config = loadConfig(
+  'apiKeyAuth',
+  {
+    port: port(8085),
+    bobApiKey: secret('fk_live_bob_3c7d8e9f0a1b2c3d4e5f6a7b8c9d0e1f2a3b4c5d'),
+    aliceApiKey: secret('fk_live_alice_4d5e6f7g8h9i0j1k2l3m4n5o6p7q8r9s0t1u2v'),
+  },
+  {
+    API_KEY_SERVER_PORT: 'port',
+    BOB_API_KEY: 'bobApiKey',
+    ALICE_API_KEY: 'aliceApiKey',
+  },
+);
+
+export const PORT = config.port;
+export const BOB_API_KEY = config.bobApiKey;
+export const ALICE_API_KEY = config.aliceApiKey;
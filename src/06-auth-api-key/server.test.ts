@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import { ALICE_API_KEY, BOB_API_KEY } from './constants';
+import { startServer } from './server';
+
+describe('API key authentication server', () => {
+  let server: TestServer;
+  let bob: TestClient;
+  let alice: TestClient;
+
+  beforeAll(async () => {
+    server = await startTestServer(startServer);
+    bob = await connectHttp(server.url, {
+      headers: { 'X-API-Key': BOB_API_KEY },
+    });
+    alice = await connectHttp(server.url, {
+      headers: { 'X-API-Key': ALICE_API_KEY },
+    });
+  });
+
+  afterAll(async () => {
+    await Promise.all([bob?.close(), alice?.close()]);
+    await server?.stop();
+  });
+
+  describe('authentication', () => {
+    it('rejects clients without an API key', async () => {
+      await expect(connectHttp(server.url)).rejects.toMatchObject({
+        code: 401,
+      });
+    });
+
+    it('rejects an invalid API key', async () => {
+      await expect(
+        connectHttp(server.url, { headers: { 'X-API-Key': 'not-a-key' } }),
+      ).rejects.toMatchObject({ code: 401 });
+    });
+
+    it('lists the tools to an authenticated client', async () => {
+      expect(await bob.listTools()).toEqual([
+        'getAuthenticatedUserTransactions',
+        'getLatestTransactions',
+        'getAccountBalance',
+        'transferFunds',
+      ]);
+    });
+  });
+
+  describe('getAuthenticatedUserTransactions', () => {
+    it("returns only the caller's transactions", async () => {
+      const result = await bob.callTool('getAuthenticatedUserTransactions');
+      const transactions = JSON.parse(result.text) as {
+        id: number;
+        from: string;
+        to: string;
+      }[];
+      expect(transactions.map(({ id }) => id)).toEqual([1, 3, 5, 6, 4]);
+      for (const { from, to } of transactions) {
+        expect([from, to]).toContain('bob');
+      }
+    });
+  });
+
+  describe('getLatestTransactions', () => {
+    it('returns the three newest transactions by default', async () => {
+      const result = await bob.callTool('getLatestTransactions');
+      const transactions = JSON.parse(result.text) as { date: string }[];
+      expect(transactions.map(({ date }) => date)).toEqual([
+        '2024-03-20',
+        '2024-03-19',
+        '2024-03-18',
+      ]);
+    });
+
+    it('accepts a limit', async () => {
+      const result = await alice.callTool('getLatestTransactions', {
+        limit: 1,
+      });
+      expect(JSON.parse(result.text)).toEqual([
+        { id: 7, from: 'charlie', to: 'alice', amount: 80, date: '2024-03-21' },
+      ]);
+    });
+
+    it('rejects a limit that is not a number', async () => {
+      await expect(
+        bob.callTool('getLatestTransactions', { limit: 'three' }),
+      ).rejects.toThrow(/limit/);
+    });
+  });
+
+  describe('getAccountBalance', () => {
+    it('adds received and subtracts sent amounts', async () => {
+      const bobBalance = await bob.callTool('getAccountBalance');
+      expect(JSON.parse(bobBalance.text)).toEqual({
+        username: 'bob',
+        balance: -200,
+      });
+
+      const aliceBalance = await alice.callTool('getAccountBalance');
+      expect(JSON.parse(aliceBalance.text)).toEqual({
+        username: 'alice',
+        balance: 180,
+      });
+    });
+  });
+
+  describe('transferFunds', () => {
+    it('transfers from the authenticated user', async () => {
+      const result = await alice.callTool('transferFunds', {
+        toUsername: 'bob',
+        amount: 25,
+      });
+      expect(JSON.parse(result.text)).toMatchObject({
+        success: true,
+        details: { from: 'alice', to: 'bob', amount: 25 },
+      });
+    });
+
+    it('rejects amounts that are not positive', async () => {
+      await expect(
+        bob.callTool('transferFunds', { toUsername: 'alice', amount: -5 }),
+      ).rejects.toThrow(/amount/);
+    });
+  });
+});
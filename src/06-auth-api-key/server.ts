@@ -1,5 +1,11 @@
 import { FastMCP } from 'fastmcp';
 import { z } from 'zod';
+import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { isMainModule, type RunningServer } from '../shared/main-module';
 import { BOB_API_KEY, ALICE_API_KEY, PORT } from './constants';
 
 interface Transaction {
@@ -83,191 +89,202 @@ const transactions: Transaction[] = [
   { id: 7, from: 'charlie', to: 'alice', amount: 80, date: '2024-03-21' },
 ];
 
-const server = new FastMCP({
-  name: 'payment-server',
-  version: '1.0.0',
-  instructions: `
+export async function startServer(port = PORT): Promise<RunningServer> {
+  const server = new FastMCP({
+    name: 'payment-server',
+    version: '1.0.0',
+    instructions: `
 This is a payment transaction server that manages user payment history.
   `.trim(),
-  authenticate: async (request) => {
-    const apiKey = request.headers['x-api-key'];
+    // Origin and Host are checked before the API key
+    authenticate: guardRequests(async (request) => {
+      const apiKey = request.headers['x-api-key'];
 
-    if (!apiKey || Array.isArray(apiKey)) {
-      throw new Response(null, {
-        status: 401,
-        statusText: 'Unauthorized - API key required in x-api-key header',
-      });
-    }
-
-    const auth = verifyApiKey(apiKey);
-    if (!auth.valid || !auth.user) {
-      throw new Response(null, {
-        status: 401,
-        statusText: auth.error || 'Invalid API key',
-      });
-    }
-
-    return {
-      userId: auth.user.userId,
-      username: auth.user.username,
-      role: auth.user.role,
-      apiKeyId: auth.user.id,
-      apiKeyName: auth.user.name,
-    } as ApiKeySession;
-  },
-});
-
-// Event handlers
-server.on('connect', (event) => {
-  console.log('Client connected:', event.session);
-});
+      if (!apiKey || Array.isArray(apiKey)) {
+        throw new Response(null, {
+          status: 401,
+          statusText: 'Unauthorized - API key required in x-api-key header',
+        });
+      }
 
-server.on('disconnect', (event) => {
-  console.log('Client disconnected:', event.session);
-});
+      const auth = verifyApiKey(apiKey);
+      if (!auth.valid || !auth.user) {
+        throw new Response(null, {
+          status: 401,
+          statusText: auth.error || 'Invalid API key',
+        });
+      }
 
-// Tool: Get all transactions
-server.addTool({
-  name: 'getAuthenticatedUserTransactions',
-  description:
-    'Get a list of all transactions for the authenticated user (both sent and received)',
-  parameters: z.object({}),
-  annotations: {
-    readOnlyHint: true,
-  },
-  execute: async (_, { session }) => {
-    if (!session) {
-      throw new Error('Authentication required');
-    }
+      return {
+        userId: auth.user.userId,
+        username: auth.user.username,
+        role: auth.user.role,
+        apiKeyId: auth.user.id,
+        apiKeyName: auth.user.name,
+      } as ApiKeySession;
+    }),
+  });
 
-    // Only return transactions related to the authenticated user
-    const userTransactions = transactions.filter(
-      (t) =>
-        t.from === session.username.toLowerCase() ||
-        t.to === session.username.toLowerCase(),
-    );
+  guardRoutes(server);
 
-    if (userTransactions.length === 0) {
-      throw new Error(`No transactions found for user ${session.username}`);
-    }
+  // Event handlers
+  server.on('connect', (event) => {
+    console.log('Client connected:', event.session);
+  });
 
-    return JSON.stringify(userTransactions, null, 2);
-  },
-});
+  server.on('disconnect', (event) => {
+    console.log('Client disconnected:', event.session);
+  });
 
-// Tool: Get latest transactions
-server.addTool({
-  name: 'getLatestTransactions',
-  description: 'Get the latest transactions for the authenticated user',
-  parameters: z.object({
-    limit: z
-      .number()
-      .optional()
-      .default(3)
-      .describe('Number of latest transactions to return'),
-  }),
-  annotations: {
-    readOnlyHint: true,
-  },
-  execute: async (args, { session }) => {
-    if (!session) {
-      throw new Error('Authentication required');
-    }
+  // Tool: Get all transactions
+  server.addTool({
+    name: 'getAuthenticatedUserTransactions',
+    description:
+      'Get a list of all transactions for the authenticated user (both sent and received)',
+    parameters: z.object({}),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async (_, { session }) => {
+      if (!session) {
+        throw new Error('Authentication required');
+      }
 
-    const userTransactions = transactions
-      .filter(
+      // Only return transactions related to the authenticated user
+      const userTransactions = transactions.filter(
         (t) =>
           t.from === session.username.toLowerCase() ||
           t.to === session.username.toLowerCase(),
-      )
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, args.limit);
+      );
 
-    if (userTransactions.length === 0) {
-      throw new Error(`No transactions found for user ${session.username}`);
-    }
+      if (userTransactions.length === 0) {
+        throw new Error(`No transactions found for user ${session.username}`);
+      }
 
-    return JSON.stringify(userTransactions, null, 2);
-  },
-});
+      return JSON.stringify(userTransactions, null, 2);
+    },
+  });
 
-// Add a new tool to get account balance
-server.addTool({
-  name: 'getAccountBalance',
-  description: 'Get the current account balance for the authenticated user',
-  parameters: z.object({}),
-  annotations: {
-    readOnlyHint: true,
-  },
-  execute: async (_, { session }) => {
-    if (!session) {
-      throw new Error('Authentication required');
-    }
+  // Tool: Get latest transactions
+  server.addTool({
+    name: 'getLatestTransactions',
+    description: 'Get the latest transactions for the authenticated user',
+    parameters: z.object({
+      limit: z
+        .number()
+        .optional()
+        .default(3)
+        .describe('Number of latest transactions to return'),
+    }),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async (args, { session }) => {
+      if (!session) {
+        throw new Error('Authentication required');
+      }
 
-    let balance = 0;
-    transactions.forEach((t) => {
-      if (t.from === session.username.toLowerCase()) {
-        balance -= t.amount; // Sent money (debit)
+      const userTransactions = transactions
+        .filter(
+          (t) =>
+            t.from === session.username.toLowerCase() ||
+            t.to === session.username.toLowerCase(),
+        )
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, args.limit);
+
+      if (userTransactions.length === 0) {
+        throw new Error(`No transactions found for user ${session.username}`);
       }
-      if (t.to === session.username.toLowerCase()) {
-        balance += t.amount; // Received money (credit)
+
+      return JSON.stringify(userTransactions, null, 2);
+    },
+  });
+
+  // Add a new tool to get account balance
+  server.addTool({
+    name: 'getAccountBalance',
+    description: 'Get the current account balance for the authenticated user',
+    parameters: z.object({}),
+    annotations: {
+      readOnlyHint: true,
+    },
+    execute: async (_, { session }) => {
+      if (!session) {
+        throw new Error('Authentication required');
       }
-    });
 
-    return JSON.stringify({ username: session.username, balance }, null, 2);
-  },
-});
+      let balance = 0;
+      transactions.forEach((t) => {
+        if (t.from === session.username.toLowerCase()) {
+          balance -= t.amount; // Sent money (debit)
+        }
+        if (t.to === session.username.toLowerCase()) {
+          balance += t.amount; // Received money (credit)
+        }
+      });
 
-// Tool: Transfer funds (Conceptual - does not modify data in this example)
-server.addTool({
-  name: 'transferFunds',
-  description: 'Transfer funds from the authenticated user to another user.',
-  parameters: z.object({
-    toUsername: z.string().describe('The username of the recipient.'),
-    amount: z.number().positive().describe('The amount to transfer.'),
-  }),
-  // No readOnlyHint, as this would be a write operation
-  execute: async (args, { session }) => {
-    if (!session) {
-      throw new Error('Authentication required');
-    }
+      return JSON.stringify({ username: session.username, balance }, null, 2);
+    },
+  });
 
-    // In a real application, you would:
-    // 1. Validate if session.username has sufficient funds.
-    // 2. Validate if args.toUsername is a valid user.
-    // 3. Create a new transaction record.
-    // 4. Update balances.
-    // 5. Potentially use a database transaction for atomicity.
+  // Tool: Transfer funds (Conceptual - does not modify data in this example)
+  server.addTool({
+    name: 'transferFunds',
+    description: 'Transfer funds from the authenticated user to another user.',
+    parameters: z.object({
+      toUsername: z.string().describe('The username of the recipient.'),
+      amount: z.number().positive().describe('The amount to transfer.'),
+    }),
+    // No readOnlyHint, as this would be a write operation
+    execute: async (args, { session }) => {
+      if (!session) {
+        throw new Error('Authentication required');
+      }
+
+      // In a real application, you would:
+      // 1. Validate if session.username has sufficient funds.
+      // 2. Validate if args.toUsername is a valid user.
+      // 3. Create a new transaction record.
+      // 4. Update balances.
+      // 5. Potentially use a database transaction for atomicity.
 
-    console.log(
-      `[Payment Server] Conceptual transferFunds call from ${session.username} to ${args.toUsername} for ${args.amount}`,
-    );
+      console.log(
+        `[Payment Server] Conceptual transferFunds call from ${session.username} to ${args.toUsername} for ${args.amount}`,
+      );
 
-    // For this example, we'll just return a success message.
-    return JSON.stringify(
-      {
-        success: true,
-        message: `Conceptual transfer of ${args.amount} from ${session.username} to ${args.toUsername} initiated.`,
-        details: {
-          from: session.username,
-          to: args.toUsername,
-          amount: args.amount,
-          status: 'conceptual_success',
+      // For this example, we'll just return a success message.
+      return JSON.stringify(
+        {
+          success: true,
+          message: `Conceptual transfer of ${args.amount} from ${session.username} to ${args.toUsername} initiated.`,
+          details: {
+            from: session.username,
+            to: args.toUsername,
+            amount: args.amount,
+            status: 'conceptual_success',
+          },
         },
-      },
-      null,
-      2,
-    );
-  },
-});
+        null,
+        2,
+      );
+    },
+  });
 
-// Start server with HTTP Stream transport
-server.start({
-  transportType: 'httpStream',
-  httpStream: {
-    port: PORT,
-  },
-});
+  // Start server with HTTP Stream transport
+  await server.start({
+    transportType: 'httpStream',
+    httpStream: {
+      port,
+      host: HTTP_SECURITY.host,
+    },
+  });
 
-console.log(`💰 Payment MCP Server running on port ${PORT}`);
-console.log(`📡 Connect via: http://localhost:${PORT}/stream`);
+  console.log(`💰 Payment MCP Server running on port ${port}`);
+  console.log(`📡 Connect via: http://localhost:${port}/stream`);
+  return { stop: () => server.stop() };
+}
+
+if (isMainModule(import.meta.url)) {
+  await startServer();
+}
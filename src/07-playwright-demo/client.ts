@@ -4,6 +4,7 @@ import {
 } from 'ai';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
 import { model } from '../model';
+import { cassetteTransport } from '../shared/cassette';
 
 async function main() {
   console.log('🎭 Using Playwright MCP to visit example.com\n');
@@ -12,10 +13,14 @@ async function main() {
     // Create MCP client for Playwright server
     console.log('Creating Playwright MCP client...');
     const playwrightClient = await createMCPClient({
-      transport: new StdioClientTransport({
-        command: 'npx',
-        args: ['@playwright/mcp@latest'],
-      }),
+      transport: cassetteTransport(
+        'playwright',
+        () =>
+          new StdioClientTransport({
+            command: 'npx',
+            args: ['@playwright/mcp@latest'],
+          }),
+      ),
     });
 
     console.log('Connected to Playwright MCP server ✓');
@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Client IDs issued by the server.
+ *
+ * A client that wants its history and preferences back on a later connection
+ * sends an `X-Client-Id` header. Anyone could send any header, so IDs are only
+ * accepted when the server issued them: an ID is a random UUID followed by an
+ * HMAC of it under the server's secret,
+ *
+ *   4f0c6d0e-...-9b1e.Zp3w...
+ *
+ * so it can be checked without keeping a list, and one client can't guess
+ * another's.
+ */
+
+const sign = (secret: string, id: string) =>
+  createHmac('sha256', secret).update(id).digest('base64url');
+
+export function createClientIds(secret: string) {
+  return {
+    /** The signed form of `id`, which the client sends back as X-Client-Id */
+    token(id: string) {
+      return `${id}.${sign(secret, id)}`;
+    },
+
+    /** The ID inside `token`, if the server issued it */
+    verify(token: string): string | undefined {
+      const [id, signature, ...rest] = token.split('.');
+      if (!id || !signature || rest.length > 0) {
+        return undefined;
+      }
+      const expected = Buffer.from(sign(secret, id));
+      const actual = Buffer.from(signature);
+      return actual.length === expected.length &&
+        timingSafeEqual(actual, expected)
+        ? id
+        : undefined;
+    },
+  };
+}
+
+export type ClientIds = ReturnType<typeof createClientIds>;
@@ -3,8 +3,15 @@ import {
   experimental_createMCPClient as createMCPClient,
   generateText,
 } from 'ai';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import {
+  LATEST_PROTOCOL_VERSION,
+  McpError,
+} from '@modelcontextprotocol/sdk/types';
+import { createProgressBar } from '../shared/progress-bar';
 import { PORT } from './constants';
+import { RATE_LIMITED, type RateLimitErrorData } from './rate-limit';
 
 async function testRemoteServer() {
   try {
@@ -12,9 +19,8 @@ async function testRemoteServer() {
 
     // Create MCP client with HTTP transport
     const url = new URL(`http://localhost:${PORT}/mcp`);
-    const mcpClient = await createMCPClient({
-      transport: new StreamableHTTPClientTransport(url),
-    });
+    const transport = createTransport(url);
+    const mcpClient = await createMCPClient({ transport });
 
     console.log('✅ Connected successfully!');
 
@@ -32,7 +38,7 @@ async function testRemoteServer() {
       'Show me my calculation history (limit 5)',
       'Set my preferences to 3 decimal places with history enabled',
       'What is 1 plus 3 with the new precision settings?',
-      'Show me the server statistics',
+      'Show me the server statistics, including how many sessions are active',
     ];
 
     for (const prompt of calculations) {
@@ -52,23 +58,252 @@ async function testRemoteServer() {
       }
     }
 
+    if (!clientId) {
+      // An ID from the server keeps this session's history for the next run
+      const issued = await tools.getClientId?.execute?.(
+        {},
+        { toolCallId: 'get-client-id', messages: [] },
+      );
+      const [content] =
+        (issued as { content?: { text: string }[] })?.content ?? [];
+      const id = content && /client ID is (\S+)\./.exec(content.text)?.[1];
+      if (id) {
+        console.log(
+          `\n🪪 Keep this history with: pnpm example:client:08 -- --client-id=${id}`,
+        );
+      }
+    }
+
     // Close the connection
+    // Ending the session lets the server discard its history and preferences
+    // straight away instead of waiting for it to expire
     console.log('\n🔌 Disconnecting from remote server...');
+    await transport.terminateSession();
     await mcpClient.close();
     console.log('✅ Disconnected successfully!');
+
+    await testLongRunningCalls(url);
+    await testResumableSession(url);
+    await testRateLimits(url);
   } catch (error) {
     console.error('❌ Error testing remote server:', error);
   }
 }
 
+// Progress notifications and cancellation need the MCP SDK client: the AI
+// SDK's MCP client doesn't expose them
+async function testLongRunningCalls(url: URL) {
+  console.log(
+    '\n⏳ Testing a long-running tool with progress and a timeout...',
+  );
+  const client = new Client({ name: 'remote-client', version: '1.0.0' });
+  const transport = createTransport(url);
+  await client.connect(transport);
+
+  const series = [
+    { to: 2_000_000, timeout: 30_000 },
+    { to: 1_000_000_000_000, timeout: 3000 }, // Cancelled by the timeout
+  ];
+  for (const { to, timeout } of series) {
+    const progressBar = createProgressBar(`sumSeries(1..${to})`);
+    try {
+      const result = await client.callTool(
+        { name: 'sumSeries', arguments: { to, power: 2 } },
+        undefined,
+        { onprogress: progressBar.update, timeout },
+      );
+      progressBar.done();
+      const [content] = result.content as { text: string }[];
+      console.log(`✅ ${content?.text}`);
+    } catch (error) {
+      progressBar.done();
+      console.log(
+        `⏹️  Cancelled after ${timeout}ms: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  await transport.terminateSession();
+  await client.close();
+}
+
+// Wraps fetch to simulate a flaky network: the response stream of the first
+// tool call is cut off after `dropAfterMs`. Reconnects are logged.
+function createFlakyFetch(dropAfterMs: number): typeof fetch {
+  let dropped = false;
+  return async (input, init) => {
+    const lastEventId = new Headers(init?.headers).get('last-event-id');
+    if (lastEventId) {
+      console.log(`\n🔌 Reconnecting with Last-Event-ID ${lastEventId}`);
+    }
+
+    const response = await fetch(input, init);
+    const isToolCallStream =
+      init?.method === 'POST' &&
+      String(init.body).includes('"tools/call"') &&
+      response.headers.get('content-type')?.includes('text/event-stream');
+    if (dropped || !isToolCallStream || !response.body) {
+      return response;
+    }
+
+    dropped = true;
+    const reader = response.body.getReader();
+    let timer: NodeJS.Timeout;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        timer = setTimeout(async () => {
+          console.log('\n📴 Simulating a dropped connection');
+          controller.error(new Error('Simulated network drop'));
+          await reader.cancel();
+        }, dropAfterMs);
+      },
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) {
+          clearTimeout(timer);
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+    });
+    return new Response(body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+}
+
+// The server keeps the messages it sends in an event store. When the
+// connection drops mid-call, the SDK client reconnects with Mcp-Session-Id
+// and Last-Event-ID and the server replays what was missed, so the call
+// still completes.
+async function testResumableSession(url: URL) {
+  console.log('\n🔁 Testing a resumable session with a dropped connection...');
+  const client = new Client({ name: 'remote-client', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(url, {
+    // An existing session ID makes the client rejoin that session instead of
+    // initializing a new one
+    sessionId,
+    fetch: createFlakyFetch(1000),
+    requestInit,
+  });
+  await client.connect(transport);
+  if (sessionId) {
+    // Rejoining skips initialize, where the protocol version is normally
+    // negotiated. Without it the server assumes an older protocol that has
+    // no resumable request streams.
+    transport.setProtocolVersion(LATEST_PROTOCOL_VERSION);
+  }
+  console.log(
+    `🏷️ ${sessionId ? 'Rejoined' : 'Started'} session ${transport.sessionId}`,
+  );
+
+  const progressBar = createProgressBar('sumSeries(1..10000000)');
+  try {
+    const result = await client.callTool(
+      { name: 'sumSeries', arguments: { to: 10_000_000, power: 2 } },
+      undefined,
+      { onprogress: progressBar.update, timeout: 60_000 },
+    );
+    progressBar.done();
+    const [content] = result.content as { text: string }[];
+    console.log(`✅ ${content?.text}`);
+
+    // The session is left open so it can be rejoined
+    console.log(
+      `💡 Rejoin this session with: pnpm example:client:08 -- --session-id=${transport.sessionId}`,
+    );
+  } catch (error) {
+    progressBar.done();
+    console.log(
+      `❌ ${error instanceof Error ? error.message : String(error)}${sessionId ? ' (has the session ended?)' : ''}`,
+    );
+  }
+  await client.close();
+}
+
+// Calls sumSeries until the server's per-tool rate limit rejects a call, then
+// shows the retry-after metadata from the JSON-RPC error
+async function testRateLimits(url: URL) {
+  console.log('\n🚦 Testing rate limits...');
+  const client = new Client({ name: 'remote-client', version: '1.0.0' });
+  const transport = createTransport(url);
+  await client.connect(transport);
+
+  for (let call = 1; call <= 20; call++) {
+    try {
+      await client.callTool({
+        name: 'sumSeries',
+        arguments: { to: 10 },
+      });
+      console.log(`✅ Call ${call} allowed`);
+    } catch (error) {
+      if (!(error instanceof McpError) || error.code !== RATE_LIMITED) {
+        throw error;
+      }
+      const data = error.data as RateLimitErrorData;
+      console.log(`🚫 Call ${call} rejected: ${error.message}`);
+      console.log(
+        `   Reason: ${data.reason}, retry after ${data.retryAfterSeconds}s`,
+      );
+      break;
+    }
+  }
+
+  const stats = await client.callTool({
+    name: 'getServerStats',
+    arguments: {},
+  });
+  const [content] = stats.content as { text: string }[];
+  const rateLimits = content?.text.slice(content.text.indexOf('- Rate limits'));
+  console.log(rateLimits);
+
+  await transport.terminateSession();
+  await client.close();
+}
+
 // Handle command line arguments for session ID
 const args = process.argv.slice(2);
 const sessionIdArg = args.find((arg) => arg.startsWith('--session-id='));
 const sessionId = sessionIdArg ? sessionIdArg.split('=')[1] : undefined;
 
+// Sent as X-API-Key; with the default rate limit scope the server counts calls
+// per API key instead of per IP address, for keys in its CALCULATOR_API_KEYS
+const apiKeyArg = args.find((arg) => arg.startsWith('--api-key='));
+const apiKey = apiKeyArg ? apiKeyArg.split('=')[1] : undefined;
+
+// With a client ID the server keeps history and preferences under that ID,
+// so they are still there on the next run, even after a server restart. The
+// server only accepts IDs it issued: its getClientId tool hands one out.
+const clientIdArg = args.find((arg) => arg.startsWith('--client-id='));
+const clientId = clientIdArg ? clientIdArg.split('=')[1] : undefined;
+
+const requestInit: RequestInit = {
+  headers: {
+    ...(clientId && { 'X-Client-Id': clientId }),
+    ...(apiKey && { 'X-API-Key': apiKey }),
+  },
+};
+
+// Used by the tests that start new sessions; --session-id only applies to
+// the resumable session test
+function createTransport(url: URL) {
+  return new StreamableHTTPClientTransport(url, {
+    requestInit,
+  });
+}
+
+if (clientId) {
+  console.log(`🪪 Using client ID: ${clientId}`);
+}
+
+if (apiKey) {
+  console.log('🔑 Using an API key');
+}
+
 if (sessionId) {
   console.log(`🏷️ Using session ID: ${sessionId}`);
-  // Note: Session ID would be passed via headers in a real implementation
 }
 
 console.log('🚀 Starting remote MCP client test...');
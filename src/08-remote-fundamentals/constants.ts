@@ -1 +1,79 @@
-export const PORT = 3008;
+import path from 'path';
+import { z } from 'zod';
+import { list, loadConfig, port, secret } from '../shared/config';
+import { RATE_LIMIT_SCOPES, type RateLimitConfig } from './rate-limit';
+import { STORAGE_BACKENDS } from './storage';
+
+const config = loadConfig(
+  'remote',
+  {
+    port: port(3008),
+    // Oldest entries are dropped once a session's history reaches this size
+    maxHistoryPerSession: z.coerce.number().int().positive().default(100),
+    // Messages kept for replay to clients that reconnect with Last-Event-ID
+    maxReplayEvents: z.coerce.number().int().positive().default(1000),
+    // Where session state is kept: "memory" (lost on restart), "json" or
+    // "sqlite"
+    storage: z.enum(STORAGE_BACKENDS).default('memory'),
+    storagePath: z.string().min(1).optional(),
+    // Signs the client IDs handed out by getClientId
+    clientIdSecret: secret('dev-client-id-secret-change-in-production'),
+    // State under a client ID that hasn't been used for this long is evicted
+    clientStateTtlDays: z.coerce.number().positive().default(30),
+    // Who counts as a client for rate limits: "session", "ip" or "api-key"
+    // (one of the API keys below in X-API-Key, or else the IP address)
+    rateLimitScope: z.enum(RATE_LIMIT_SCOPES).default('api-key'),
+    // API keys that get rate limits of their own
+    apiKeys: list([]),
+    dailyQuota: z.coerce.number().int().positive().default(1000),
+  },
+  {
+    CALCULATOR_PORT: 'port',
+    CALCULATOR_STORAGE: 'storage',
+    CALCULATOR_STORAGE_PATH: 'storagePath',
+    CALCULATOR_CLIENT_ID_SECRET: 'clientIdSecret',
+    CALCULATOR_CLIENT_STATE_TTL_DAYS: 'clientStateTtlDays',
+    CALCULATOR_RATE_LIMIT_SCOPE: 'rateLimitScope',
+    CALCULATOR_API_KEYS: 'apiKeys',
+    CALCULATOR_DAILY_QUOTA: 'dailyQuota',
+  },
+);
+
+export const PORT = config.port;
+
+export const MAX_HISTORY_PER_SESSION = config.maxHistoryPerSession;
+
+export const MAX_REPLAY_EVENTS = config.maxReplayEvents;
+
+export const STORAGE_BACKEND = config.storage;
+
+export const STORAGE_PATH =
+  config.storagePath ??
+  path.join(
+    '.data',
+    STORAGE_BACKEND === 'sqlite'
+      ? 'calculator-state.db'
+      : 'calculator-state.json',
+  );
+
+export const CLIENT_ID_SECRET = config.clientIdSecret;
+
+export const CLIENT_STATE_TTL_MS = config.clientStateTtlDays * 24 * 60 * 60_000;
+
+// How often state nobody can reach any more is looked for
+export const STATE_SWEEP_INTERVAL_MS = 60 * 60_000;
+
+// Tool call limits. Every client can make bursts of 30 calls, then one call
+// per second; sumSeries, which can keep a CPU busy for a long time, allows 5
+// calls and then one every 10 seconds. Usage is tracked for up to 10,000
+// clients at a time.
+export const RATE_LIMITS: RateLimitConfig = {
+  scope: config.rateLimitScope,
+  apiKeys: config.apiKeys,
+  client: { capacity: 30, refillPerSecond: 1 },
+  tools: {
+    sumSeries: { capacity: 5, refillPerSecond: 0.1 },
+  },
+  dailyQuota: config.dailyQuota,
+  maxClients: 10_000,
+};
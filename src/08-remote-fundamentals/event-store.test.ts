@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types';
+import { createEventStore } from './event-store';
+
+// Stands in for a session's HTTP transport: it stores what it sends on the
+// standalone GET stream, and replays when a request asks it to
+function createTransport(store: ReturnType<typeof createEventStore>) {
+  const eventIds: string[] = [];
+  const transport = {
+    eventIds,
+    send: async (message: JSONRPCMessage) => {
+      eventIds.push(await store.storeEvent('_GET_stream', message));
+    },
+    handleRequest: async (lastEventId: string) => {
+      const replayed: JSONRPCMessage[] = [];
+      const streamId = await store.replayEventsAfter(lastEventId, {
+        send: async (_eventId, message) => {
+          replayed.push(message);
+        },
+      });
+      return { streamId, replayed };
+    },
+    start: async () => {},
+    close: async () => {},
+  };
+  store.track(transport);
+  return transport;
+}
+
+const notification = (text: string): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  method: 'notifications/message',
+  params: { level: 'info', data: text },
+});
+
+describe('event store', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('replays only the events of the reconnecting session', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const store = createEventStore({ maxEvents: 100 });
+    const alice = createTransport(store);
+    const bob = createTransport(store);
+
+    await alice.send(notification('alice 1'));
+    await bob.send(notification('bob 1'));
+    await alice.send(notification('alice 2'));
+    await bob.send(notification('bob 2'));
+
+    const [aliceFirst] = alice.eventIds;
+    expect(await alice.handleRequest(aliceFirst!)).toEqual({
+      streamId: '_GET_stream',
+      replayed: [notification('alice 2')],
+    });
+    // Another session's event ID is unknown to bob
+    expect(await bob.handleRequest(aliceFirst!)).toEqual({
+      streamId: '',
+      replayed: [],
+    });
+    expect(store.stats()).toEqual({
+      bufferedEvents: 4,
+      replayedEvents: 1,
+      resumptions: 1,
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types';
+
+/**
+ * In-memory event store for resumable Streamable HTTP sessions.
+ *
+ * The transport stores every message it sends on an SSE stream here and
+ * tags it with the returned event ID. When a client reconnects with
+ * `Mcp-Session-Id` and `Last-Event-ID`, the messages after that event are
+ * replayed, so progress notifications and results sent while the client was
+ * away aren't lost. The oldest events are dropped once `maxEvents` is
+ * reached; a client that was gone for longer can't be fully caught up.
+ *
+ * One store serves every session, but stream IDs are only unique within a
+ * session: the standalone GET stream is `_GET_stream` in all of them. Every
+ * transport is passed to `track`, so the store knows which session is storing
+ * or replaying. Streams are kept apart per session, and a session can only
+ * resume from its own events.
+ */
+
+interface StoredEvent {
+  session: string;
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+export interface EventStoreStats {
+  /** Events currently held for replay */
+  bufferedEvents: number;
+  /** Events sent to clients on reconnect since the server started */
+  replayedEvents: number;
+  /** Reconnects with a Last-Event-ID since the server started */
+  resumptions: number;
+}
+
+// The session whose transport is running, while it uses the store
+const currentSession = new AsyncLocalStorage<string>();
+
+export function createEventStore({ maxEvents }: { maxEvents: number }) {
+  // Maps keep insertion order, so the first entry is always the oldest
+  const events = new Map<string, StoredEvent>();
+  const eventIdsByStream = new Map<string, string[]>();
+  let replayedEvents = 0;
+  let resumptions = 0;
+
+  const streamKey = ({ session, streamId }: StoredEvent) =>
+    `${session}/${streamId}`;
+
+  // An event is only visible to the session that stored it
+  const eventFor = (eventId: string) => {
+    const event = events.get(eventId);
+    return event?.session === currentSession.getStore() ? event : undefined;
+  };
+
+  const dropOldest = () => {
+    const [eventId, event] = events.entries().next().value!;
+    events.delete(eventId);
+    const streamEvents = eventIdsByStream.get(streamKey(event));
+    streamEvents?.shift();
+    if (streamEvents?.length === 0) {
+      eventIdsByStream.delete(streamKey(event));
+    }
+  };
+
+  const store: EventStore = {
+    storeEvent: async (streamId, message) => {
+      const eventId = `${streamId}_${randomUUID()}`;
+      const event = {
+        session: currentSession.getStore() ?? '',
+        streamId,
+        message,
+      };
+      events.set(eventId, event);
+      const streamEvents = eventIdsByStream.get(streamKey(event)) ?? [];
+      streamEvents.push(eventId);
+      eventIdsByStream.set(streamKey(event), streamEvents);
+      if (events.size > maxEvents) {
+        dropOldest();
+      }
+      return eventId;
+    },
+
+    getStreamIdForEventId: async (eventId) => eventFor(eventId)?.streamId,
+
+    replayEventsAfter: async (lastEventId, { send }) => {
+      const lastEvent = eventFor(lastEventId);
+      if (!lastEvent) {
+        return '';
+      }
+      resumptions++;
+      const streamEvents = eventIdsByStream.get(streamKey(lastEvent)) ?? [];
+      const missed = streamEvents.slice(streamEvents.indexOf(lastEventId) + 1);
+      for (const eventId of missed) {
+        await send(eventId, events.get(eventId)!.message);
+        replayedEvents++;
+      }
+      console.log(
+        `🔁 Replayed ${missed.length} event(s) after ${lastEventId} on stream ${lastEvent.streamId}`,
+      );
+      return lastEvent.streamId;
+    },
+  };
+
+  const stats = (): EventStoreStats => ({
+    bufferedEvents: events.size,
+    replayedEvents,
+    resumptions,
+  });
+
+  /**
+   * Runs everything `transport` does with the store as its own session: the
+   * messages it sends and, for HTTP transports, the requests it handles
+   * (which store priming events and replay). Call it once per transport,
+   * before it is used.
+   */
+  const track = (
+    transport: Transport & { handleRequest?: (...args: never[]) => unknown },
+  ) => {
+    const session = randomUUID();
+    const inSession =
+      <A extends unknown[], R>(method: (...args: A) => R) =>
+      (...args: A) =>
+        currentSession.run(session, () => method(...args));
+
+    transport.send = inSession(transport.send.bind(transport));
+    if (transport.handleRequest) {
+      transport.handleRequest = inSession(
+        transport.handleRequest.bind(transport),
+      );
+    }
+  };
+
+  return { ...store, stats, track };
+}
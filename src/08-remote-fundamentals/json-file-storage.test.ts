@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJsonFileStorage } from './json-file-storage';
+
+describe('JSON file storage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'calculator-state-'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('skips damaged sessions and history entries when loading', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const file = path.join(directory, 'state.json');
+    const preferences = {
+      decimalPlaces: 2,
+      showHistory: true,
+      precision: 'float',
+      rounding: 'half-even',
+    };
+    const timestamp = new Date().toISOString();
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        'session:good': {
+          // Infinity is written to JSON as null
+          history: [
+            { operation: 'overflow', result: null, timestamp },
+            { operation: '1 + 1', result: 2, timestamp },
+          ],
+          preferences,
+          totalCalculations: 2,
+          createdAt: timestamp,
+          lastActiveAt: timestamp,
+        },
+        'session:bad': { history: 'not a list' },
+      }),
+    );
+
+    const storage = await createJsonFileStorage(file);
+    const entries = await storage.entries();
+    expect(entries.map(([key]) => key)).toEqual(['session:good']);
+    expect(entries[0]?.[1].history).toMatchObject([{ operation: '1 + 1' }]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    await storage.close();
+  });
+});
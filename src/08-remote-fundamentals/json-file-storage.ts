@@ -0,0 +1,140 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { PRECISION_MODES, ROUNDING_MODES } from '../shared/decimal';
+import type { SessionState } from './sessions';
+import type { SessionStorage } from './storage';
+
+/**
+ * Keeps every session in one JSON file.
+ *
+ * The file is read once at startup and rewritten after each change. Writes
+ * go to a temporary file that is then renamed over the original, so a crash
+ * mid-write never leaves a truncated file behind. Fine for a demo or a single
+ * small server; use SQLite when there are many sessions.
+ */
+
+const historyEntrySchema = z.object({
+  operation: z.string(),
+  result: z.number(),
+  exactResult: z.string().optional(),
+  timestamp: z.coerce.date(),
+});
+
+const sessionStateSchema = z.object({
+  // Entries are checked one by one, so a bad one only loses itself
+  history: z.array(z.unknown()),
+  preferences: z.object({
+    decimalPlaces: z.number(),
+    showHistory: z.boolean(),
+    precision: z.enum(PRECISION_MODES),
+    rounding: z.enum(ROUNDING_MODES),
+  }),
+  totalCalculations: z.number(),
+  createdAt: z.coerce.date(),
+  lastActiveAt: z.coerce.date(),
+});
+
+const stateFileSchema = z.record(z.unknown());
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    .join('; ');
+
+/**
+ * Reads one session, leaving out history entries that don't parse. Returns
+ * what was wrong alongside.
+ */
+function parseSession(value: unknown): {
+  state?: SessionState;
+  problems: string[];
+} {
+  const parsed = sessionStateSchema.safeParse(value);
+  if (!parsed.success) {
+    return { problems: [describeIssues(parsed.error)] };
+  }
+  const problems: string[] = [];
+  const history: SessionState['history'] = [];
+  for (const [index, entry] of parsed.data.history.entries()) {
+    const parsedEntry = historyEntrySchema.safeParse(entry);
+    if (parsedEntry.success) {
+      history.push(parsedEntry.data);
+    } else {
+      problems.push(`history.${index}: ${describeIssues(parsedEntry.error)}`);
+    }
+  }
+  return { state: { ...parsed.data, history }, problems };
+}
+
+async function readStateFile(file: string): Promise<Map<string, SessionState>> {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Map();
+    }
+    throw new Error(
+      `Could not read calculator state from ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const parsed = stateFileSchema.safeParse(contents);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid calculator state file ${file}: ${describeIssues(parsed.error)}`,
+    );
+  }
+
+  // A damaged session or entry is skipped rather than stopping the server
+  const sessions = new Map<string, SessionState>();
+  for (const [key, value] of Object.entries(parsed.data)) {
+    const { state, problems } = parseSession(value);
+    if (state) {
+      sessions.set(key, state);
+    }
+    for (const problem of problems) {
+      console.warn(
+        `⚠️  Skipped invalid calculator state in ${file}: ${key}${state ? '.' : ': '}${problem}`,
+      );
+    }
+  }
+  return sessions;
+}
+
+export async function createJsonFileStorage(
+  file: string,
+): Promise<SessionStorage> {
+  const sessions = await readStateFile(file);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  // Writes are chained so they land in order and never overlap. A failed
+  // write is reported to its caller without blocking the ones after it.
+  let pending = Promise.resolve();
+  const flush = () => {
+    const snapshot = JSON.stringify(Object.fromEntries(sessions), null, 2);
+    const write = pending.then(async () => {
+      const temporary = `${file}.tmp`;
+      await fs.writeFile(temporary, snapshot);
+      await fs.rename(temporary, file);
+    });
+    pending = write.catch(() => {});
+    return write;
+  };
+
+  return {
+    load: async (key) => sessions.get(key),
+    save: async (key, state) => {
+      sessions.set(key, state);
+      await flush();
+    },
+    delete: async (key) => {
+      if (sessions.delete(key)) {
+        await flush();
+      }
+    },
+    entries: async () => [...sessions],
+    close: () => pending,
+  };
+}
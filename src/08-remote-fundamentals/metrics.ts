@@ -0,0 +1,220 @@
+import type { ToolCallMiddleware } from '../shared/tool-call-middleware';
+
+/**
+ * Tool call metrics for the remote server.
+ *
+ * A `tools/call` middleware times every call and counts failures (thrown
+ * errors and `isError` results). The same numbers feed the Prometheus
+ * `/metrics` endpoint and the `getServerStats` tool, so the two never
+ * disagree.
+ *
+ * The tool name comes from the client, so only registered names become
+ * labels. Calls to any other name are counted under `unknown`; otherwise a
+ * client could add a time series per made-up name.
+ */
+
+const UNKNOWN_TOOL = 'unknown';
+
+// Upper bounds in seconds. Long-running tools such as sumSeries can take far
+// longer than a normal calculation, hence the wide range.
+const LATENCY_BUCKETS = [
+  0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60,
+];
+
+interface ToolMetrics {
+  calls: number;
+  errors: number;
+  durationSeconds: number;
+  maxDurationSeconds: number;
+  /** Calls per latency bucket (not cumulative); the last slot is +Inf */
+  buckets: number[];
+}
+
+export interface ToolStats {
+  tool: string;
+  calls: number;
+  errors: number;
+  /** Errors as a fraction of calls */
+  errorRate: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+/** Values tracked elsewhere in the server, read when metrics are rendered */
+export interface ServerValues {
+  activeSessions: number;
+  storedSessions: number;
+  storedCalculations: number;
+  bufferedEvents: number;
+  replayedEvents: number;
+  resumptions: number;
+  rateLimitedCalls: number;
+}
+
+const escapeLabel = (value: string) =>
+  value
+    .replaceAll('\\', String.raw`\\`)
+    .replaceAll('"', String.raw`\"`)
+    .replaceAll('\n', String.raw`\n`);
+
+export function createMetrics() {
+  const tools = new Map<string, ToolMetrics>();
+
+  const record = (tool: string, seconds: number, failed: boolean) => {
+    let metrics = tools.get(tool);
+    if (!metrics) {
+      metrics = {
+        calls: 0,
+        errors: 0,
+        durationSeconds: 0,
+        maxDurationSeconds: 0,
+        buckets: Array.from({ length: LATENCY_BUCKETS.length + 1 }, () => 0),
+      };
+      tools.set(tool, metrics);
+    }
+    metrics.calls++;
+    if (failed) {
+      metrics.errors++;
+    }
+    metrics.durationSeconds += seconds;
+    metrics.maxDurationSeconds = Math.max(metrics.maxDurationSeconds, seconds);
+    const bucket = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+    metrics.buckets[bucket === -1 ? LATENCY_BUCKETS.length : bucket]!++;
+  };
+
+  /**
+   * Times each tool call. Add it before other middleware to time those too.
+   * `isTool` says whether a name is registered.
+   */
+  const middleware =
+    (isTool: (name: string) => boolean): ToolCallMiddleware =>
+    async (request, _extra, next) => {
+      const started = performance.now();
+      let failed = true;
+      try {
+        const result = await next();
+        failed = result.isError === true;
+        return result;
+      } finally {
+        const { name } = request.params;
+        record(
+          isTool(name) ? name : UNKNOWN_TOOL,
+          (performance.now() - started) / 1000,
+          failed,
+        );
+      }
+    };
+
+  const toolStats = (): ToolStats[] =>
+    [...tools]
+      .map(([tool, metrics]) => ({
+        tool,
+        calls: metrics.calls,
+        errors: metrics.errors,
+        errorRate: metrics.errors / metrics.calls,
+        averageMs: (metrics.durationSeconds / metrics.calls) * 1000,
+        maxMs: metrics.maxDurationSeconds * 1000,
+      }))
+      .sort((a, b) => a.tool.localeCompare(b.tool));
+
+  /** Renders everything in the Prometheus text exposition format. */
+  const prometheus = (values: ServerValues): string => {
+    const lines: string[] = [];
+    const metric = (
+      name: string,
+      type: 'counter' | 'gauge' | 'histogram',
+      help: string,
+      samples: string[],
+    ) => {
+      lines.push(
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} ${type}`,
+        ...samples,
+      );
+    };
+    const entries = [...tools].map(
+      ([tool, metrics]) => [`tool="${escapeLabel(tool)}"`, metrics] as const,
+    );
+
+    metric(
+      'mcp_tool_calls_total',
+      'counter',
+      'Tool calls, by tool and outcome.',
+      entries.flatMap(([label, metrics]) => [
+        `mcp_tool_calls_total{${label},outcome="success"} ${metrics.calls - metrics.errors}`,
+        `mcp_tool_calls_total{${label},outcome="error"} ${metrics.errors}`,
+      ]),
+    );
+    metric(
+      'mcp_tool_call_duration_seconds',
+      'histogram',
+      'Tool call latency in seconds, by tool.',
+      entries.flatMap(([label, metrics]) => {
+        let cumulative = 0;
+        const buckets = [...LATENCY_BUCKETS, '+Inf'].map((bound, index) => {
+          cumulative += metrics.buckets[index]!;
+          return `mcp_tool_call_duration_seconds_bucket{${label},le="${bound}"} ${cumulative}`;
+        });
+        return [
+          ...buckets,
+          `mcp_tool_call_duration_seconds_sum{${label}} ${metrics.durationSeconds}`,
+          `mcp_tool_call_duration_seconds_count{${label}} ${metrics.calls}`,
+        ];
+      }),
+    );
+    metric('mcp_active_sessions', 'gauge', 'Connected MCP sessions.', [
+      `mcp_active_sessions ${values.activeSessions}`,
+    ]);
+    metric(
+      'calculator_stored_sessions',
+      'gauge',
+      'Sessions with stored history or preferences.',
+      [`calculator_stored_sessions ${values.storedSessions}`],
+    );
+    metric(
+      'calculator_stored_calculations',
+      'gauge',
+      'History entries held across all sessions.',
+      [`calculator_stored_calculations ${values.storedCalculations}`],
+    );
+    metric(
+      'mcp_event_store_events',
+      'gauge',
+      'Events held for replay to reconnecting clients.',
+      [`mcp_event_store_events ${values.bufferedEvents}`],
+    );
+    metric(
+      'mcp_replayed_events_total',
+      'counter',
+      'Events replayed to clients that reconnected with Last-Event-ID.',
+      [`mcp_replayed_events_total ${values.replayedEvents}`],
+    );
+    metric(
+      'mcp_resumptions_total',
+      'counter',
+      'Reconnects that resumed a stream with Last-Event-ID.',
+      [`mcp_resumptions_total ${values.resumptions}`],
+    );
+    metric(
+      'mcp_rate_limited_calls_total',
+      'counter',
+      'Tool calls rejected by a rate limit or daily quota.',
+      [`mcp_rate_limited_calls_total ${values.rateLimitedCalls}`],
+    );
+    metric(
+      'process_uptime_seconds',
+      'gauge',
+      'Seconds since the server process started.',
+      [`process_uptime_seconds ${process.uptime()}`],
+    );
+    metric('process_heap_used_bytes', 'gauge', 'V8 heap in use.', [
+      `process_heap_used_bytes ${process.memoryUsage().heapUsed}`,
+    ]);
+
+    return `${lines.join('\n')}\n`;
+  };
+
+  return { middleware, toolStats, prometheus };
+}
+
+export type Metrics = ReturnType<typeof createMetrics>;
@@ -0,0 +1,91 @@
+import type { IncomingMessage } from 'http';
+import { describe, expect, it } from 'vitest';
+import type {
+  ToolCallExtra,
+  ToolCallMiddleware,
+} from '../shared/tool-call-middleware';
+import {
+  createRateLimiter,
+  RATE_LIMITED,
+  type RateLimitConfig,
+} from './rate-limit';
+
+const config = (overrides: Partial<RateLimitConfig>): RateLimitConfig => ({
+  scope: 'api-key',
+  apiKeys: [],
+  client: { capacity: 2, refillPerSecond: 0.001 },
+  tools: {},
+  dailyQuota: 100,
+  maxClients: 100,
+  ...overrides,
+});
+
+// The parts of an HTTP request the rate limiter reads
+const request = (
+  sessionId: string,
+  ip: string,
+  headers: Record<string, string> = {},
+) =>
+  ({
+    headers: { 'mcp-session-id': sessionId, ...headers },
+    socket: { remoteAddress: ip },
+  }) as unknown as IncomingMessage;
+
+const call = (middleware: ToolCallMiddleware, sessionId: string) =>
+  middleware(
+    { method: 'tools/call', params: { name: 'add' } },
+    { sessionId } as ToolCallExtra,
+    async () => ({ content: [] }),
+  );
+
+describe('rate limiter', () => {
+  it('only counts configured API keys on their own', () => {
+    const limiter = createRateLimiter(config({ apiKeys: ['known'] }));
+    limiter.identify(request('a', '10.0.0.1', { 'x-api-key': 'known' }));
+    limiter.identify(request('b', '10.0.0.1', { 'x-api-key': 'made-up' }));
+    limiter.identify(request('c', '10.0.0.1'));
+
+    expect(limiter.clientOf('a')).toMatch(/^key:/);
+    expect(limiter.clientOf('b')).toBe('ip:10.0.0.1');
+    expect(limiter.clientOf('c')).toBe('ip:10.0.0.1');
+  });
+
+  it('keeps usage when a session ends', async () => {
+    const limiter = createRateLimiter(config({ scope: 'ip' }));
+    const middleware = limiter.middleware();
+    limiter.identify(request('first', '10.0.0.1'));
+    await call(middleware, 'first');
+    await call(middleware, 'first');
+    limiter.forget('first');
+
+    limiter.identify(request('second', '10.0.0.1'));
+    await expect(call(middleware, 'second')).rejects.toMatchObject({
+      code: RATE_LIMITED,
+    });
+    expect(limiter.usage('ip:10.0.0.1')).toMatchObject({
+      callsToday: 2,
+      rejectedCalls: 1,
+    });
+  });
+
+  it('forgets the least recently seen client when full', async () => {
+    const limiter = createRateLimiter(config({ scope: 'ip', maxClients: 2 }));
+    const middleware = limiter.middleware();
+    for (const [session, ip] of [
+      ['a', '10.0.0.1'],
+      ['b', '10.0.0.2'],
+      ['c', '10.0.0.3'],
+    ]) {
+      limiter.identify(request(session!, ip!));
+    }
+    await call(middleware, 'a');
+    await call(middleware, 'b');
+    await call(middleware, 'a');
+    await call(middleware, 'c');
+
+    expect(limiter.clients()).toBe(2);
+    expect(limiter.usage('ip:10.0.0.1')).toBeDefined();
+    expect(limiter.usage('ip:10.0.0.2')).toBeUndefined();
+    expect(limiter.usage('ip:10.0.0.3')).toBeDefined();
+  });
+});
@@ -0,0 +1,316 @@
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { McpError } from '@modelcontextprotocol/sdk/types';
+import type { ToolCallMiddleware } from '../shared/tool-call-middleware';
+
+/**
+ * Token-bucket rate limiting and daily quotas for tool calls.
+ *
+ * Each client has a bucket that holds up to `capacity` tokens and refills at
+ * `refillPerSecond`; every tool call takes one. Expensive tools can have a
+ * bucket of their own on top, and every client has a daily call quota that
+ * resets at midnight UTC. A call that would go over any limit is rejected with
+ * a JSON-RPC error whose `data` says which limit was hit and when to retry.
+ *
+ * Who counts as "a client" is set by the scope: each MCP session, each IP
+ * address, or each API key (sent as `X-API-Key`). Anyone can send any header,
+ * so only the keys in `apiKeys` count; a client with no key or another key is
+ * counted by its IP address, and can't get a fresh bucket by making up keys.
+ *
+ * Usage is kept when a session ends, so reconnecting doesn't reset a quota.
+ * Clients whose usage no longer matters (full buckets, nothing used today)
+ * are dropped once `maxClients` are tracked, and the least recently seen
+ * after them, so the table can't grow without bound.
+ */
+
+export const RATE_LIMIT_SCOPES = ['session', 'ip', 'api-key'] as const;
+export type RateLimitScope = (typeof RATE_LIMIT_SCOPES)[number];
+
+/** Error code for rejected calls, from the range JSON-RPC leaves to servers */
+export const RATE_LIMITED = -32_029;
+
+export interface BucketConfig {
+  /** Calls that can be made in a burst */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface RateLimitConfig {
+  scope: RateLimitScope;
+  /** API keys that are counted on their own in the `api-key` scope */
+  apiKeys: string[];
+  client: BucketConfig;
+  /** Additional per-client limits for individual tools */
+  tools: Record<string, BucketConfig>;
+  /** Tool calls per client per UTC day */
+  dailyQuota: number;
+  /** Clients tracked at once */
+  maxClients: number;
+}
+
+export type RateLimitReason = 'rate' | 'tool-rate' | 'daily-quota';
+
+/** The `data` of a rate-limit error */
+export interface RateLimitErrorData {
+  reason: RateLimitReason;
+  tool: string;
+  retryAfterSeconds: number;
+}
+
+export interface ClientUsage {
+  client: string;
+  callsToday: number;
+  dailyQuota: number;
+  /** Calls the client can still make in a burst */
+  tokensLeft: number;
+  rejectedCalls: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface ClientState {
+  bucket: Bucket;
+  toolBuckets: Map<string, Bucket>;
+  day: string;
+  callsToday: number;
+  rejectedCalls: number;
+}
+
+const today = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const secondsUntilMidnightUtc = (now: number) => {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+};
+
+const fullBucket = (config: BucketConfig, now: number): Bucket => ({
+  tokens: config.capacity,
+  updatedAt: now,
+});
+
+const refill = (bucket: Bucket, config: BucketConfig, now: number) => {
+  const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(
+    config.capacity,
+    bucket.tokens + elapsedSeconds * config.refillPerSecond,
+  );
+  bucket.updatedAt = now;
+};
+
+/** Seconds until the bucket has a whole token again (0 if it has one now) */
+const waitFor = (bucket: Bucket, config: BucketConfig) =>
+  bucket.tokens >= 1
+    ? 0
+    : Math.ceil((1 - bucket.tokens) / config.refillPerSecond);
+
+// API keys are hashed so they never show up in statistics or logs
+const hashKey = (apiKey: string) =>
+  createHash('sha256').update(apiKey).digest('hex').slice(0, 12);
+
+export function createRateLimiter(config: RateLimitConfig) {
+  const apiKeys = new Set(config.apiKeys);
+  // Kept in order of last use, least recent first
+  const clients = new Map<string, ClientState>();
+  // MCP session ID -> the client its calls are counted against
+  const clientsBySession = new Map<string, string>();
+  let rejectedCalls = 0;
+
+  const clientFor = (request: IncomingMessage, sessionId: string) => {
+    const ip = request.socket.remoteAddress ?? 'unknown';
+    const apiKey = request.headers['x-api-key'];
+    switch (config.scope) {
+      case 'session': {
+        return `session:${sessionId}`;
+      }
+      case 'ip': {
+        return `ip:${ip}`;
+      }
+      case 'api-key': {
+        return typeof apiKey === 'string' && apiKeys.has(apiKey)
+          ? `key:${hashKey(apiKey)}`
+          : `ip:${ip}`;
+      }
+    }
+  };
+
+  // Starts a new day and refills the buckets for the time that has passed
+  const catchUp = (state: ClientState, now: number) => {
+    if (state.day !== today(now)) {
+      state.day = today(now);
+      state.callsToday = 0;
+    }
+    refill(state.bucket, config.client, now);
+    for (const [tool, bucket] of state.toolBuckets) {
+      refill(bucket, config.tools[tool]!, now);
+    }
+  };
+
+  // A client in this state would be no better off starting over
+  const atRest = (state: ClientState) =>
+    state.callsToday === 0 &&
+    state.bucket.tokens >= config.client.capacity &&
+    [...state.toolBuckets].every(
+      ([tool, bucket]) => bucket.tokens >= config.tools[tool]!.capacity,
+    );
+
+  const makeRoom = (now: number) => {
+    for (const [client, state] of clients) {
+      catchUp(state, now);
+      if (atRest(state)) {
+        clients.delete(client);
+      }
+    }
+    while (clients.size >= config.maxClients) {
+      clients.delete(clients.keys().next().value!);
+    }
+  };
+
+  const stateFor = (client: string, now: number) => {
+    let state = clients.get(client);
+    if (state) {
+      // Moved to the end, as the most recently seen
+      clients.delete(client);
+    } else {
+      if (clients.size >= config.maxClients) {
+        makeRoom(now);
+      }
+      state = {
+        bucket: fullBucket(config.client, now),
+        toolBuckets: new Map(),
+        day: today(now),
+        callsToday: 0,
+        rejectedCalls: 0,
+      };
+    }
+    clients.set(client, state);
+    catchUp(state, now);
+    return state;
+  };
+
+  /**
+   * Remembers which client an MCP session belongs to. Call it from
+   * `authenticate`, which sees every HTTP request (and so the IP address and
+   * headers) before the session handles it.
+   */
+  const identify = (request: IncomingMessage) => {
+    const sessionId = request.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      clientsBySession.set(sessionId, clientFor(request, sessionId));
+    }
+  };
+
+  /**
+   * Forgets which client an ended session belonged to. The client's usage is
+   * kept, so ending a session doesn't give back its calls.
+   */
+  const forget = (sessionId: string) => {
+    clientsBySession.delete(sessionId);
+  };
+
+  const clientOf = (sessionId: string | undefined) =>
+    (sessionId && clientsBySession.get(sessionId)) ?? 'unknown';
+
+  const reject = (
+    state: ClientState,
+    data: RateLimitErrorData,
+    message: string,
+  ): never => {
+    state.rejectedCalls++;
+    rejectedCalls++;
+    throw new McpError(
+      RATE_LIMITED,
+      `${message}. Retry after ${data.retryAfterSeconds}s.`,
+      data,
+    );
+  };
+
+  /** Rejects tool calls over any limit before they reach the tool. */
+  const middleware = (): ToolCallMiddleware => async (request, extra, next) => {
+    const now = Date.now();
+    const tool = request.params.name;
+    const client = clientOf(extra.sessionId);
+    const state = stateFor(client, now);
+
+    // All limits are checked before any token is taken, so a rejected call
+    // doesn't use up the others
+    if (state.callsToday >= config.dailyQuota) {
+      reject(
+        state,
+        {
+          reason: 'daily-quota',
+          tool,
+          retryAfterSeconds: secondsUntilMidnightUtc(now),
+        },
+        `Daily quota of ${config.dailyQuota} tool calls used up`,
+      );
+    }
+    const clientWait = waitFor(state.bucket, config.client);
+    if (clientWait > 0) {
+      reject(
+        state,
+        { reason: 'rate', tool, retryAfterSeconds: clientWait },
+        `Rate limit of ${config.client.capacity} calls (refilling ${config.client.refillPerSecond}/s) exceeded`,
+      );
+    }
+    const toolConfig = config.tools[tool];
+    let toolBucket: Bucket | undefined;
+    if (toolConfig) {
+      toolBucket = state.toolBuckets.get(tool) ?? fullBucket(toolConfig, now);
+      state.toolBuckets.set(tool, toolBucket);
+      refill(toolBucket, toolConfig, now);
+      const toolWait = waitFor(toolBucket, toolConfig);
+      if (toolWait > 0) {
+        reject(
+          state,
+          { reason: 'tool-rate', tool, retryAfterSeconds: toolWait },
+          `Rate limit for ${tool} of ${toolConfig.capacity} calls (refilling ${toolConfig.refillPerSecond}/s) exceeded`,
+        );
+      }
+    }
+
+    state.bucket.tokens--;
+    if (toolBucket) {
+      toolBucket.tokens--;
+    }
+    state.callsToday++;
+    return next();
+  };
+
+  /**
+   * The usage of one client, e.g. `clientOf(sessionId)`. There is no list of
+   * all clients: a client name is an IP address or stands for an API key,
+   * which other callers have no business seeing.
+   */
+  const usage = (client: string): ClientUsage | undefined => {
+    const state = clients.get(client);
+    if (!state) {
+      return undefined;
+    }
+    catchUp(state, Date.now());
+    return {
+      client,
+      callsToday: state.callsToday,
+      dailyQuota: config.dailyQuota,
+      tokensLeft: Math.floor(state.bucket.tokens),
+      rejectedCalls: state.rejectedCalls,
+    };
+  };
+
+  return {
+    identify,
+    forget,
+    clientOf,
+    middleware,
+    usage,
+    /** Clients tracked now */
+    clients: () => clients.size,
+    rejectedCalls: () => rejectedCalls,
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
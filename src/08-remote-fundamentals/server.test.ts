@@ -0,0 +1,289 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import { RATE_LIMITED } from './rate-limit';
+
+/** Calls a tool and returns its text */
+const callText = async (
+  client: TestClient,
+  name: string,
+  args: Record<string, unknown> = {},
+) => {
+  const result = await client.callTool(name, args);
+  return result.text;
+};
+
+describe('remote calculator server', () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  // Rate limits are counted per API key, so each client gets its own. The
+  // server only counts keys it was configured with.
+  const API_KEYS = [
+    'calculations',
+    'session-state',
+    'client-id',
+    'rate-limited',
+  ];
+  const connect = (apiKey: string, headers: Record<string, string> = {}) =>
+    connectHttp(server.url, {
+      headers: { 'X-API-Key': apiKey, ...headers },
+    });
+
+  beforeAll(async () => {
+    // The config is read when the module loads
+    vi.stubEnv('CALCULATOR_API_KEYS', API_KEYS.join(','));
+    const { startServer } = await import('./server');
+    server = await startTestServer(startServer);
+    client = await connect('calculations');
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+  });
+
+  describe('calculations', () => {
+    it('adds and multiplies with the default two decimal places', async () => {
+      expect(await callText(client, 'add', { a: 5, b: 3 })).toBe(
+        '5 + 3 = 8.00',
+      );
+      expect(await callText(client, 'multiply', { a: 2, b: 2.5 })).toBe(
+        '2 × 2.5 = 5.00',
+      );
+    });
+
+    it('calculates exactly in decimal mode', async () => {
+      const { text } = await client.callTool('add', {
+        a: '0.1',
+        b: '0.2',
+        precision: 'decimal',
+      });
+      expect(text).toBe('0.1 + 0.2 = 0.30');
+    });
+
+    it('only takes whole numbers of decimal places', async () => {
+      await expect(
+        client.callTool('setPreferences', { decimalPlaces: 2.5 }),
+      ).rejects.toThrow(/decimalPlaces: Expected integer/);
+    });
+
+    it('rejects results too large to represent', async () => {
+      expect(
+        await client.callTool('add', { a: 1e308, b: 1e308 }),
+      ).toMatchObject({
+        isError: true,
+        text: 'The result of add is too large to represent',
+      });
+      const { text } = await client.callTool('multiply', {
+        a: `1${'0'.repeat(200)}`,
+        b: `1${'0'.repeat(200)}`,
+        precision: 'decimal',
+      });
+      expect(text).toBe('The result of multiply is too large to represent');
+    });
+
+    it('sums a series with exact integers', async () => {
+      const { text } = await client.callTool('sumSeries', { to: 100 });
+      expect(text).toBe('Σ k^1 for k = 1..100 = 5050');
+    });
+
+    it('rejects a series that ends before it starts', async () => {
+      const result = await client.callTool('sumSeries', { from: 5, to: 1 });
+      expect(result).toMatchObject({
+        isError: true,
+        text: '"to" must be greater than or equal to "from"',
+      });
+    });
+  });
+
+  describe('session state', () => {
+    it('keeps history and preferences per session', async () => {
+      const session = await connect('session-state');
+      try {
+        expect(await callText(session, 'getHistory')).toBe(
+          'No calculations in history yet.',
+        );
+
+        const { text } = await session.callTool('setPreferences', {
+          decimalPlaces: 1,
+        });
+        expect(text).toContain('1 decimal places');
+        await session.callTool('add', { a: 1, b: 2 });
+        await session.callTool('multiply', { a: 3, b: 4 });
+
+        const history = await session.callTool('getHistory', { limit: 1 });
+        expect(history.text).toMatch(
+          /^Recent calculations:\n1\. 3 × 4 = 12\.0 \(/,
+        );
+
+        expect(await callText(session, 'clearHistory')).toBe(
+          'Cleared 2 calculation(s) from history',
+        );
+      } finally {
+        await session.close();
+      }
+    });
+
+    /** The client ID in getClientId's answer */
+    const issueClientId = async (session: TestClient) => {
+      const text = await callText(session, 'getClientId');
+      return /client ID is (\S+)\./.exec(text)![1]!;
+    };
+
+    it('shares state between sessions with an issued client ID', async () => {
+      const first = await connect('client-id');
+      await first.callTool('add', { a: 40, b: 2 });
+      const clientId = await issueClientId(first);
+      // The session keeps its state once it has an ID
+      await first.callTool('add', { a: 1, b: 1 });
+      expect(await issueClientId(first)).toBe(clientId);
+      await first.close();
+
+      const second = await connect('client-id', { 'X-Client-Id': clientId });
+      try {
+        const history = await callText(second, 'getHistory');
+        expect(history).toContain('40 + 2 = 42.00');
+        expect(history).toContain('1 + 1 = 2.00');
+        expect(await issueClientId(second)).toBe(clientId);
+      } finally {
+        await second.close();
+      }
+    });
+
+    it('rejects client IDs it did not issue', async () => {
+      const session = await connect('client-id');
+      const clientId = await issueClientId(session);
+      await session.close();
+
+      const [id] = clientId.split('.');
+      for (const forged of ['shared-client', id!, `${id}.forged`]) {
+        await expect(
+          connect('client-id', { 'X-Client-Id': forged }),
+        ).rejects.toMatchObject({ code: 401 });
+      }
+    });
+  });
+
+  describe('rate limits', () => {
+    it('rejects sumSeries calls over its burst', async () => {
+      const session = await connect('rate-limited');
+      try {
+        for (let call = 0; call < 5; call++) {
+          await session.callTool('sumSeries', { to: 10 });
+        }
+        await expect(
+          session.callTool('sumSeries', { to: 10 }),
+        ).rejects.toMatchObject({
+          code: RATE_LIMITED,
+          data: { reason: 'tool-rate', tool: 'sumSeries' },
+        });
+
+        // Other tools have their own budget
+        const { isError } = await session.callTool('add', { a: 1, b: 1 });
+        expect(isError).toBe(false);
+      } finally {
+        await session.close();
+      }
+    });
+
+    it('counts clients with unknown API keys by IP address', async () => {
+      const first = await connect('made-up-1');
+      const second = await connect('made-up-2');
+      try {
+        for (let call = 0; call < 5; call++) {
+          await first.callTool('sumSeries', { to: 10 });
+        }
+        await expect(
+          second.callTool('sumSeries', { to: 10 }),
+        ).rejects.toMatchObject({ code: RATE_LIMITED });
+      } finally {
+        await first.close();
+        await second.close();
+      }
+    });
+  });
+
+  describe('monitoring', () => {
+    it('reports statistics and health', async () => {
+      const stats = await client.callTool('getServerStats');
+      expect(stats.text).toMatch(/^Server Statistics:\n- Storage: memory/);
+      expect(stats.text).toContain('- add: ');
+      // Only the caller's own rate limit, and no client names
+      expect(stats.text).toMatch(
+        /^- Your rate limit: \d+\/\d+ call\(s\) today/m,
+      );
+      expect(stats.text).not.toMatch(/\b(ip|key):/);
+
+      expect(await callText(client, 'healthCheck')).toMatch(
+        /^Server is healthy!/,
+      );
+    });
+
+    it("doesn't show other sessions in the statistics", async () => {
+      const other = await connect('session-state');
+      try {
+        await other.callTool('add', { a: 12_345, b: 1 });
+        const sessionId = other.sdk.transport?.sessionId;
+        expect(sessionId).toBeDefined();
+
+        const stats = await callText(client, 'getServerStats');
+        expect(stats).toMatch(/^- Your session: \d+ calculation\(s\)/m);
+        expect(stats).not.toContain(sessionId);
+      } finally {
+        await other.close();
+      }
+    });
+
+    it('serves liveness, readiness and metrics endpoints', async () => {
+      const base = `http://localhost:${server.port}`;
+
+      const healthz = await fetch(`${base}/healthz`);
+      expect(await healthz.json()).toMatchObject({ status: 'ok' });
+
+      const readyz = await fetch(`${base}/readyz`);
+      expect(readyz.status).toBe(200);
+      expect(await readyz.json()).toEqual({
+        status: 'ready',
+        storage: 'memory',
+      });
+
+      const metrics = await fetch(`${base}/metrics`);
+      expect(metrics.headers.get('content-type')).toMatch(/^text\/plain/);
+      expect(await metrics.text()).toMatch(/^# HELP /);
+    });
+
+    it('refuses requests from origins that are not allowed', async () => {
+      // CORS headers allow any origin, but the request itself is refused
+      const origin = { Origin: 'http://evil.example' };
+      const preflight = await fetch(server.url, {
+        method: 'OPTIONS',
+        headers: origin,
+      });
+      expect(preflight.headers.get('access-control-allow-origin')).toBe('*');
+      const crossOrigin = await fetch(server.url, {
+        method: 'POST',
+        headers: { ...origin, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+      });
+      expect(crossOrigin.status).toBe(403);
+    });
+
+    it('labels calls to unregistered tools as unknown', async () => {
+      await expect(client.callTool('madeUpTool', { a: 1 })).rejects.toThrow(
+        /Unknown tool/,
+      );
+
+      const metrics = await fetch(`http://localhost:${server.port}/metrics`);
+      const text = await metrics.text();
+      expect(text).toContain(
+        'mcp_tool_calls_total{tool="unknown",outcome="error"} 1',
+      );
+      expect(text).not.toContain('madeUpTool');
+    });
+  });
+});
@@ -1,25 +1,162 @@
-import { FastMCP } from 'fastmcp';
+import { randomUUID } from 'crypto';
+import { FastMCP, UserError } from 'fastmcp';
 import { z } from 'zod';
-const PORT = 3008;
+import {
+  calculateDecimal,
+  numericInput,
+  PRECISION_MODES,
+  precisionParameters,
+  ROUNDING_MODES,
+  type PrecisionMode,
+  type RoundingMode,
+} from '../shared/decimal';
+import {
+  cancellation,
+  checkpoint,
+  throttleProgress,
+} from '../shared/long-running';
+import {
+  guardRequests,
+  guardRoutes,
+  HTTP_SECURITY,
+} from '../shared/http-security';
+import { isMainModule, type RunningServer } from '../shared/main-module';
+import { trackSessionIds } from '../shared/session-ids';
+import { useToolCallMiddleware } from '../shared/tool-call-middleware';
+import {
+  CLIENT_ID_SECRET,
+  CLIENT_STATE_TTL_MS,
+  MAX_HISTORY_PER_SESSION,
+  MAX_REPLAY_EVENTS,
+  PORT,
+  RATE_LIMITS,
+  STATE_SWEEP_INTERVAL_MS,
+  STORAGE_BACKEND,
+  STORAGE_PATH,
+} from './constants';
+import { createClientIds } from './client-ids';
+import { createEventStore } from './event-store';
+import { createMetrics } from './metrics';
+import { createRateLimiter } from './rate-limit';
+import { createSessionStore } from './sessions';
+import { createStorage } from './storage';
 
-// Simple in-memory storage (in production, use Redis or database)
-interface CalculationHistory {
-  operation: string;
-  result: number;
-  timestamp: Date;
-}
-
-let calculationHistory: CalculationHistory[] = [];
-const preferences = {
-  decimalPlaces: 2,
-  showHistory: true,
+// Clients that send an X-Client-Id header the server issued (see
+// getClientId) keep their state under that ID, so it is still there when they
+// reconnect (including after a server restart). Other clients get state for
+// the lifetime of their MCP session.
+type ClientIdentity = {
+  clientId?: string;
 };
 
-// Create the FastMCP server
-const server = new FastMCP({
-  name: 'remote-calculator-server',
-  version: '1.0.0',
-  instructions: `
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const clientKey = (clientId: string) => `client:${clientId}`;
+
+export async function startServer(port = PORT): Promise<RunningServer> {
+  // History and preferences are kept per session in the configured storage
+  // backend (in production, use Redis or a database)
+  const storage = await createStorage(STORAGE_BACKEND, STORAGE_PATH);
+  const sessions = createSessionStore({
+    storage,
+    maxHistory: MAX_HISTORY_PER_SESSION,
+  });
+
+  const clientIds = createClientIds(CLIENT_ID_SECRET);
+  // Sessions that were issued a client ID keep their state under it from then
+  // on, even though they connected without one
+  const issuedIds = new Map<string, string>();
+
+  const clientIdOf = (context: {
+    session?: ClientIdentity;
+    sessionId?: string;
+  }) => context.session?.clientId ?? issuedIds.get(context.sessionId ?? '');
+
+  const stateKey = (context: {
+    session?: ClientIdentity;
+    sessionId?: string;
+  }) => {
+    const clientId = clientIdOf(context);
+    if (clientId) {
+      return clientKey(clientId);
+    }
+    return context.sessionId ? sessionKey(context.sessionId) : undefined;
+  };
+
+  // Messages sent on each SSE stream are kept so a client that loses its
+  // connection can reconnect with Last-Event-ID and catch up
+  const eventStore = createEventStore({ maxEvents: MAX_REPLAY_EVENTS });
+
+  // Limits how often each client can call tools
+  const rateLimiter = createRateLimiter(RATE_LIMITS);
+
+  interface CalculationArgs {
+    a: number | string;
+    b: number | string;
+    precision?: PrecisionMode;
+    scale?: number;
+    rounding?: RoundingMode;
+  }
+
+  // History keeps every result as a number too, and storage can't hold NaN or
+  // Infinity: JSON writes them as null and SQLite refuses NaN
+  function finite(operation: string, result: number) {
+    if (Number.isNaN(result)) {
+      throw new UserError(`The result of ${operation} is not a number`);
+    }
+    if (!Number.isFinite(result)) {
+      throw new UserError(
+        `The result of ${operation} is too large to represent`,
+      );
+    }
+    return result;
+  }
+
+  // Runs a calculation in float or decimal mode, records it in the session's
+  // history and returns the formatted result. Per-call arguments override the
+  // session's preferences.
+  async function calculate(
+    operation: 'add' | 'multiply',
+    symbol: string,
+    args: CalculationArgs,
+    key: string | undefined,
+  ) {
+    const { preferences } = await sessions.get(key);
+    const description = `${args.a} ${symbol} ${args.b}`;
+    const scale = args.scale ?? preferences.decimalPlaces;
+
+    if ((args.precision ?? preferences.precision) === 'decimal') {
+      const exactResult = calculateDecimal(operation, args.a, args.b, {
+        scale,
+        rounding: args.rounding ?? preferences.rounding,
+      });
+      await sessions.record(key, {
+        operation: description,
+        result: finite(operation, Number(exactResult)),
+        exactResult,
+        timestamp: new Date(),
+      });
+      return `${description} = ${exactResult}`;
+    }
+
+    const a = Number(args.a);
+    const b = Number(args.b);
+    const result = finite(operation, operation === 'add' ? a + b : a * b);
+
+    // Store in history
+    await sessions.record(key, {
+      operation: description,
+      result,
+      timestamp: new Date(),
+    });
+
+    return `${description} = ${result.toFixed(scale)}`;
+  }
+
+  // Create the FastMCP server
+  const server = new FastMCP<ClientIdentity>({
+    name: 'remote-calculator-server',
+    version: '1.0.0',
+    instructions: `
 This is a remote MCP calculator server that demonstrates:
 - HTTP transport handling
 - Simple state management
@@ -28,234 +165,484 @@ This is a remote MCP calculator server that demonstrates:
 
 This server maintains calculation history and user preferences.
   `.trim(),
-});
-
-// Add calculation tools
-server.addTool({
-  name: 'add',
-  description: 'Add two numbers together',
-  parameters: z.object({
-    a: z.coerce.number().describe('The first number to add'),
-    b: z.coerce.number().describe('The second number to add'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: false,
-    title: 'Addition Calculator',
-  },
-  execute: async (args) => {
-    const result = args.a + args.b;
-    const formattedResult = result.toFixed(preferences.decimalPlaces);
+    // Origin and Host are checked first, so rejected requests aren't counted
+    authenticate: guardRequests(async (request) => {
+      rateLimiter.identify(request);
+      const token = request.headers['x-client-id'];
+      if (token === undefined) {
+        return {};
+      }
+      const clientId =
+        typeof token === 'string' ? clientIds.verify(token) : undefined;
+      if (!clientId) {
+        throw new Response(null, {
+          status: 401,
+          statusText:
+            'X-Client-Id was not issued by this server; call getClientId for one',
+        });
+      }
+      return { clientId };
+    }),
+  });
 
-    // Store in history
-    calculationHistory.push({
-      operation: `${args.a} + ${args.b}`,
-      result,
-      timestamp: new Date(),
-    });
+  // Tools need the session ID to find their session's history and preferences
+  trackSessionIds(server);
 
-    return `${args.a} + ${args.b} = ${formattedResult}`;
-  },
-});
-
-server.addTool({
-  name: 'multiply',
-  description: 'Multiply two numbers together',
-  parameters: z.object({
-    a: z.coerce.number().describe('The first number to multiply'),
-    b: z.coerce.number().describe('The second number to multiply'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: false,
-    title: 'Multiplication Calculator',
-  },
-  execute: async (args) => {
-    const result = args.a * args.b;
-    const formattedResult = result.toFixed(preferences.decimalPlaces);
+  // Keeps each session's events apart in the shared event store
+  server.on('connect', ({ session }) => {
+    const transport = session.server.transport;
+    if (transport) {
+      eventStore.track(transport);
+    }
+  });
 
-    // Store in history
-    calculationHistory.push({
-      operation: `${args.a} × ${args.b}`,
-      result,
-      timestamp: new Date(),
-    });
+  // Tools are added through here so metrics can tell a registered name from
+  // whatever name a client sends
+  const toolNames = new Set<string>();
+  const addTool: typeof server.addTool = (tool) => {
+    toolNames.add(tool.name);
+    server.addTool(tool);
+  };
 
-    return `${args.a} × ${args.b} = ${formattedResult}`;
-  },
-});
-
-server.addTool({
-  name: 'getHistory',
-  description: 'Get calculation history',
-  parameters: z.object({
-    limit: z.coerce
-      .number()
-      .optional()
-      .default(10)
-      .describe('Maximum number of history items to return'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Calculation History',
-  },
-  execute: async (args) => {
-    const history = calculationHistory.slice(-args.limit).reverse(); // Most recent first
-
-    if (history.length === 0) {
-      return 'No calculations in history yet.';
-    }
+  // Tool call counts and latencies, for /metrics and getServerStats. Added
+  // first so the timings include the other middleware.
+  const metrics = createMetrics();
+  useToolCallMiddleware(
+    server,
+    metrics.middleware((name) => toolNames.has(name)),
+  );
 
-    const historyText = history
-      .map((item, index) => {
-        const timeStr = item.timestamp.toLocaleTimeString();
-        return `${index + 1}. ${item.operation} = ${item.result.toFixed(preferences.decimalPlaces)} (${timeStr})`;
-      })
-      .join('\n');
-
-    return `Recent calculations:\n${historyText}`;
-  },
-});
-
-server.addTool({
-  name: 'setPreferences',
-  description: 'Set calculation preferences',
-  parameters: z.object({
-    decimalPlaces: z.coerce
-      .number()
-      .min(0)
-      .max(10)
-      .optional()
-      .describe('Number of decimal places to show'),
-    showHistory: z
-      .boolean()
-      .optional()
-      .describe('Whether to show calculation history'),
-  }),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: false,
-    title: 'Set Preferences',
-  },
-  execute: async (args) => {
-    if (args.decimalPlaces !== undefined) {
-      preferences.decimalPlaces = args.decimalPlaces;
-    }
-    if (args.showHistory !== undefined) {
-      preferences.showHistory = args.showHistory;
-    }
+  // Rejected calls never reach the tools (they are counted as errors above)
+  useToolCallMiddleware(server, rateLimiter.middleware());
+
+  // Long-running tools check the request's abort signal via checkpoint()
+  useToolCallMiddleware(server, cancellation());
+
+  // Add calculation tools
+  addTool({
+    name: 'add',
+    description: 'Add two numbers together',
+    parameters: z.object({
+      a: numericInput.describe('The first number to add'),
+      b: numericInput.describe('The second number to add'),
+      ...precisionParameters,
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Addition Calculator',
+    },
+    execute: async (args, context) =>
+      calculate('add', '+', args, stateKey(context)),
+  });
+
+  addTool({
+    name: 'multiply',
+    description: 'Multiply two numbers together',
+    parameters: z.object({
+      a: numericInput.describe('The first number to multiply'),
+      b: numericInput.describe('The second number to multiply'),
+      ...precisionParameters,
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Multiplication Calculator',
+    },
+    execute: async (args, context) =>
+      calculate('multiply', '×', args, stateKey(context)),
+  });
+
+  addTool({
+    name: 'sumSeries',
+    description:
+      'Sum k^power for every whole number k from "from" to "to", term by term with exact integer arithmetic. Large ranges take a while: progress is reported and the call stops if the client cancels it.',
+    parameters: z.object({
+      from: z.coerce.number().int().min(0).default(1).describe('First k'),
+      to: z.coerce
+        .number()
+        .int()
+        .max(1e12)
+        .describe('Last k (inclusive), up to 10^12'),
+      power: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .default(1)
+        .describe('The power each k is raised to'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Series Sum',
+    },
+    execute: async (args, context) => {
+      if (args.to < args.from) {
+        throw new UserError('"to" must be greater than or equal to "from"');
+      }
+
+      const progress = throttleProgress(context.reportProgress);
+      const power = BigInt(args.power);
+      const total = args.to - args.from + 1;
+      let sum = 0n;
+      for (let chunkStart = args.from; chunkStart <= args.to;) {
+        const chunkEnd = Math.min(chunkStart + 100_000, args.to + 1);
+        for (let k = chunkStart; k < chunkEnd; k++) {
+          sum += BigInt(k) ** power;
+        }
+        chunkStart = chunkEnd;
+
+        const done = chunkEnd - args.from;
+        await progress({
+          progress: done,
+          total,
+          message: `Summed ${done} of ${total} terms`,
+        });
+        await checkpoint();
+      }
+
+      const description = `Σ k^${args.power} for k = ${args.from}..${args.to}`;
+      await sessions.record(stateKey(context), {
+        operation: description,
+        result: Number(sum),
+        exactResult: sum.toString(),
+        timestamp: new Date(),
+      });
+      return `${description} = ${sum}`;
+    },
+  });
+
+  addTool({
+    name: 'getHistory',
+    description: 'Get the calculation history of this session',
+    parameters: z.object({
+      limit: z.coerce
+        .number()
+        .optional()
+        .default(10)
+        .describe('Maximum number of history items to return'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Calculation History',
+    },
+    execute: async (args, context) => {
+      const { history: allHistory, preferences } = await sessions.get(
+        stateKey(context),
+      );
+      const history = allHistory.slice(-args.limit).reverse(); // Most recent first
+
+      if (history.length === 0) {
+        return 'No calculations in history yet.';
+      }
 
-    return `Preferences updated: ${preferences.decimalPlaces} decimal places, history ${preferences.showHistory ? 'enabled' : 'disabled'}`;
-  },
-});
-
-server.addTool({
-  name: 'clearHistory',
-  description: 'Clear calculation history',
-  parameters: z.object({}),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: false,
-    title: 'Clear History',
-  },
-  execute: async () => {
-    const clearedCount = calculationHistory.length;
-    calculationHistory = [];
-    return `Cleared ${clearedCount} calculation(s) from history`;
-  },
-});
-
-server.addTool({
-  name: 'getServerStats',
-  description: 'Get server statistics',
-  parameters: z.object({}),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Server Statistics',
-  },
-  execute: async () => {
-    const stats = {
-      totalCalculations: calculationHistory.length,
-      serverUptime: process.uptime(),
-      memoryUsage: process.memoryUsage(),
-      preferences,
-    };
-
-    return `Server Statistics:
-- Total calculations: ${stats.totalCalculations}
+      const historyText = history
+        .map((item, index) => {
+          const timeStr = item.timestamp.toLocaleTimeString();
+          const result =
+            item.exactResult ?? item.result.toFixed(preferences.decimalPlaces);
+          return `${index + 1}. ${item.operation} = ${result} (${timeStr})`;
+        })
+        .join('\n');
+
+      return `Recent calculations:\n${historyText}`;
+    },
+  });
+
+  addTool({
+    name: 'setPreferences',
+    description: 'Set calculation preferences for this session',
+    parameters: z.object({
+      decimalPlaces: z.coerce
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe('Number of decimal places to show'),
+      showHistory: z
+        .boolean()
+        .optional()
+        .describe('Whether to show calculation history'),
+      precision: z
+        .enum(PRECISION_MODES)
+        .optional()
+        .describe(
+          'Default precision: "decimal" for exact decimal arithmetic (decimal places become the scale), "float" for floating point',
+        ),
+      rounding: z
+        .enum(ROUNDING_MODES)
+        .optional()
+        .describe('Rounding mode used in decimal mode'),
+    }),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Set Preferences',
+    },
+    execute: async (args, context) => {
+      const preferences = await sessions.updatePreferences(
+        stateKey(context),
+        args,
+      );
+
+      return `Preferences updated: ${preferences.decimalPlaces} decimal places, history ${preferences.showHistory ? 'enabled' : 'disabled'}, ${preferences.precision} precision (${preferences.rounding} rounding)`;
+    },
+  });
+
+  addTool({
+    name: 'clearHistory',
+    description: 'Clear the calculation history of this session',
+    parameters: z.object({}),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Clear History',
+    },
+    execute: async (_args, context) => {
+      const clearedCount = await sessions.clear(stateKey(context));
+      return `Cleared ${clearedCount} calculation(s) from history`;
+    },
+  });
+
+  addTool({
+    name: 'getClientId',
+    description:
+      'Get a client ID to send as the X-Client-Id header on later connections, so this history and these preferences are still there after reconnecting or a server restart',
+    parameters: z.object({}),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: false,
+      title: 'Client ID',
+    },
+    execute: async (_args, context) => {
+      let clientId = clientIdOf(context);
+      if (!clientId) {
+        if (!context.sessionId) {
+          throw new UserError('Client IDs can only be issued to a session');
+        }
+        // The session's state moves to the new ID and stays with it
+        clientId = randomUUID();
+        await sessions.move(sessionKey(context.sessionId), clientKey(clientId));
+        issuedIds.set(context.sessionId, clientId);
+      }
+      return `Your client ID is ${clientIds.token(clientId)}. Send it as the X-Client-Id header to keep your history and preferences across connections.`;
+    },
+  });
+
+  addTool({
+    name: 'getServerStats',
+    description: 'Get server statistics',
+    parameters: z.object({}),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Server Statistics',
+    },
+    execute: async (_args, context) => {
+      // Only the caller's own session is described: a session's key is all
+      // it takes to use its state
+      const own = await sessions.get(stateKey(context));
+      const { preferences } = own;
+      const stats = {
+        sessions: await sessions.stats(),
+        events: eventStore.stats(),
+        usage: rateLimiter.usage(rateLimiter.clientOf(context.sessionId)),
+        serverUptime: process.uptime(),
+        memoryUsage: process.memoryUsage(),
+        preferences,
+      };
+
+      const idleSeconds = Math.round(
+        (Date.now() - own.lastActiveAt.getTime()) / 1000,
+      );
+      const perTool = metrics
+        .toolStats()
+        .map(
+          (tool) =>
+            `  - ${tool.tool}: ${tool.calls} call(s), ${(tool.errorRate * 100).toFixed(1)}% errors, ${tool.averageMs.toFixed(1)}ms average, ${tool.maxMs.toFixed(1)}ms max`,
+        )
+        .join('\n');
+      // Only the caller's own usage: other clients are named by their IP
+      // address or API key
+      const { usage } = stats;
+      const yourUsage = usage
+        ? `${usage.callsToday}/${usage.dailyQuota} call(s) today, ${usage.tokensLeft} left in burst, ${usage.rejectedCalls} rejected`
+        : 'no calls counted yet';
+
+      return `Server Statistics:
+- Storage: ${STORAGE_BACKEND}
+- Connected sessions: ${server.sessions.length}
+- Sessions with state: ${stats.sessions.activeSessions} (${stats.sessions.evictedSessions} evicted)
+- Resumability: ${stats.events.bufferedEvents} event(s) buffered, ${stats.events.replayedEvents} replayed over ${stats.events.resumptions} reconnect(s)
+- Total calculations: ${stats.sessions.totalCalculations} (${stats.sessions.storedCalculations} in history, max ${MAX_HISTORY_PER_SESSION} per session)
 - Server uptime: ${Math.round(stats.serverUptime)} seconds
 - Memory usage: ${Math.round(stats.memoryUsage.heapUsed / 1024 / 1024)}MB
-- Decimal places: ${stats.preferences.decimalPlaces}
-- History enabled: ${stats.preferences.showHistory}`;
-  },
-});
-
-// Event handlers
-server.on('connect', () => {
-  console.log('🔗 Client connected to remote server');
-  console.log(`   Active connections: 1`);
-});
-
-server.on('disconnect', () => {
-  console.log('❌ Client disconnected from remote server');
-});
-
-// Health check via tool (simplified approach)
-server.addTool({
-  name: 'healthCheck',
-  description: 'Check server health status',
-  parameters: z.object({}),
-  annotations: {
-    openWorldHint: false,
-    readOnlyHint: true,
-    title: 'Health Check',
-  },
-  execute: async () => {
-    return `Server is healthy! Uptime: ${Math.round(process.uptime())} seconds, Calculations: ${calculationHistory.length}`;
-  },
-});
-
-// Start the server
-const startServer = async () => {
+- Your decimal places: ${stats.preferences.decimalPlaces}
+- Your history enabled: ${stats.preferences.showHistory}
+- Your precision: ${stats.preferences.precision} (${stats.preferences.rounding} rounding)
+- Your session: ${own.totalCalculations} calculation(s), ${own.history.length} in history, idle ${idleSeconds}s
+- Tool calls:
+${perTool}
+- Rate limits (per ${RATE_LIMITS.scope}): ${rateLimiter.clients()} client(s) tracked, ${rateLimiter.rejectedCalls()} call(s) rejected
+- Your rate limit: ${yourUsage}`;
+    },
+  });
+
+  // Event handlers
+  server.on('connect', () => {
+    console.log('🔗 Client connected to remote server');
+    console.log(`   Active connections: ${server.sessions.length}`);
+  });
+
+  // Sessions end when the client closes them or, after 30 minutes idle, when
+  // the transport expires them. State kept under the session ID is no longer
+  // reachable then; state kept under a client ID is left for the next session.
+  server.on('disconnect', async (event) => {
+    if (event.session.sessionId) {
+      await sessions.evict(sessionKey(event.session.sessionId));
+      issuedIds.delete(event.session.sessionId);
+      rateLimiter.forget(event.session.sessionId);
+    }
+    console.log('❌ Client disconnected from remote server');
+    console.log(`   Session: ${event.session.sessionId}`);
+  });
+
+  // The same health information for MCP clients. Load balancers and
+  // orchestrators use the HTTP endpoints below instead.
+  addTool({
+    name: 'healthCheck',
+    description: 'Check server health status',
+    parameters: z.object({}),
+    annotations: {
+      openWorldHint: false,
+      readOnlyHint: true,
+      title: 'Health Check',
+    },
+    execute: async () => {
+      const { activeSessions, totalCalculations } = await sessions.stats();
+      return `Server is healthy! Uptime: ${Math.round(process.uptime())} seconds, Sessions: ${activeSessions}, Calculations: ${totalCalculations}`;
+    },
+  });
+
+  // Nothing evicts state whose session ended while the server was down, or
+  // that a client with an ID stopped coming back for, so it is swept up at
+  // startup and then every hour
+  const sweepState = async () => {
+    const now = Date.now();
+    const live = new Set(
+      server.sessions.flatMap(({ sessionId }) =>
+        sessionId ? [sessionKey(sessionId)] : [],
+      ),
+    );
+    const evicted = await sessions.evictWhere((key, state) =>
+      key.startsWith('client:')
+        ? now - state.lastActiveAt.getTime() > CLIENT_STATE_TTL_MS
+        : !live.has(key),
+    );
+    if (evicted > 0) {
+      console.log(`🧹 Evicted state of ${evicted} unreachable session(s)`);
+    }
+  };
+  await sweepState();
+  const sweeper = setInterval(() => void sweepState(), STATE_SWEEP_INTERVAL_MS);
+  sweeper.unref();
+
+  // Plain HTTP endpoints served next to /mcp, behind the same Origin and Host
+  // checks
+  guardRoutes(server);
+  let ready = false;
+  const app = server.getApp();
+
+  // Liveness: the process is up and serving HTTP
+  app.get('/healthz', (c) =>
+    c.json({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) }),
+  );
+
+  // Readiness: the server has started and isn't shutting down
+  app.get('/readyz', (c) =>
+    c.json(
+      { status: ready ? 'ready' : 'not ready', storage: STORAGE_BACKEND },
+      ready ? 200 : 503,
+    ),
+  );
+
+  app.get('/metrics', async (c) => {
+    const { activeSessions, storedCalculations } = await sessions.stats();
+    const body = metrics.prometheus({
+      activeSessions: server.sessions.length,
+      storedSessions: activeSessions,
+      storedCalculations,
+      ...eventStore.stats(),
+      rateLimitedCalls: rateLimiter.rejectedCalls(),
+    });
+    return c.text(body, 200, {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+    });
+  });
+
+  // Start the server
   try {
     console.log(`🚀 Starting Remote MCP Calculator Server...`);
-    console.log(`   Port: ${PORT}`);
-    console.log(`   Transport: HTTP`);
-    console.log(`   Session Management: In-Memory`);
+    console.log(`   Port: ${port}`);
+    console.log(
+      `   Transport: HTTP (resumable, ${MAX_REPLAY_EVENTS} events kept)`,
+    );
+    console.log(
+      `   Rate Limits: per ${RATE_LIMITS.scope}, ${RATE_LIMITS.client.capacity} call burst, ${RATE_LIMITS.dailyQuota} calls per day`,
+    );
+    console.log(
+      `   Session Management: ${STORAGE_BACKEND === 'memory' ? 'In-Memory' : `${STORAGE_BACKEND} (${STORAGE_PATH})`}, ${MAX_HISTORY_PER_SESSION} history entries per session`,
+    );
 
     await server.start({
       transportType: 'httpStream',
       httpStream: {
-        port: PORT,
+        port,
+        host: HTTP_SECURITY.host,
+        eventStore,
       },
     });
 
-    console.log(`✅ Remote MCP Server running on port ${PORT}`);
-    console.log(`📡 MCP Endpoint: http://localhost:${PORT}/mcp`);
-    console.log(`🏥 Health Check: Use healthCheck tool`);
+    ready = true;
+    console.log(`✅ Remote MCP Server running on port ${port}`);
+    console.log(`📡 MCP Endpoint: http://localhost:${port}/mcp`);
+    console.log(
+      `🏥 Health Check: http://localhost:${port}/healthz and /readyz (or the healthCheck tool)`,
+    );
+    console.log(`📊 Metrics: http://localhost:${port}/metrics`);
     console.log(`🔍 Test with: pnpm inspect:08`);
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     throw error;
   }
-};
 
-// Graceful shutdown handling
-process.on('SIGTERM', async () => {
-  console.log('🛑 Received SIGTERM, shutting down gracefully...');
-  await server.stop();
-  console.log('✅ Server shut down successfully');
-  process.exit(0);
-});
-
-process.on('SIGINT', async () => {
-  console.log('🛑 Received SIGINT, shutting down gracefully...');
-  await server.stop();
-  console.log('✅ Server shut down successfully');
-  process.exit(0);
-});
-
-// Start the server
-startServer().catch(console.error);
+  const stop = async () => {
+    ready = false;
+    clearInterval(sweeper);
+    await server.stop();
+    await storage.close();
+  };
+  return { stop };
+}
+
+if (isMainModule(import.meta.url)) {
+  const running = await startServer();
+
+  // Graceful shutdown handling
+  process.on('SIGTERM', async () => {
+    console.log('🛑 Received SIGTERM, shutting down gracefully...');
+    await running.stop();
+    console.log('✅ Server shut down successfully');
+    process.exit(0);
+  });
+
+  process.on('SIGINT', async () => {
+    console.log('🛑 Received SIGINT, shutting down gracefully...');
+    await running.stop();
+    console.log('✅ Server shut down successfully');
+    process.exit(0);
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionStore } from './sessions';
+import { createMemoryStorage } from './storage';
+
+describe('session store', () => {
+  const entry = (result: number) => ({
+    operation: `${result}`,
+    result,
+    timestamp: new Date(),
+  });
+
+  it('moves state to a new key, keeping state already there', async () => {
+    const sessions = createSessionStore({
+      storage: createMemoryStorage(),
+      maxHistory: 10,
+    });
+    await sessions.record('session:a', entry(1));
+    await sessions.record('session:b', entry(2));
+    await sessions.record('client:b', entry(3));
+
+    await sessions.move('session:a', 'client:a');
+    await sessions.move('session:b', 'client:b');
+
+    const movedA = await sessions.get('client:a');
+    const movedB = await sessions.get('client:b');
+    expect(movedA.history).toMatchObject([{ result: 1 }]);
+    expect(movedB.history).toMatchObject([{ result: 3 }]);
+    expect(await sessions.get('session:a')).toMatchObject({ history: [] });
+    expect(await sessions.stats()).toMatchObject({ activeSessions: 2 });
+  });
+
+  it('evicts the state it is told is orphaned', async () => {
+    const sessions = createSessionStore({
+      storage: createMemoryStorage(),
+      maxHistory: 10,
+    });
+    await sessions.record('session:live', entry(1));
+    await sessions.record('session:ended', entry(2));
+
+    expect(await sessions.evictWhere((key) => key !== 'session:live')).toBe(1);
+    expect(await sessions.get('session:ended')).toMatchObject({ history: [] });
+    expect(await sessions.stats()).toEqual({
+      activeSessions: 1,
+      storedCalculations: 1,
+      totalCalculations: 1,
+      evictedSessions: 1,
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import type { PrecisionMode, RoundingMode } from '../shared/decimal';
+import type { SessionStorage } from './storage';
+
+/**
+ * Per-session calculation history and preferences.
+ *
+ * Each session gets its own state under a key chosen by the server (the
+ * `Mcp-Session-Id`, or a longer-lived client ID). Sessions start with default
+ * preferences and are only written to storage once something changes. Call
+ * `evict` when a session's state is no longer reachable, and `evictWhere` now
+ * and then for state nobody is left to evict (e.g. of sessions that ended
+ * while the server was down), so storage doesn't accumulate it.
+ */
+
+export interface CalculationHistory {
+  operation: string;
+  result: number;
+  exactResult?: string; // Set in decimal mode
+  timestamp: Date;
+}
+
+export interface Preferences {
+  decimalPlaces: number;
+  showHistory: boolean;
+  precision: PrecisionMode;
+  rounding: RoundingMode;
+}
+
+export interface SessionState {
+  history: CalculationHistory[];
+  preferences: Preferences;
+  /** Calculations made in this session, including ones dropped by the cap */
+  totalCalculations: number;
+  createdAt: Date;
+  lastActiveAt: Date;
+}
+
+export interface SessionStoreOptions {
+  storage: SessionStorage;
+  /** Oldest entries are dropped once a session's history reaches this size */
+  maxHistory: number;
+}
+
+export interface SessionStats {
+  activeSessions: number;
+  /** Entries currently held across all sessions */
+  storedCalculations: number;
+  /** Calculations made by all active sessions */
+  totalCalculations: number;
+  /** Sessions evicted since the server started */
+  evictedSessions: number;
+}
+
+// Used when the transport has no session ID (e.g. stateless requests)
+const NO_SESSION = 'default';
+
+const defaultPreferences = (): Preferences => ({
+  decimalPlaces: 2,
+  showHistory: true,
+  precision: 'float',
+  rounding: 'half-even',
+});
+
+export function createSessionStore({
+  storage,
+  maxHistory,
+}: SessionStoreOptions) {
+  let evictedSessions = 0;
+
+  /** Returns the session's state, or defaults if it has none yet. */
+  const get = async (key = NO_SESSION): Promise<SessionState> => {
+    const now = new Date();
+    return (
+      (await storage.load(key)) ?? {
+        history: [],
+        preferences: defaultPreferences(),
+        totalCalculations: 0,
+        createdAt: now,
+        lastActiveAt: now,
+      }
+    );
+  };
+
+  const update = async (
+    key = NO_SESSION,
+    change: (state: SessionState) => void,
+  ): Promise<SessionState> => {
+    const state = await get(key);
+    change(state);
+    state.lastActiveAt = new Date();
+    await storage.save(key, state);
+    return state;
+  };
+
+  const record = async (
+    key: string | undefined,
+    entry: CalculationHistory,
+  ): Promise<void> => {
+    await update(key, (state) => {
+      state.history.push(entry);
+      state.totalCalculations++;
+      if (state.history.length > maxHistory) {
+        state.history.splice(0, state.history.length - maxHistory);
+      }
+    });
+  };
+
+  const updatePreferences = async (
+    key: string | undefined,
+    changes: Partial<Preferences>,
+  ): Promise<Preferences> => {
+    const { preferences } = await update(key, (state) => {
+      for (const [name, value] of Object.entries(changes)) {
+        if (value !== undefined) {
+          Object.assign(state.preferences, { [name]: value });
+        }
+      }
+    });
+    return preferences;
+  };
+
+  /** Empties the session's history and returns how many entries it held. */
+  const clear = async (key?: string): Promise<number> => {
+    let cleared = 0;
+    await update(key, (state) => {
+      cleared = state.history.length;
+      state.history = [];
+    });
+    return cleared;
+  };
+
+  const evict = async (key = NO_SESSION): Promise<void> => {
+    if (await storage.load(key)) {
+      await storage.delete(key);
+      evictedSessions++;
+    }
+  };
+
+  /**
+   * Moves the state under `from` to `to`, unless `to` already has state of
+   * its own.
+   */
+  const move = async (from: string, to: string): Promise<void> => {
+    const state = await storage.load(from);
+    if (!state) {
+      return;
+    }
+    if (!(await storage.load(to))) {
+      await storage.save(to, state);
+    }
+    await storage.delete(from);
+  };
+
+  /** Evicts the state `orphaned` picks and returns how much it evicted. */
+  const evictWhere = async (
+    orphaned: (key: string, state: SessionState) => boolean,
+  ): Promise<number> => {
+    let evicted = 0;
+    for (const [key, state] of await storage.entries()) {
+      if (orphaned(key, state)) {
+        await storage.delete(key);
+        evicted++;
+      }
+    }
+    evictedSessions += evicted;
+    return evicted;
+  };
+
+  /**
+   * Totals across all sessions. Keys are left out: each one is a session ID
+   * or client ID that would let whoever sees it use that session's state.
+   */
+  const stats = async (): Promise<SessionStats> => {
+    const entries = await storage.entries();
+    const states = entries.map(([, state]) => state);
+    return {
+      activeSessions: states.length,
+      storedCalculations: states.reduce(
+        (sum, state) => sum + state.history.length,
+        0,
+      ),
+      totalCalculations: states.reduce(
+        (sum, state) => sum + state.totalCalculations,
+        0,
+      ),
+      evictedSessions,
+    };
+  };
+
+  return {
+    get,
+    record,
+    updatePreferences,
+    clear,
+    move,
+    evict,
+    evictWhere,
+    stats,
+  };
+}
+
+export type SessionStore = ReturnType<typeof createSessionStore>;
@@ -0,0 +1,157 @@
+import fs from 'fs/promises';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { PrecisionMode, RoundingMode } from '../shared/decimal';
+import type { SessionState } from './sessions';
+import type { SessionStorage } from './storage';
+
+/**
+ * Keeps sessions in a SQLite database: one row per session and one per
+ * history entry. better-sqlite3 is synchronous, which is fine for small local
+ * writes and keeps each save a single transaction.
+ */
+
+interface SessionRow {
+  key: string;
+  decimal_places: number;
+  show_history: number;
+  precision: PrecisionMode;
+  rounding: RoundingMode;
+  total_calculations: number;
+  created_at: string;
+  last_active_at: string;
+}
+
+interface HistoryRow {
+  operation: string;
+  result: number;
+  exact_result: string | null;
+  timestamp: string;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  key TEXT PRIMARY KEY,
+  decimal_places INTEGER NOT NULL,
+  show_history INTEGER NOT NULL,
+  precision TEXT NOT NULL,
+  rounding TEXT NOT NULL,
+  total_calculations INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  last_active_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_key TEXT NOT NULL REFERENCES sessions (key) ON DELETE CASCADE,
+  operation TEXT NOT NULL,
+  result REAL NOT NULL,
+  exact_result TEXT,
+  timestamp TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS history_session_key ON history (session_key, id);
+`;
+
+export async function createSqliteStorage(
+  file: string,
+): Promise<SessionStorage> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const selectSession = db.prepare<[string], SessionRow>(
+    'SELECT * FROM sessions WHERE key = ?',
+  );
+  const selectSessions = db.prepare<[], SessionRow>(
+    'SELECT * FROM sessions ORDER BY created_at',
+  );
+  const selectHistory = db.prepare<[string], HistoryRow>(
+    'SELECT operation, result, exact_result, timestamp FROM history WHERE session_key = ? ORDER BY id',
+  );
+  const upsertSession = db.prepare<[SessionRow]>(`
+    INSERT INTO sessions (key, decimal_places, show_history, precision, rounding, total_calculations, created_at, last_active_at)
+    VALUES (@key, @decimal_places, @show_history, @precision, @rounding, @total_calculations, @created_at, @last_active_at)
+    ON CONFLICT (key) DO UPDATE SET
+      decimal_places = excluded.decimal_places,
+      show_history = excluded.show_history,
+      precision = excluded.precision,
+      rounding = excluded.rounding,
+      total_calculations = excluded.total_calculations,
+      last_active_at = excluded.last_active_at
+  `);
+  const deleteHistory = db.prepare<[string]>(
+    'DELETE FROM history WHERE session_key = ?',
+  );
+  const insertHistory = db.prepare<
+    [string, string, number, string | null, string]
+  >(
+    'INSERT INTO history (session_key, operation, result, exact_result, timestamp) VALUES (?, ?, ?, ?, ?)',
+  );
+  const deleteSession = db.prepare<[string]>(
+    'DELETE FROM sessions WHERE key = ?',
+  );
+
+  const toState = (row: SessionRow): SessionState => ({
+    history: selectHistory.all(row.key).map((entry) => ({
+      operation: entry.operation,
+      result: entry.result,
+      ...(entry.exact_result === null
+        ? {}
+        : { exactResult: entry.exact_result }),
+      timestamp: new Date(entry.timestamp),
+    })),
+    preferences: {
+      decimalPlaces: row.decimal_places,
+      showHistory: row.show_history === 1,
+      precision: row.precision,
+      rounding: row.rounding,
+    },
+    totalCalculations: row.total_calculations,
+    createdAt: new Date(row.created_at),
+    lastActiveAt: new Date(row.last_active_at),
+  });
+
+  // The history is small (it is capped), so it is rewritten on each save
+  // rather than diffed
+  const save = db.transaction((key: string, state: SessionState) => {
+    upsertSession.run({
+      key,
+      decimal_places: state.preferences.decimalPlaces,
+      show_history: state.preferences.showHistory ? 1 : 0,
+      precision: state.preferences.precision,
+      rounding: state.preferences.rounding,
+      total_calculations: state.totalCalculations,
+      created_at: state.createdAt.toISOString(),
+      last_active_at: state.lastActiveAt.toISOString(),
+    });
+    deleteHistory.run(key);
+    for (const entry of state.history) {
+      insertHistory.run(
+        key,
+        entry.operation,
+        entry.result,
+        entry.exactResult ?? null,
+        entry.timestamp.toISOString(),
+      );
+    }
+  });
+
+  return {
+    load: async (key) => {
+      const row = selectSession.get(key);
+      return row && toState(row);
+    },
+    save: async (key, state) => {
+      save(key, state);
+    },
+    delete: async (key) => {
+      deleteSession.run(key);
+    },
+    entries: async () =>
+      selectSessions.all().map((row) => [row.key, toState(row)]),
+    close: async () => {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import type { SessionState } from './sessions';
+
+/**
+ * Where session state lives.
+ *
+ * The session store (`sessions.ts`) owns the rules (defaults, the history
+ * cap, statistics) and reads and writes whole session records through this
+ * interface, so backends only have to persist them. The interface is async so
+ * a network-backed store such as Redis can implement it too.
+ */
+export interface SessionStorage {
+  load(key: string): Promise<SessionState | undefined>;
+  save(key: string, state: SessionState): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Every stored session, for statistics */
+  entries(): Promise<[string, SessionState][]>;
+  /** Finishes pending writes and releases the backend */
+  close(): Promise<void>;
+}
+
+export const STORAGE_BACKENDS = ['memory', 'json', 'sqlite'] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+/** Keeps state in a Map: fast, but lost when the server stops. */
+export function createMemoryStorage(): SessionStorage {
+  const sessions = new Map<string, SessionState>();
+  return {
+    load: async (key) => sessions.get(key),
+    save: async (key, state) => {
+      sessions.set(key, state);
+    },
+    delete: async (key) => {
+      sessions.delete(key);
+    },
+    entries: async () => [...sessions],
+    close: async () => {},
+  };
+}
+
+/**
+ * Creates the configured backend. The file-based backends are imported on
+ * demand so the SQLite driver is only loaded when it is used.
+ */
+export async function createStorage(
+  backend: StorageBackend,
+  path: string,
+): Promise<SessionStorage> {
+  switch (backend) {
+    case 'memory': {
+      return createMemoryStorage();
+    }
+    case 'json': {
+      const { createJsonFileStorage } = await import('./json-file-storage');
+      return createJsonFileStorage(path);
+    }
+    case 'sqlite': {
+      const { createSqliteStorage } = await import('./sqlite-storage');
+      return createSqliteStorage(path);
+    }
+  }
+}
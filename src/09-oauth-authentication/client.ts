@@ -4,8 +4,8 @@ import {
   generateText,
 } from 'ai';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
-
-const PORT = 3009;
+import { cassetteTransport } from '../shared/cassette';
+import { PORT } from './constants';
 
 async function testOAuthServer() {
   let mcpClient: Awaited<ReturnType<typeof createMCPClient>> | null = null;
@@ -17,7 +17,10 @@ async function testOAuthServer() {
     // Create MCP client
     const url = new URL(`http://localhost:${PORT}/mcp`);
     mcpClient = await createMCPClient({
-      transport: new StreamableHTTPClientTransport(url),
+      transport: cassetteTransport(
+        'oauth',
+        () => new StreamableHTTPClientTransport(url),
+      ),
     });
 
     console.log('✅ Connected successfully!');
@@ -0,0 +1,16 @@
+import { loadConfig, port, secret } from '../shared/config';
+
+const config = loadConfig(
+  'oauth',
+  {
+    port: port(3009),
+    // Signs access tokens. Set JWT_SECRET to a long random value anywhere but
+    // local development; with NODE_ENV set to production the default is
+    // refused.
+    jwtSecret: secret('dev-secret-key-change-in-production'),
+  },
+  { OAUTH_SERVER_PORT: 'port', JWT_SECRET: 'jwtSecret' },
+);
+
+export const PORT = config.port;
+export const JWT_SECRET = config.jwtSecret;
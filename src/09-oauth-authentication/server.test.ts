@@ -0,0 +1,199 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  connectHttp,
+  startTestServer,
+  type TestClient,
+  type TestServer,
+} from '../shared/test-harness';
+import { startServer } from './server';
+
+const DEMO_CLIENT_ID = 'demo-client-123';
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+/** Reads a "Label: value" line from a tool's text result */
+const field = (text: string, label: string) => {
+  const match = new RegExp(`^${label}: (.+)$`, 'm').exec(text);
+  expect(match, `${label} in:\n${text}`).not.toBeNull();
+  return match![1];
+};
+
+describe('OAuth server', () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  beforeAll(async () => {
+    server = await startTestServer(startServer);
+    client = await connectHttp(server.url);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+  });
+
+  const text = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool(name, args);
+    return result.text;
+  };
+
+  /** Runs the authorization code flow with PKCE and returns the token text */
+  const authorize = async (scopes: string[]) => {
+    const pkce = await text('generatePKCE');
+    const codeVerifier = field(pkce, 'Code Verifier');
+    const codeChallenge = field(pkce, 'Code Challenge');
+
+    const flow = await text('startOAuthFlow', {
+      clientId: DEMO_CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      scopes,
+      codeChallenge,
+    });
+    const code = field(flow, 'Authorization Code');
+
+    return text('exchangeAuthCode', {
+      code,
+      clientId: DEMO_CLIENT_ID,
+      codeVerifier,
+      redirectUri: REDIRECT_URI,
+    });
+  };
+
+  it('publishes discovery metadata for its own address', async () => {
+    const discovery = JSON.parse(await text('getOAuthDiscovery'));
+    expect(discovery).toMatchObject({
+      issuer: `http://localhost:${server.port}`,
+      token_endpoint: `http://localhost:${server.port}/oauth/token`,
+      code_challenge_methods_supported: ['S256', 'plain'],
+    });
+  });
+
+  it('generates an S256 PKCE pair', async () => {
+    const pkce = await text('generatePKCE');
+    expect(field(pkce, 'Code Verifier')).toMatch(/^[\w-]{43}$/);
+    expect(field(pkce, 'Code Challenge')).toMatch(/^[\w-]{43}$/);
+    expect(field(pkce, 'Code Challenge Method')).toBe('S256');
+  });
+
+  it('registers clients', async () => {
+    const registration = await text('registerOAuthClient', {
+      clientName: 'Test Client',
+      redirectUris: ['http://localhost:4000/callback'],
+    });
+    expect(field(registration, 'Client ID')).toMatch(/^client-/);
+    expect(field(registration, 'Allowed Scopes')).toBe('read');
+  });
+
+  describe('authorization code flow', () => {
+    it('issues a token that unlocks protected data', async () => {
+      const tokens = await authorize(['read', 'write']);
+      const accessToken = field(tokens, 'Access Token');
+      expect(field(tokens, 'Scopes')).toBe('read write');
+
+      const data = await text('getProtectedData', { accessToken });
+      expect(data).toMatch(/^Protected data for user: demo\n/);
+      expect(field(data, 'Client ID')).toBe(DEMO_CLIENT_ID);
+
+      const introspection = JSON.parse(
+        await text('introspectToken', { token: accessToken }),
+      );
+      expect(introspection).toMatchObject({
+        active: true,
+        client_id: DEMO_CLIENT_ID,
+        sub: 'user-123',
+        scopes: ['read', 'write'],
+      });
+    });
+
+    it('rejects an unknown client or redirect URI', async () => {
+      expect(
+        await text('startOAuthFlow', {
+          clientId: 'unknown',
+          redirectUri: REDIRECT_URI,
+          codeChallenge: 'challenge',
+        }),
+      ).toBe('Error: Invalid client ID');
+      expect(
+        await text('startOAuthFlow', {
+          clientId: DEMO_CLIENT_ID,
+          redirectUri: 'https://attacker.example/callback',
+          codeChallenge: 'challenge',
+        }),
+      ).toBe('Error: Invalid redirect URI');
+    });
+
+    it('rejects a code verifier that does not match the challenge', async () => {
+      const pkce = await text('generatePKCE');
+      const codeChallenge = field(pkce, 'Code Challenge');
+      const flow = await text('startOAuthFlow', {
+        clientId: DEMO_CLIENT_ID,
+        redirectUri: REDIRECT_URI,
+        codeChallenge,
+      });
+      const code = field(flow, 'Authorization Code');
+      const exchange = {
+        code,
+        clientId: DEMO_CLIENT_ID,
+        codeVerifier: 'wrong-verifier',
+        redirectUri: REDIRECT_URI,
+      };
+      expect(await text('exchangeAuthCode', exchange)).toBe(
+        'Error: PKCE verification failed',
+      );
+    });
+
+    it('accepts each authorization code once', async () => {
+      const pkce = await text('generatePKCE');
+      const flow = await text('startOAuthFlow', {
+        clientId: DEMO_CLIENT_ID,
+        redirectUri: REDIRECT_URI,
+        codeChallenge: field(pkce, 'Code Challenge'),
+      });
+      const exchange = {
+        code: field(flow, 'Authorization Code'),
+        clientId: DEMO_CLIENT_ID,
+        codeVerifier: field(pkce, 'Code Verifier'),
+        redirectUri: REDIRECT_URI,
+      };
+      expect(await text('exchangeAuthCode', exchange)).toMatch(
+        /^Access token generated successfully!/,
+      );
+      expect(await text('exchangeAuthCode', exchange)).toBe(
+        'Error: Invalid or expired authorization code',
+      );
+    });
+  });
+
+  describe('revocation', () => {
+    it('revokes access tokens', async () => {
+      const accessToken = field(await authorize(['read']), 'Access Token');
+      expect(await text('revokeToken', { token: accessToken })).toBe(
+        'Token revoked successfully',
+      );
+      expect(await text('getProtectedData', { accessToken })).toBe(
+        'Error: Invalid or expired access token',
+      );
+      expect(
+        JSON.parse(await text('introspectToken', { token: accessToken })),
+      ).toEqual({ active: false });
+    });
+
+    it('revokes the access token of a refresh token', async () => {
+      const tokens = await authorize(['read']);
+      const refreshToken = field(tokens, 'Refresh Token');
+      expect(await text('revokeToken', { token: refreshToken })).toBe(
+        'Refresh token revoked successfully',
+      );
+      expect(
+        await text('getProtectedData', {
+          accessToken: field(tokens, 'Access Token'),
+        }),
+      ).toBe('Error: Invalid or expired access token');
+    });
+
+    it('reports unknown tokens', async () => {
+      expect(await text('revokeToken', { token: 'unknown' })).toBe(
+        'Token not found or already revoked',
+      );
+    });
+  });
+});
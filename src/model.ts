@@ -1,18 +1,167 @@
 import 'dotenv/config';
 
-import { ollama } from 'ollama-ai-provider';
+import { createOllama } from 'ollama-ai-provider';
+import type { LanguageModelV1 } from 'ai';
+import { z } from 'zod';
 
 import { groq } from '@ai-sdk/groq';
 import { mistral } from '@ai-sdk/mistral';
+import { openai } from '@ai-sdk/openai';
 
-export const groqModel = groq('llama-3.3-70b-versatile', {});
+import { ConfigError, flagValue, loadConfig } from './shared/config';
+import { createMockModel, loadRecording } from './shared/mock-model';
 
-export const mistralModel = mistral('mistral-small-latest', {});
+/**
+ * The language model every example client uses.
+ *
+ * Pick one as `provider:model` (or just `provider` for its default model),
+ * in order of precedence:
+ *
+ * 1. the `--model` flag: `pnpm example:client:01 -- --model groq:llama-3.3-70b-versatile`
+ * 2. the `LLM_MODEL` environment variable (or `.env`)
+ * 3. the "model" section of `mcp.config.json`
+ *
+ * Hosted providers need their API key in the environment; Ollama needs a
+ * running server (`OLLAMA_BASE_URL`, default http://localhost:11434/api).
+ * The `mock` provider needs neither, for running the clients offline.
+ */
 
-export const qwen3 = ollama('qwen3:latest', {
-  structuredOutputs: true,
-});
-export const llama3_2 = ollama('llama3.2:latest', {
-  structuredOutputs: true,
+const DEFAULT_MODEL = 'mistral:mistral-small-latest';
+
+interface ModelProvider {
+  defaultModel: string;
+  /** Environment variable holding the API key, for hosted providers */
+  apiKeyVariable?: string;
+  create(modelId: string): LanguageModelV1;
+}
+
+const config = loadConfig(
+  'model',
+  {
+    model: z.string().min(1).default(DEFAULT_MODEL),
+    ollamaBaseUrl: z.string().url().default('http://localhost:11434/api'),
+  },
+  { LLM_MODEL: 'model', OLLAMA_BASE_URL: 'ollamaBaseUrl' },
+);
+
+const ollama = createOllama({ baseURL: config.ollamaBaseUrl });
+
+export const MODEL_PROVIDERS: Record<string, ModelProvider> = {
+  groq: {
+    defaultModel: 'llama-3.3-70b-versatile',
+    apiKeyVariable: 'GROQ_API_KEY',
+    create: (modelId) => groq(modelId),
+  },
+  mistral: {
+    defaultModel: 'mistral-small-latest',
+    apiKeyVariable: 'MISTRAL_API_KEY',
+    create: (modelId) => mistral(modelId),
+  },
+  openai: {
+    defaultModel: 'gpt-4o-mini',
+    apiKeyVariable: 'OPENAI_API_KEY',
+    create: (modelId) => openai(modelId),
+  },
+  ollama: {
+    defaultModel: 'llama3.2:latest',
+    create: (modelId) => ollama(modelId, { structuredOutputs: true }),
+  },
+  // Offline and deterministic: `mock` picks tools by rules, `mock:file.json`
+  // replays the tool calls recorded in that file (see shared/mock-model.ts)
+  mock: {
+    defaultModel: 'rules',
+    create: (modelId) => {
+      if (modelId === 'rules') {
+        return createMockModel();
+      }
+      try {
+        return createMockModel({ recording: loadRecording(modelId), modelId });
+      } catch (error) {
+        throw new ConfigError(
+          `Can't load the mock model's recording ${modelId}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    },
+  },
+};
+
+/**
+ * Splits `provider:model` and checks the provider can be used.
+ *
+ * @throws {ConfigError} for an unknown provider or a missing API key
+ */
+export function resolveModelSpec(
+  spec: string,
+  env: Record<string, string | undefined> = process.env,
+) {
+  // Model names can contain colons themselves (llama3.2:latest), so only the
+  // first one separates the provider
+  const separator = spec.indexOf(':');
+  const providerName = separator === -1 ? spec : spec.slice(0, separator);
+  const provider = MODEL_PROVIDERS[providerName];
+  if (!provider) {
+    throw new ConfigError(
+      `Unknown model provider "${providerName}" in "${spec}". Use one of: ${Object.keys(MODEL_PROVIDERS).join(', ')}`,
+    );
+  }
+  const modelId =
+    (separator === -1 ? '' : spec.slice(separator + 1)) ||
+    provider.defaultModel;
+  if (provider.apiKeyVariable && !env[provider.apiKeyVariable]) {
+    throw new ConfigError(
+      `${providerName}:${modelId} needs ${provider.apiKeyVariable}. Set it in the environment or .env, or choose another model with --model or LLM_MODEL.`,
+    );
+  }
+  return { providerName, provider, modelId };
+}
+
+// The part of Ollama's /tags answer that lists the downloaded models
+const ollamaTagsSchema = z.object({
+  models: z.array(z.object({ name: z.string() })),
 });
-export const model = mistralModel;
+
+// Ollama runs locally, so check it's there before the first request fails
+// with a less helpful connection error
+async function checkOllama(modelId: string) {
+  let response: Response;
+  try {
+    response = await fetch(`${config.ollamaBaseUrl}/tags`, {
+      signal: AbortSignal.timeout(3000),
+    });
+  } catch {
+    throw new ConfigError(
+      `Ollama isn't reachable at ${config.ollamaBaseUrl}. Start it with "ollama serve" or set OLLAMA_BASE_URL.`,
+    );
+  }
+  // Something else answering at the URL, such as another web server
+  const tags = ollamaTagsSchema.safeParse(
+    response.ok ? await response.json().catch(() => undefined) : undefined,
+  );
+  if (!tags.success) {
+    throw new ConfigError(
+      `${config.ollamaBaseUrl} isn't an Ollama API (GET /tags answered ${response.status}). Check OLLAMA_BASE_URL.`,
+    );
+  }
+  if (!tags.data.models.some(({ name }) => name === modelId)) {
+    throw new ConfigError(
+      `Ollama doesn't have ${modelId}. Download it with "ollama pull ${modelId}".`,
+    );
+  }
+}
+
+// A ConfigError here fails the import, so a client stops before it starts
+// with the message saying what's missing
+async function selectModel() {
+  const spec =
+    flagValue(process.argv, '--model', 'groq:llama-3.3-70b-versatile') ??
+    config.model;
+  const { providerName, provider, modelId } = resolveModelSpec(spec);
+  if (providerName === 'ollama') {
+    await checkOllama(modelId);
+  }
+  const model = provider.create(modelId);
+  console.log(`🧠 Using model ${providerName}:${modelId}`);
+  return model;
+}
+
+export const model = await selectModel();
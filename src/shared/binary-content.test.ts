@@ -0,0 +1,22 @@
+import zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { describeBinary } from './binary-content';
+
+describe('binary content', () => {
+  it('describes a PNG too short to have a size', () => {
+    const truncated = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10, 0, 0]);
+    expect(describeBinary('image/png', truncated)).toBe(
+      '[image/png, 10 bytes, unknown size]',
+    );
+  });
+
+  it('stops unzipping gzip data that is too large', () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(16 * 1024 * 1024));
+    expect(describeBinary('application/gzip', bomb)).toBe(
+      `[application/gzip, ${bomb.length} bytes, larger than 8388608 bytes unzipped]`,
+    );
+    expect(describeBinary('application/gzip', zlib.gzipSync('abc'))).toMatch(
+      /, 3 bytes unzipped\]$/,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+/**
+ * Binary content in MCP messages: resource `blob`s and image and audio
+ * `data`, all base64. These helpers pick MIME types for files, describe
+ * decoded bytes by their MIME type and write them to disk with a fitting
+ * extension.
+ */
+
+/** File extensions for the MIME types of binary content */
+export const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'application/pdf': 'pdf',
+  'application/gzip': 'gz',
+  'application/zip': 'zip',
+};
+
+/** The MIME type for content nothing more is known about */
+export const OCTET_STREAM = 'application/octet-stream';
+
+const MIME_TYPES_BY_EXTENSION = new Map(
+  Object.entries(FILE_EXTENSIONS).map(([mimeType, extension]) => [
+    `.${extension}`,
+    mimeType,
+  ]),
+);
+
+/** The MIME type of a file, from its extension */
+export const mimeTypeOf = (file: string) =>
+  MIME_TYPES_BY_EXTENSION.get(path.extname(file).toLowerCase()) ?? OCTET_STREAM;
+
+/** Whether content of this MIME type can be shown as text */
+export const isTextual = (mimeType: string | undefined) =>
+  !!mimeType &&
+  (mimeType.startsWith('text/') ||
+    /^application\/([\w.+-]+\+)?(json|xml|x-ndjson)$/.test(mimeType));
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Gzip data comes from the server, and a small archive can unzip to far more
+// than fits in memory, so unzipping stops here
+const MAX_UNZIPPED_BYTES = 8 * 1024 * 1024;
+
+/** What's inside bytes of a MIME type this knows how to look into */
+function inspect(mimeType: string, bytes: Buffer): string | undefined {
+  switch (mimeType) {
+    case 'image/png': {
+      if (!bytes.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        return 'not a valid PNG';
+      }
+      // The IHDR chunk comes first and starts with the width and height
+      if (bytes.length < 24) {
+        return 'unknown size';
+      }
+      return `${bytes.readUInt32BE(16)}×${bytes.readUInt32BE(20)}`;
+    }
+    case 'application/pdf': {
+      const version = /^%PDF-(\d\.\d)/.exec(bytes.toString('latin1', 0, 8));
+      if (!version) {
+        return 'not a valid PDF';
+      }
+      const pages = bytes.toString('latin1').match(/\/Type\s*\/Page\b/g);
+      return `PDF ${version[1]}, ${pages?.length ?? 0} page(s)`;
+    }
+    case 'application/gzip': {
+      try {
+        const unzipped = zlib.gunzipSync(bytes, {
+          maxOutputLength: MAX_UNZIPPED_BYTES,
+        });
+        return `${unzipped.length} bytes unzipped`;
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE'
+          ? `larger than ${MAX_UNZIPPED_BYTES} bytes unzipped`
+          : 'not valid gzip data';
+      }
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * A one-line description of decoded binary content: a preview of text, or
+ * the MIME type, size and what can be read from the bytes of PNG, PDF and
+ * gzip content.
+ */
+export function describeBinary(mimeType: string | undefined, bytes: Buffer) {
+  if (isTextual(mimeType)) {
+    const text = bytes.toString('utf8');
+    return text.length > 120 ? `${text.slice(0, 120)}...` : text;
+  }
+  const details = [
+    mimeType ?? OCTET_STREAM,
+    `${bytes.length} bytes`,
+    inspect(mimeType ?? OCTET_STREAM, bytes),
+  ];
+  return `[${details.filter(Boolean).join(', ')}]`;
+}
+
+/**
+ * Writes `bytes` to `directory` in a file named after `name`, usually the
+ * resource URI, with the extension of its MIME type. Returns the file's path.
+ */
+export function saveBinary(
+  directory: string,
+  name: string,
+  mimeType: string | undefined,
+  bytes: Buffer,
+) {
+  const extension = FILE_EXTENSIONS[mimeType ?? ''] ?? 'bin';
+  const base = name.replace(/^[a-z]+:\/\//i, '').replaceAll(/[^\w.-]+/g, '-');
+  const file = path.join(
+    directory,
+    base.endsWith(`.${extension}`) ? base : `${base}.${extension}`,
+  );
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(file, bytes);
+  return file;
+}
@@ -0,0 +1,328 @@
+import path from 'path';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types';
+import {
+  type CassetteEntry,
+  cassetteConnections,
+  CassetteError,
+  readCassette,
+} from './cassette';
+import { ConfigError, flagValue } from './config';
+import { isMainModule } from './main-module';
+import { addTransportListener } from './transport-listeners';
+
+/**
+ * Checks a server against a recorded cassette: sends the requests recorded
+ * for one connection to the live server, in order, and compares each response
+ * with the recorded one.
+ *
+ *   pnpm cassette:diff session.jsonl --url http://localhost:8087/mcp
+ *   pnpm cassette:diff session.jsonl --stdio src/04-stdio-filesystem/server.ts
+ *
+ * `--connection name` picks the connection when the cassette has several, and
+ * each `--ignore key` leaves out fields that change on every run, such as
+ * timestamps. Exits with status 1 when any response drifted.
+ */
+
+export interface Difference {
+  /** Where in the response, e.g. `result.content[0].text` */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface RequestDiff {
+  method: string;
+  /** The tool, resource or prompt the request was for, if any */
+  target?: string;
+  differences: Difference[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Tool results often carry JSON as text; compare what's inside so a changed
+// field is reported by name rather than as a different string
+function parseJsonText(value: string): unknown {
+  if (!/^\s*[[{]/.test(value)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The differences between two JSON values. Keys named in `ignore` are skipped
+ * at any depth.
+ */
+export function diffJson(
+  expected: unknown,
+  actual: unknown,
+  ignore: string[] = [],
+  at = '',
+): Difference[] {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    const expectedJson = parseJsonText(expected);
+    const actualJson = parseJsonText(actual);
+    if (expectedJson !== undefined && actualJson !== undefined) {
+      return diffJson(expectedJson, actualJson, ignore, `${at}(json)`);
+    }
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    return Array.from({ length }, (_, index) =>
+      diffJson(expected[index], actual[index], ignore, `${at}[${index}]`),
+    ).flat();
+  }
+
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [
+      ...new Set([...Object.keys(expected), ...Object.keys(actual)]),
+    ];
+    return keys
+      .filter((key) => !ignore.includes(key))
+      .flatMap((key) =>
+        diffJson(expected[key], actual[key], ignore, at ? `${at}.${key}` : key),
+      );
+  }
+
+  return Object.is(expected, actual) ? [] : [{ path: at, expected, actual }];
+}
+
+const describeTarget = (message: JSONRPCMessage) => {
+  if (!isJSONRPCRequest(message)) {
+    return;
+  }
+  const { name, uri } = (message.params ?? {}) as {
+    name?: unknown;
+    uri?: unknown;
+  };
+  const target = name ?? uri;
+  return typeof target === 'string' ? target : undefined;
+};
+
+/**
+ * Sends the requests recorded under `connection` to `transport`, in order,
+ * and compares each response with the recorded one. The transport is started
+ * and closed here.
+ */
+export async function diffCassette(
+  entries: CassetteEntry[],
+  connection: string,
+  transport: Transport,
+  {
+    ignore = [],
+    timeoutMs = 30_000,
+  }: { ignore?: string[]; timeoutMs?: number } = {},
+): Promise<RequestDiff[]> {
+  const recorded = entries.filter((entry) => entry.connection === connection);
+  if (recorded.length === 0) {
+    throw new CassetteError(
+      `The cassette has no connection named "${connection}". It has: ${cassetteConnections(entries).join(', ') || 'none'}`,
+    );
+  }
+
+  const waiting = new Map<RequestId, (message: JSONRPCMessage) => void>();
+  addTransportListener(transport, 'message', (message) => {
+    if (
+      (isJSONRPCResponse(message) || isJSONRPCError(message)) &&
+      message.id !== undefined
+    ) {
+      waiting.get(message.id)?.(message);
+      waiting.delete(message.id);
+    }
+  });
+  await transport.start();
+
+  // Waits for the response after the request has been sent
+  const within = async (response: Promise<JSONRPCMessage>, method: string) => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new Error(`No response to ${method} within ${timeoutMs / 1000}s`),
+          ),
+        timeoutMs,
+      );
+    });
+    try {
+      return await Promise.race([response, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const results: RequestDiff[] = [];
+  try {
+    for (const entry of recorded) {
+      const { message } = entry;
+      if (entry.direction !== 'send' || isJSONRPCResponse(message)) {
+        continue;
+      }
+      if (!isJSONRPCRequest(message)) {
+        await transport.send(message);
+        continue;
+      }
+
+      // Recorded requests that failed to send have nothing to compare with
+      const recordedResponse = recorded.find(
+        (reply) =>
+          reply.direction === 'receive' &&
+          (isJSONRPCResponse(reply.message) || isJSONRPCError(reply.message)) &&
+          reply.message.id === message.id,
+      );
+      if (!recordedResponse) {
+        continue;
+      }
+
+      // Registered before sending: the response can arrive before send()
+      // resolves
+      const response = new Promise<JSONRPCMessage>((resolve) =>
+        waiting.set(message.id, resolve),
+      );
+      try {
+        await transport.send(message);
+      } catch (error) {
+        waiting.delete(message.id);
+        throw error;
+      }
+      const actual = await within(response, message.method);
+
+      // The server version is expected to change
+      const differences = diffJson(
+        recordedResponse.message,
+        actual,
+        ignore,
+      ).filter(
+        ({ path: field }) => !field.startsWith('result.serverInfo.version'),
+      );
+      results.push({
+        method: message.method,
+        target: describeTarget(message),
+        differences,
+      });
+    }
+  } finally {
+    await transport.close();
+  }
+  return results;
+}
+
+const formatValue = (value: unknown) => {
+  const text = value === undefined ? '(missing)' : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/** Every value of a repeatable flag */
+function flagValues(argv: string[], name: string, example: string) {
+  const values: string[] = [];
+  let rest = argv;
+  for (;;) {
+    const value = flagValue(rest, name, example);
+    if (value === undefined) {
+      return values;
+    }
+    values.push(value);
+    const index = rest.findIndex(
+      (arg) => arg === name || arg.startsWith(`${name}=`),
+    );
+    rest = rest.slice(index + (rest[index] === name ? 2 : 1));
+  }
+}
+
+async function main(argv: string[]) {
+  const file = argv.find(
+    (arg, index) => !arg.startsWith('--') && !argv[index - 1]?.startsWith('--'),
+  );
+  if (!file) {
+    throw new ConfigError(
+      'Usage: pnpm cassette:diff <cassette.jsonl> (--url <mcp url> | --stdio <server script>) [--connection <name>] [--ignore <key>]...',
+    );
+  }
+  const entries = readCassette(file);
+
+  const connections = cassetteConnections(entries);
+  const connection =
+    flagValue(argv, '--connection', 'calculator') ??
+    (connections.length === 1 ? connections[0] : undefined);
+  if (!connection) {
+    throw new ConfigError(
+      `${file} has several connections; pick one with --connection: ${connections.join(', ')}`,
+    );
+  }
+
+  const url = flagValue(argv, '--url', 'http://localhost:8087/mcp');
+  const script = flagValue(
+    argv,
+    '--stdio',
+    'src/04-stdio-filesystem/server.ts',
+  );
+  if ((url === undefined) === (script === undefined)) {
+    throw new ConfigError(
+      'Give the server to check with either --url or --stdio',
+    );
+  }
+  const transport = url
+    ? new StreamableHTTPClientTransport(new URL(url))
+    : new StdioClientTransport({
+        command: process.execPath,
+        args: ['--import', 'tsx', path.resolve(script!)],
+        stderr: 'ignore',
+      });
+
+  console.log(
+    `🔍 Replaying "${connection}" from ${file} against ${url ?? script}\n`,
+  );
+  const results = await diffCassette(entries, connection, transport, {
+    ignore: flagValues(argv, '--ignore', 'timestamp'),
+  });
+
+  for (const { method, target, differences } of results) {
+    const label = target ? `${method} ${target}` : method;
+    if (differences.length === 0) {
+      console.log(`✅ ${label}`);
+      continue;
+    }
+    console.log(`❌ ${label}: ${differences.length} difference(s)`);
+    for (const { path: field, expected, actual } of differences) {
+      console.log(
+        `   ${field}: ${formatValue(expected)} → ${formatValue(actual)}`,
+      );
+    }
+  }
+
+  const drifted = results.filter(({ differences }) => differences.length > 0);
+  console.log(
+    `\n${drifted.length === 0 ? '✅' : '❌'} ${results.length - drifted.length} of ${results.length} response(s) match the cassette`,
+  );
+  return drifted.length === 0;
+}
+
+if (isMainModule(import.meta.url)) {
+  try {
+    const matched = await main(process.argv.slice(2));
+    process.exitCode = matched ? 0 : 1;
+  } catch (error) {
+    if (!(error instanceof Error)) {
+      throw error;
+    }
+    // Connection failures carry the reason (e.g. ECONNREFUSED) as the cause
+    const cause =
+      error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    console.error(`❌ ${error.message}${cause}`);
+    process.exitCode = 1;
+  }
+}
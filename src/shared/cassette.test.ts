@@ -0,0 +1,197 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ALICE_API_KEY, BOB_API_KEY } from '../06-auth-api-key/constants';
+import { startServer } from '../06-auth-api-key/server';
+import {
+  createRecordingTransport,
+  createReplayTransport,
+  NOT_RECORDED,
+  readCassette,
+} from './cassette';
+import { diffCassette, diffJson } from './cassette-diff';
+import {
+  connectTransport,
+  startTestServer,
+  type TestServer,
+} from './test-harness';
+
+describe('cassettes', () => {
+  let directory: string;
+  let cassette: string;
+  let server: TestServer;
+
+  const httpTransport = (apiKey: string) =>
+    new StreamableHTTPClientTransport(server.url, {
+      requestInit: { headers: { 'X-API-Key': apiKey } },
+    });
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-cassette-'));
+    cassette = path.join(directory, 'session.jsonl');
+    server = await startTestServer(startServer);
+
+    // One session as bob, and a connection attempt with a bad key
+    const bob = await connectTransport(
+      createRecordingTransport(httpTransport(BOB_API_KEY), {
+        file: cassette,
+        connection: 'bob',
+      }),
+    );
+    await bob.listTools();
+    await bob.callTool('getAccountBalance');
+    await bob.callTool('getLatestTransactions', { limit: 1 });
+    await bob.close();
+
+    await expect(
+      connectTransport(
+        createRecordingTransport(httpTransport('not-a-key'), {
+          file: cassette,
+          connection: 'intruder',
+        }),
+      ),
+    ).rejects.toThrow();
+  });
+
+  afterAll(async () => {
+    await server?.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records every message with its connection and direction', () => {
+    const entries = readCassette(cassette);
+    const bob = entries.filter(({ connection }) => connection === 'bob');
+    expect(
+      bob
+        .filter(({ direction }) => direction === 'send')
+        .map(({ message }) => ('method' in message ? message.method : '')),
+    ).toEqual([
+      'initialize',
+      'notifications/initialized',
+      'tools/list',
+      'tools/call',
+      'tools/call',
+    ]);
+    expect(bob.filter(({ direction }) => direction === 'receive')).toHaveLength(
+      4,
+    );
+
+    const intruder = entries.filter(
+      ({ connection }) => connection === 'intruder',
+    );
+    expect(intruder.map(({ direction }) => direction)).toEqual([
+      'send',
+      'error',
+    ]);
+  });
+
+  describe('replay', () => {
+    it('answers recorded requests without the server', async () => {
+      const client = await connectTransport(
+        createReplayTransport(readCassette(cassette), 'bob'),
+      );
+      try {
+        expect(await client.listTools()).toContain('getAccountBalance');
+        const { text } = await client.callTool('getAccountBalance');
+        expect(JSON.parse(text)).toEqual({ username: 'bob', balance: -200 });
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('rejects requests that were not recorded', async () => {
+      const client = await connectTransport(
+        createReplayTransport(readCassette(cassette), 'bob'),
+      );
+      try {
+        await expect(
+          client.callTool('getLatestTransactions', { limit: 2 }),
+        ).rejects.toMatchObject({ code: NOT_RECORDED });
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('fails the way the recorded session failed', async () => {
+      await expect(
+        connectTransport(
+          createReplayTransport(readCassette(cassette), 'intruder'),
+        ),
+      ).rejects.toThrow(/Error POSTing to endpoint/);
+    });
+
+    it('names the connections a cassette has', () => {
+      expect(() =>
+        createReplayTransport(readCassette(cassette), 'carol'),
+      ).toThrow('The cassette has no connection named "carol". It has: bob');
+    });
+  });
+
+  describe('diff', () => {
+    it('finds no drift when the server answers the same', async () => {
+      const results = await diffCassette(
+        readCassette(cassette),
+        'bob',
+        httpTransport(BOB_API_KEY),
+      );
+      expect(results.map(({ method, target }) => [method, target])).toEqual([
+        ['initialize', undefined],
+        ['tools/list', undefined],
+        ['tools/call', 'getAccountBalance'],
+        ['tools/call', 'getLatestTransactions'],
+      ]);
+      expect(results.flatMap(({ differences }) => differences)).toEqual([]);
+    });
+
+    it('reports the fields that changed', async () => {
+      // The same requests as alice get alice's data back
+      const results = await diffCassette(
+        readCassette(cassette),
+        'bob',
+        httpTransport(ALICE_API_KEY),
+        { ignore: ['date', 'id'] },
+      );
+      const balance = results.find(
+        ({ target }) => target === 'getAccountBalance',
+      );
+      expect(balance?.differences).toEqual([
+        {
+          path: 'result.content[0].text(json).username',
+          expected: 'bob',
+          actual: 'alice',
+        },
+        {
+          path: 'result.content[0].text(json).balance',
+          expected: -200,
+          actual: 180,
+        },
+      ]);
+      expect(
+        results
+          .filter(({ differences }) => differences.length > 0)
+          .map(({ target }) => target),
+      ).toEqual(['getAccountBalance', 'getLatestTransactions']);
+    });
+  });
+
+  describe('diffJson', () => {
+    it('reports missing and extra fields', () => {
+      expect(diffJson({ a: 1, b: [1, 2] }, { b: [1], c: true })).toEqual([
+        { path: 'a', expected: 1, actual: undefined },
+        { path: 'b[1]', expected: 2, actual: undefined },
+        { path: 'c', expected: undefined, actual: true },
+      ]);
+    });
+  });
+
+  it('points at the line of an invalid entry', () => {
+    const broken = path.join(directory, 'broken.jsonl');
+    fs.writeFileSync(broken, `${fs.readFileSync(cassette, 'utf8')}{oops\n`);
+    const lines = fs.readFileSync(broken, 'utf8').trim().split('\n').length;
+    expect(() => readCassette(broken)).toThrow(
+      `${broken}:${lines}: not valid JSON`,
+    );
+  });
+});
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import {
+  isJSONRPCError,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  JSONRPCMessageSchema,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types';
+import { z } from 'zod';
+import { flagValue } from './config';
+import { addTransportListener } from './transport-listeners';
+
+/**
+ * Recording and replaying MCP sessions.
+ *
+ * A cassette is a JSONL file with one line for every JSON-RPC message a
+ * client sent or received, labelled with the connection it belongs to (a
+ * client can talk to several servers). Run a client with
+ * `--record session.jsonl` to record one; run it again with
+ * `--replay session.jsonl` and it gets the recorded responses back without a
+ * server. `pnpm cassette:diff` sends the recorded requests to a live server
+ * and reports the responses that changed.
+ */
+
+export class CassetteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteError';
+  }
+}
+
+/** Error code for requests a cassette has no response to */
+export const NOT_RECORDED = -32_030;
+
+const cassetteEntrySchema = z.object({
+  /** Milliseconds since the recording started */
+  time: z.number(),
+  connection: z.string().min(1),
+  /** "error" entries follow a sent message that couldn't be delivered */
+  direction: z.enum(['send', 'receive', 'error']),
+  message: z.custom<JSONRPCMessage>(
+    (message) => JSONRPCMessageSchema.safeParse(message).success,
+    'Not a JSON-RPC message',
+  ),
+  /** Why sending failed, e.g. an HTTP error, for "error" entries */
+  error: z.string().optional(),
+});
+
+export type CassetteEntry = z.infer<typeof cassetteEntrySchema>;
+
+/**
+ * Reads and validates a cassette.
+ *
+ * @throws {CassetteError} naming the first line that isn't a valid entry
+ */
+export function readCassette(file: string): CassetteEntry[] {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new CassetteError(
+      `Can't read cassette ${file}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return text
+    .split('\n')
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== '')
+    .map(({ line, number }) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new CassetteError(`${file}:${number}: not valid JSON`);
+      }
+      const result = cassetteEntrySchema.safeParse(parsed);
+      if (!result.success) {
+        const [issue] = result.error.issues;
+        throw new CassetteError(
+          `${file}:${number}: ${issue?.path.join('.') || 'entry'}: ${issue?.message}`,
+        );
+      }
+      return result.data;
+    });
+}
+
+/** The connections recorded in a cassette, in the order they appear */
+export const cassetteConnections = (entries: CassetteEntry[]) => [
+  ...new Set(entries.map(({ connection }) => connection)),
+];
+
+// When each cassette file started recording in this process. The first
+// connection to record into a file empties it; later ones append.
+const recordingStarted = new Map<string, number>();
+
+/**
+ * Wraps a transport so every message it sends and receives is appended to the
+ * cassette `file` under the name `connection`.
+ *
+ * Entries are written synchronously, so the cassette is complete up to the
+ * last message even when the client crashes or exits abruptly.
+ */
+export function createRecordingTransport(
+  transport: Transport,
+  { file, connection }: { file: string; connection: string },
+): Transport {
+  if (!recordingStarted.has(file)) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    fs.writeFileSync(file, '');
+    recordingStarted.set(file, Date.now());
+  }
+  const started = recordingStarted.get(file)!;
+
+  const record = (
+    direction: CassetteEntry['direction'],
+    message: JSONRPCMessage,
+    error?: string,
+  ) => {
+    const entry: CassetteEntry = {
+      time: Date.now() - started,
+      connection,
+      direction,
+      message,
+      error,
+    };
+    fs.appendFileSync(file, `${JSON.stringify(entry)}\n`);
+  };
+
+  const recording: Transport = {
+    async start() {
+      addTransportListener(transport, 'message', (message, extra) => {
+        record('receive', message);
+        recording.onmessage?.(message, extra);
+      });
+      addTransportListener(transport, 'error', (error) =>
+        recording.onerror?.(error),
+      );
+      addTransportListener(transport, 'close', () => recording.onclose?.());
+      await transport.start();
+    },
+    async send(message, options) {
+      // Recorded first: the response can arrive before send() resolves
+      record('send', message);
+      try {
+        await transport.send(message, options);
+      } catch (error) {
+        record(
+          'error',
+          message,
+          error instanceof Error ? error.message : String(error),
+        );
+        throw error;
+      }
+    },
+    close: () => transport.close(),
+    get sessionId() {
+      return transport.sessionId;
+    },
+    setProtocolVersion: (version) => transport.setProtocolVersion?.(version),
+  };
+  return recording;
+}
+
+// Progress tokens differ between runs (the SDK uses the request ID), so they
+// are left out when matching requests
+const withoutMeta = (params: Record<string, unknown> = {}) =>
+  Object.fromEntries(Object.entries(params).filter(([key]) => key !== '_meta'));
+
+const progressToken = (message: JSONRPCMessage) =>
+  'params' in message
+    ? (message.params?._meta as { progressToken?: RequestId } | undefined)
+        ?.progressToken
+    : undefined;
+
+/**
+ * A transport that answers from the entries recorded under `connection`
+ * instead of talking to a server.
+ *
+ * Each request is matched to the first unused recorded request with the same
+ * method and parameters. The notifications the server sent while handling it
+ * are delivered, then its response, with the request ID and progress token
+ * changed to the ones the client used this time. Requests the cassette has no
+ * answer to get a `NOT_RECORDED` error; notifications and responses from the
+ * client are dropped.
+ */
+export function createReplayTransport(
+  entries: CassetteEntry[],
+  connection: string,
+): Transport {
+  const recorded = entries.filter((entry) => entry.connection === connection);
+  if (recorded.length === 0) {
+    throw new CassetteError(
+      `The cassette has no connection named "${connection}". It has: ${cassetteConnections(entries).join(', ') || 'none'}`,
+    );
+  }
+  const used = new Set<CassetteEntry>();
+  let closed = false;
+
+  const replay: Transport = {
+    async start() {},
+
+    async send(message) {
+      if (closed) {
+        throw new CassetteError('The replay transport is closed');
+      }
+      if (!isJSONRPCRequest(message)) {
+        return;
+      }
+
+      const index = recorded.findIndex(
+        (entry) =>
+          !used.has(entry) &&
+          entry.direction === 'send' &&
+          isJSONRPCRequest(entry.message) &&
+          entry.message.method === message.method &&
+          isDeepStrictEqual(
+            withoutMeta(entry.message.params),
+            withoutMeta(message.params),
+          ),
+      );
+      const request = recorded[index];
+      if (!request || !isJSONRPCRequest(request.message)) {
+        deliver({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: {
+            code: NOT_RECORDED,
+            message: `The cassette has no response to ${message.method} with these parameters`,
+            data: { method: message.method, params: message.params },
+          },
+        });
+        return;
+      }
+      used.add(request);
+
+      const recordedId = request.message.id;
+      const recordedToken = progressToken(request.message);
+      const token = progressToken(message);
+      for (const entry of recorded.slice(index + 1)) {
+        const reply = entry.message;
+        if (used.has(entry) || entry.direction === 'send') {
+          continue;
+        }
+        if (entry.direction === 'error') {
+          if (isJSONRPCRequest(reply) && reply.id === recordedId) {
+            used.add(entry);
+            throw new Error(entry.error);
+          }
+          continue;
+        }
+        if (
+          (isJSONRPCResponse(reply) || isJSONRPCError(reply)) &&
+          reply.id === recordedId
+        ) {
+          used.add(entry);
+          deliver({ ...reply, id: message.id });
+          return;
+        }
+        if (!isJSONRPCNotification(reply)) {
+          continue;
+        }
+        // Progress belongs to one request; other notifications (logging,
+        // list changes) are delivered in the order they were recorded
+        const notificationToken = reply.params?.progressToken;
+        if (notificationToken === undefined) {
+          used.add(entry);
+          deliver(reply);
+        } else if (notificationToken === recordedToken) {
+          used.add(entry);
+          deliver({
+            ...reply,
+            params: { ...reply.params, progressToken: token },
+          });
+        }
+      }
+      deliver({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: NOT_RECORDED,
+          message: `The cassette ends before the response to ${message.method}`,
+        },
+      });
+    },
+
+    async close() {
+      if (!closed) {
+        closed = true;
+        replay.onclose?.();
+      }
+    },
+  };
+
+  // Messages arrive asynchronously, as they would from a server
+  function deliver(message: JSONRPCMessage) {
+    setImmediate(() => {
+      if (!closed) {
+        replay.onmessage?.(message);
+      }
+    });
+  }
+
+  return replay;
+}
+
+/**
+ * The transport an example client should use for `connection`: the one
+ * `createTransport` makes, recorded with `--record <file>`, or a replay of a
+ * cassette instead of a server with `--replay <file>`. The flags can also be
+ * set with `MCP_RECORD` and `MCP_REPLAY`.
+ *
+ * @throws {ConfigError} when a flag has no value
+ * @throws {CassetteError} when the cassette to replay can't be read
+ */
+export function cassetteTransport(
+  connection: string,
+  createTransport: () => Transport,
+  argv: string[] = process.argv,
+): Transport {
+  const replayFile =
+    flagValue(argv, '--replay', 'session.jsonl') ?? process.env.MCP_REPLAY;
+  if (replayFile) {
+    console.log(`📼 Replaying ${connection} from ${replayFile}`);
+    return createReplayTransport(readCassette(replayFile), connection);
+  }
+
+  const recordFile =
+    flagValue(argv, '--record', 'session.jsonl') ?? process.env.MCP_RECORD;
+  if (recordFile) {
+    console.log(`⏺️  Recording ${connection} to ${recordFile}`);
+    return createRecordingTransport(createTransport(), {
+      file: recordFile,
+      connection,
+    });
+  }
+  return createTransport();
+}
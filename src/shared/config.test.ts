@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { ConfigError, parseConfig, port } from './config';
+
+describe('config', () => {
+  const shape = { port: port(3000), name: z.string().default('calculator') };
+  const envVars = { APP_PORT: 'port' } as const;
+  const sources = (file: Record<string, unknown>, env = {}) => ({
+    file,
+    filePath: '/app/mcp.config.json',
+    env,
+  });
+
+  it('merges defaults, the config file and the environment', () => {
+    expect(
+      parseConfig(
+        'app',
+        shape,
+        envVars,
+        sources({ app: { port: 4000, name: 'file' } }, { APP_PORT: '5000' }),
+      ),
+    ).toEqual({ port: 5000, name: 'file' });
+  });
+
+  it('says where an invalid value came from', () => {
+    expect(() =>
+      parseConfig('app', shape, envVars, sources({}, { APP_PORT: 'x' })),
+    ).toThrow(/app\.port: .* \(from APP_PORT="x"\)/);
+  });
+
+  it.each([null, 'port', [1]])('rejects a %j section', (section) => {
+    expect(() =>
+      parseConfig('app', shape, envVars, sources({ app: section })),
+    ).toThrow(
+      new ConfigError(
+        'Invalid configuration: "app" in /app/mcp.config.json must be an object',
+      ),
+    );
+  });
+});
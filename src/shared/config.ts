@@ -0,0 +1,199 @@
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Configuration for the example servers.
+ *
+ * Each example declares its settings as a zod schema with defaults and loads
+ * its own section. Values are merged in this order, later sources winning:
+ *
+ * 1. the schema's defaults
+ * 2. the section of the same name in `mcp.config.json` (or the file named by
+ *    `MCP_CONFIG_FILE`), if there is one
+ * 3. environment variables, including those in `.env`
+ *
+ * Invalid values stop the server at startup with a `ConfigError` listing
+ * what's wrong and where each value came from.
+ */
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigSources {
+  /** The parsed config file, keyed by section */
+  file: Record<string, unknown>;
+  /** Where the file was read from, for error messages */
+  filePath?: string;
+  env: Record<string, string | undefined>;
+}
+
+const DEFAULT_CONFIG_FILE = 'mcp.config.json';
+
+/** A TCP port; environment variables arrive as strings, so it's coerced */
+export const port = (defaultPort: number) =>
+  z.coerce.number().int().min(1).max(65_535).default(defaultPort);
+
+/** A list given as an array in the config file or comma-separated in env */
+export const list = (defaults: string[]) =>
+  z
+    .preprocess(
+      (value) =>
+        typeof value === 'string'
+          ? value
+              .split(',')
+              .map((entry) => entry.trim())
+              .filter(Boolean)
+          : value,
+      z.array(z.string().min(1)),
+    )
+    .default(defaults);
+
+/**
+ * A secret with a default for local development. The default is refused
+ * when `NODE_ENV` is `production`, so it can't end up in a deployment.
+ */
+export const secret = (developmentDefault: string) =>
+  z
+    .string()
+    .min(1)
+    .default(developmentDefault)
+    .refine(
+      (value) =>
+        process.env.NODE_ENV !== 'production' || value !== developmentDefault,
+      'must be set in production (the default is for local development only)',
+    );
+
+function readConfigFile(
+  env: Record<string, string | undefined>,
+): Pick<ConfigSources, 'file' | 'filePath'> {
+  const filePath = path.resolve(env.MCP_CONFIG_FILE ?? DEFAULT_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    if (env.MCP_CONFIG_FILE) {
+      throw new ConfigError(`Config file ${filePath} does not exist`);
+    }
+    return { file: {} };
+  }
+  let file: unknown;
+  try {
+    file = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(
+      `Config file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (typeof file !== 'object' || file === null || Array.isArray(file)) {
+    throw new ConfigError(`Config file ${filePath} must contain an object`);
+  }
+  return { file: file as Record<string, unknown>, filePath };
+}
+
+let processSources: ConfigSources | undefined;
+
+const defaultSources = (): ConfigSources => {
+  processSources ??= { ...readConfigFile(process.env), env: process.env };
+  return processSources;
+};
+
+/**
+ * Resolves one section of the configuration from `sources`. `envVars` maps
+ * environment variable names to keys of the section.
+ *
+ * @throws {ConfigError} listing every invalid value
+ */
+export function parseConfig<T extends z.ZodRawShape>(
+  section: string,
+  shape: T,
+  envVars: Record<string, keyof T & string>,
+  sources: ConfigSources,
+): z.infer<z.ZodObject<T>> {
+  const fromFile =
+    sources.file[section] === undefined ? {} : sources.file[section];
+  if (
+    typeof fromFile !== 'object' ||
+    fromFile === null ||
+    Array.isArray(fromFile)
+  ) {
+    throw new ConfigError(
+      `Invalid configuration: "${section}" in ${sources.filePath} must be an object`,
+    );
+  }
+
+  // Remembers where each overridden key came from, for error messages
+  const origins = new Map<string, string>(
+    Object.keys(fromFile).map((key) => [key, sources.filePath!]),
+  );
+  const fromEnv: Record<string, string> = {};
+  for (const [name, key] of Object.entries(envVars)) {
+    const value = sources.env[name];
+    if (value !== undefined && value !== '') {
+      fromEnv[key] = value;
+      origins.set(key, `${name}=${JSON.stringify(value)}`);
+    }
+  }
+
+  const result = z
+    .object(shape)
+    .strict()
+    .safeParse({ ...fromFile, ...fromEnv });
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => {
+    const key = issue.path.join('.');
+    const origin = origins.get(String(issue.path[0]));
+    return `  - ${section}${key ? `.${key}` : ''}: ${issue.message}${origin ? ` (from ${origin})` : ''}`;
+  });
+  throw new ConfigError(
+    `Invalid configuration for "${section}":\n${issues.join('\n')}`,
+  );
+}
+
+/**
+ * `parseConfig` with the process's config file and environment, for modules
+ * that load their settings when imported. An invalid setting fails the
+ * import, which stops the program that imported it; nothing here exits the
+ * process, so tests and tools can catch the error.
+ *
+ * @throws {ConfigError} listing every invalid value
+ */
+export function loadConfig<T extends z.ZodRawShape>(
+  section: string,
+  shape: T,
+  envVars: Record<string, keyof T & string> = {},
+): z.infer<z.ZodObject<T>> {
+  return parseConfig(section, shape, envVars, defaultSources());
+}
+
+/**
+ * The value of a command line flag given as `--name value` or `--name=value`,
+ * if given. `example` is shown when the value is missing.
+ *
+ * @throws {ConfigError} when the flag has no value
+ */
+export function flagValue(
+  argv: string[],
+  name: string,
+  example: string,
+): string | undefined {
+  const index = argv.findIndex(
+    (arg) => arg === name || arg.startsWith(`${name}=`),
+  );
+  if (index === -1) {
+    return undefined;
+  }
+  const arg = argv[index]!;
+  const value = arg.startsWith(`${name}=`)
+    ? arg.slice(name.length + 1)
+    : argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new ConfigError(`${name} needs a value such as ${example}`);
+  }
+  return value;
+}
@@ -0,0 +1,298 @@
+import { z } from 'zod';
+
+/**
+ * Exact decimal arithmetic backed by BigInt.
+ *
+ * A value is stored as an integer coefficient and a scale (the number of
+ * digits after the decimal point), so `0.1` is `1n` at scale 1 and
+ * `0.1 + 0.2` is exactly `0.3`. Addition, subtraction and multiplication are
+ * always exact; division and explicit rounding take a target scale and a
+ * rounding mode. Values go in and come out as strings so no precision is lost
+ * crossing JSON.
+ */
+
+export const ROUNDING_MODES = [
+  'half-even',
+  'half-up',
+  'half-down',
+  'up',
+  'down',
+  'ceiling',
+  'floor',
+] as const;
+
+export type RoundingMode = (typeof ROUNDING_MODES)[number];
+
+/** Scale used for division when the caller doesn't ask for one. */
+export const DEFAULT_DIVISION_SCALE = 20;
+
+/**
+ * Most digits a decimal may have written out in full, exponent applied.
+ * BigInt arithmetic slows down sharply with size, so `1e-5000000` would block
+ * the event loop for seconds.
+ */
+export const MAX_DECIMAL_DIGITS = 1000;
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+export class DecimalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecimalError';
+  }
+}
+
+/** Integer division of `n` by `d` rounded according to `mode`. */
+function divideRounded(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  if (d < 0n) {
+    n = -n;
+    d = -d;
+  }
+  const quotient = n / d;
+  const remainder = n % d;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const sign = n < 0n ? -1n : 1n;
+  const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+  let awayFromZero: boolean;
+  switch (mode) {
+    case 'up':
+      awayFromZero = true;
+      break;
+    case 'down':
+      awayFromZero = false;
+      break;
+    case 'ceiling':
+      awayFromZero = sign > 0n;
+      break;
+    case 'floor':
+      awayFromZero = sign < 0n;
+      break;
+    default:
+      if (twiceRemainder === d) {
+        awayFromZero =
+          mode === 'half-up' || (mode === 'half-even' && quotient % 2n !== 0n);
+      } else {
+        awayFromZero = twiceRemainder > d;
+      }
+  }
+  return awayFromZero ? quotient + sign : quotient;
+}
+
+export class Decimal {
+  private constructor(
+    readonly coefficient: bigint,
+    readonly scale: number,
+  ) {}
+
+  /**
+   * Parses a decimal string such as `"-12.50"` or `"1e-3"`, or a finite
+   * number. Numbers are converted through their shortest string form.
+   *
+   * @throws {DecimalError} when the value is not a valid finite decimal
+   */
+  static parse(value: string | number | bigint): Decimal {
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new DecimalError(`${value} is not a finite number`);
+    }
+
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match ?? [];
+    if (!match || (integer === '' && fraction === '')) {
+      throw new DecimalError(`'${text}' is not a valid decimal number`);
+    }
+
+    // Sized up before any BigInt is built
+    let scale = fraction.length - Number(exponent);
+    const digits = integer.length + fraction.length;
+    const written = scale < 0 ? digits - scale : Math.max(digits, scale);
+    if (written > MAX_DECIMAL_DIGITS) {
+      throw new DecimalError(
+        `'${text.length > 40 ? `${text.slice(0, 40)}...` : text}' has more than ${MAX_DECIMAL_DIGITS} digits`,
+      );
+    }
+
+    let coefficient = BigInt(`${integer}${fraction}` || '0');
+    if (sign === '-') {
+      coefficient = -coefficient;
+    }
+    if (scale < 0) {
+      coefficient *= 10n ** BigInt(-scale);
+      scale = 0;
+    }
+    return new Decimal(coefficient, scale);
+  }
+
+  private rescale(scale: number): bigint {
+    return this.coefficient * 10n ** BigInt(scale - this.scale);
+  }
+
+  add(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) + other.rescale(scale), scale);
+  }
+
+  subtract(other: Decimal): Decimal {
+    const scale = Math.max(this.scale, other.scale);
+    return new Decimal(this.rescale(scale) - other.rescale(scale), scale);
+  }
+
+  multiply(other: Decimal): Decimal {
+    return new Decimal(
+      this.coefficient * other.coefficient,
+      this.scale + other.scale,
+    );
+  }
+
+  /**
+   * @throws {DecimalError} when dividing by zero
+   */
+  divide(
+    other: Decimal,
+    scale = DEFAULT_DIVISION_SCALE,
+    rounding: RoundingMode = 'half-even',
+  ): Decimal {
+    if (other.isZero()) {
+      throw new DecimalError('Cannot divide by zero');
+    }
+    // (a / 10^as) / (b / 10^bs) at scale s = a * 10^(bs + s) / (b * 10^as)
+    const numerator = this.coefficient * 10n ** BigInt(other.scale + scale);
+    const denominator = other.coefficient * 10n ** BigInt(this.scale);
+    return new Decimal(divideRounded(numerator, denominator, rounding), scale);
+  }
+
+  /** Rounds (or pads) the value to exactly `scale` fractional digits. */
+  round(scale: number, rounding: RoundingMode = 'half-even'): Decimal {
+    if (scale >= this.scale) {
+      return new Decimal(this.rescale(scale), scale);
+    }
+    return new Decimal(
+      divideRounded(
+        this.coefficient,
+        10n ** BigInt(this.scale - scale),
+        rounding,
+      ),
+      scale,
+    );
+  }
+
+  isZero(): boolean {
+    return this.coefficient === 0n;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    const negative = this.coefficient < 0n;
+    const digits = (negative ? -this.coefficient : this.coefficient)
+      .toString()
+      .padStart(this.scale + 1, '0');
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale);
+    return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+  }
+}
+
+export type DecimalOperation = 'add' | 'subtract' | 'multiply' | 'divide';
+
+export interface DecimalOptions {
+  /** Fractional digits in the result. Exact when omitted (except division). */
+  scale?: number;
+  rounding?: RoundingMode;
+}
+
+/**
+ * Applies a binary operation to two decimal inputs and returns the result as
+ * a string.
+ *
+ * @throws {DecimalError} for invalid input or division by zero
+ */
+export function calculateDecimal(
+  operation: DecimalOperation,
+  a: string | number,
+  b: string | number,
+  { scale, rounding = 'half-even' }: DecimalOptions = {},
+): string {
+  const left = Decimal.parse(a);
+  const right = Decimal.parse(b);
+
+  let result: Decimal;
+  switch (operation) {
+    case 'add':
+      result = left.add(right);
+      break;
+    case 'subtract':
+      result = left.subtract(right);
+      break;
+    case 'multiply':
+      result = left.multiply(right);
+      break;
+    case 'divide':
+      result = left.divide(right, scale ?? DEFAULT_DIVISION_SCALE, rounding);
+      break;
+  }
+  return (
+    scale === undefined ? result : result.round(scale, rounding)
+  ).toString();
+}
+
+export const PRECISION_MODES = ['float', 'decimal'] as const;
+
+/** `float` uses JavaScript numbers; `decimal` uses exact decimal strings. */
+export type PrecisionMode = (typeof PRECISION_MODES)[number];
+
+export interface PrecisionSettings extends DecimalOptions {
+  mode: PrecisionMode;
+}
+
+/**
+ * Tool parameter accepting a JSON number or a decimal string. Strings keep
+ * their full precision in decimal mode.
+ */
+export const numericInput = z.union([
+  z.number(),
+  z
+    .string()
+    .trim()
+    .regex(
+      /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/,
+      'Must be a number or a decimal string',
+    )
+    .refine((value) => {
+      try {
+        Decimal.parse(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, `Must have at most ${MAX_DECIMAL_DIGITS} digits`),
+]);
+
+/** Optional per-call precision parameters shared by the calculator tools. */
+export const precisionParameters = {
+  precision: z
+    .enum(PRECISION_MODES)
+    .optional()
+    .describe(
+      'Use "decimal" for exact decimal arithmetic with string results (defaults to the session setting)',
+    ),
+  scale: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(100)
+    .optional()
+    .describe('Decimal mode: number of digits after the decimal point'),
+  rounding: z
+    .enum(ROUNDING_MODES)
+    .optional()
+    .describe('Decimal mode: rounding mode (default half-even)'),
+};
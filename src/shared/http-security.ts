@@ -0,0 +1,154 @@
+import type { IncomingMessage } from 'http';
+import type { FastMCP, FastMCPSessionAuth } from 'fastmcp';
+import { z } from 'zod';
+import { list, loadConfig } from './config';
+
+/**
+ * Origin and Host checks for the examples' HTTP servers.
+ *
+ * A server on localhost is still reachable from any web page the user opens:
+ * the page can send requests to it (checked with `Origin`), or point its own
+ * domain at 127.0.0.1 and talk to the server as a "same-origin" site (DNS
+ * rebinding, checked with `Host`). Requests that fail either check are
+ * rejected with 403 and logged. Requests without an `Origin` header come from
+ * non-browser clients and are allowed.
+ *
+ * Settings are the "http" section of the configuration (see `config.ts`),
+ * or these environment variables:
+ *
+ * - `MCP_HOST`: the address to listen on (default `localhost`, so other
+ *   machines can't connect at all)
+ * - `MCP_ALLOWED_ORIGINS`: comma-separated origins, `*` for any. A `:*` port
+ *   matches any port (default: localhost origins on any port).
+ * - `MCP_ALLOWED_HOSTS`: comma-separated host names accepted in `Host`, `*`
+ *   for any (default: localhost names). Add the server's public name when
+ *   listening on another address.
+ *
+ * FastMCP has no hook in front of the MCP endpoint other than `authenticate`,
+ * so `guardRequests` wraps it; `guardRoutes` covers the other HTTP routes.
+ *
+ * CORS headers are not configured here. mcp-proxy, which runs FastMCP's HTTP
+ * server, answers every request that has an `Origin` with
+ * `Access-Control-Allow-Origin: *`, and FastMCP has no option to change that.
+ * The allowlist is enforced by rejecting requests instead: a preflight
+ * `OPTIONS` from any origin still succeeds, but the request after it gets a
+ * 403 unless its origin is allowed.
+ */
+
+export interface HttpSecurityConfig {
+  host: string;
+  allowedOrigins: string[];
+  allowedHosts: string[];
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export const HTTP_SECURITY: HttpSecurityConfig = loadConfig(
+  'http',
+  {
+    host: z.string().min(1).default('localhost'),
+    allowedOrigins: list(LOCAL_HOSTS.map((host) => `http://${host}:*`)),
+    allowedHosts: list(LOCAL_HOSTS),
+  },
+  {
+    MCP_HOST: 'host',
+    MCP_ALLOWED_ORIGINS: 'allowedOrigins',
+    MCP_ALLOWED_HOSTS: 'allowedHosts',
+  },
+);
+
+const isAllowedOrigin = (origin: string, allowed: string[]) => {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  return allowed.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    if (entry.endsWith(':*')) {
+      return `${url.protocol}//${url.hostname}` === entry.slice(0, -2);
+    }
+    return url.origin === entry;
+  });
+};
+
+const isAllowedHost = (host: string, allowed: string[]) => {
+  let hostname: string;
+  try {
+    ({ hostname } = new URL(`http://${host}`));
+  } catch {
+    return false;
+  }
+  return allowed.includes('*') || allowed.includes(hostname);
+};
+
+/**
+ * Returns why a request must be rejected, or `undefined` if it may proceed.
+ */
+export function checkRequest(
+  headers: { origin?: string | null; host?: string | null },
+  config: HttpSecurityConfig = HTTP_SECURITY,
+): string | undefined {
+  if (!headers.host || !isAllowedHost(headers.host, config.allowedHosts)) {
+    return `Host ${headers.host ?? '(none)'} is not allowed`;
+  }
+  if (
+    headers.origin &&
+    !isAllowedOrigin(headers.origin, config.allowedOrigins)
+  ) {
+    return `Origin ${headers.origin} is not allowed`;
+  }
+  return undefined;
+}
+
+const logRejection = (method: string, url: string, reason: string) => {
+  console.warn(`🚫 Rejected ${method} ${url}: ${reason}`);
+};
+
+/**
+ * Checks Origin and Host on every MCP request, then runs `authenticate` if
+ * given. Use it as the server's `authenticate` option.
+ *
+ * @throws {Response} 403 when the request fails a check
+ */
+export function guardRequests<
+  T extends FastMCPSessionAuth = Record<string, never>,
+>(
+  // Without an authenticate function every session gets an empty object,
+  // since FastMCP refuses sessions whose authenticate returns nothing
+  authenticate: (request: IncomingMessage) => Promise<T> = async () =>
+    ({}) as T,
+) {
+  return async (request: IncomingMessage): Promise<T> => {
+    const reason = checkRequest({
+      origin: request.headers.origin,
+      host: request.headers.host,
+    });
+    if (reason) {
+      logRejection(request.method ?? 'GET', request.url ?? '/', reason);
+      throw new Response(null, { status: 403, statusText: reason });
+    }
+    return authenticate(request);
+  };
+}
+
+/**
+ * Applies the same checks to the server's other HTTP routes (health checks,
+ * metrics, anything added with `server.getApp()`).
+ */
+export function guardRoutes<T extends FastMCPSessionAuth>(server: FastMCP<T>) {
+  server.getApp().use('*', async (c, next) => {
+    const reason = checkRequest({
+      origin: c.req.header('origin'),
+      host: c.req.header('host'),
+    });
+    if (reason) {
+      logRejection(c.req.method, c.req.path, reason);
+      return c.text(reason, 403);
+    }
+    await next();
+  });
+}
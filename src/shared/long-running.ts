@@ -0,0 +1,59 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { UserError } from 'fastmcp';
+import type { ToolCallMiddleware } from './tool-call-middleware';
+
+/**
+ * Helpers for long-running tools: cancellation and throttled progress.
+ *
+ * The SDK aborts a request's `AbortSignal` when the client sends
+ * `notifications/cancelled`, but FastMCP doesn't pass that signal on to
+ * `execute`. The `cancellation` middleware keeps it in async-local storage
+ * for the duration of the tool call, and `checkpoint()` checks it.
+ */
+
+const signals = new AsyncLocalStorage<AbortSignal>();
+
+/** Makes the request's abort signal available to `checkpoint()`. */
+export function cancellation(): ToolCallMiddleware {
+  return (_request, extra, next) => signals.run(extra.signal, next);
+}
+
+/**
+ * Yields to the event loop so incoming messages (including a cancellation)
+ * are processed, then throws if the current tool call was cancelled. Call it
+ * regularly from long loops.
+ *
+ * @throws {UserError} when the client has cancelled the request
+ */
+export async function checkpoint(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+  if (signals.getStore()?.aborted) {
+    throw new UserError('The operation was cancelled by the client');
+  }
+}
+
+type ReportProgress = (progress: {
+  progress: number;
+  total?: number;
+  message?: string;
+}) => Promise<void>;
+
+/**
+ * Wraps FastMCP's `reportProgress` so tight loops can call it freely: updates
+ * are sent at most once per `intervalMs`, plus the final one.
+ */
+export function throttleProgress(
+  reportProgress: ReportProgress,
+  intervalMs = 250,
+): ReportProgress {
+  let lastSent = 0;
+  return async (progress) => {
+    const now = Date.now();
+    const done =
+      progress.total !== undefined && progress.progress >= progress.total;
+    if (done || now - lastSent >= intervalMs) {
+      lastSent = now;
+      await reportProgress(progress);
+    }
+  };
+}
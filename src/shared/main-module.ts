@@ -0,0 +1,23 @@
+import { pathToFileURL } from 'url';
+
+/**
+ * Helpers for modules that are both a runnable script and importable.
+ *
+ * Each example server exports a `startServer(port)` that builds a fresh server
+ * and starts it, and only calls it itself when run directly (`pnpm
+ * example:server:01`). The end-to-end tests import the same function to start
+ * servers on free ports.
+ */
+
+/** A started server, as returned by the examples' `startServer` */
+export interface RunningServer {
+  stop(): Promise<void>;
+}
+
+/**
+ * Whether the module with this `import.meta.url` is the script that was run,
+ * rather than imported
+ */
+export const isMainModule = (moduleUrl: string) =>
+  process.argv[1] !== undefined &&
+  pathToFileURL(process.argv[1]).href === moduleUrl;
@@ -0,0 +1,342 @@
+import fs from 'fs';
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from 'ai';
+import { z } from 'zod';
+
+/**
+ * A scripted language model for running the example clients without an LLM.
+ *
+ * It answers deterministically, so a client → MCP server → tool run gives
+ * the same tool calls every time, offline. Two ways to script it:
+ *
+ * - **Recordings** replay fixed tool-call sequences. Each entry matches a
+ *   prompt and lists the tool calls for each step; the model moves to the
+ *   next step as tool results come back. Use them for flows where later calls
+ *   depend on earlier results.
+ * - **Rules** pick tools for prompts that no recording covers: the first
+ *   matching rule names the tool, otherwise the tool whose name best matches
+ *   the prompt's words is used. Arguments are filled from the tool's input
+ *   schema: numbers, quoted strings and email addresses are taken from the
+ *   prompt in order.
+ *
+ * When there are no more tool calls to make, the model answers with the text
+ * of the tool results.
+ */
+
+export interface MockToolCall {
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+export interface MockRule {
+  pattern: RegExp;
+  toolName: string;
+  /** Arguments to use instead of ones taken from the prompt */
+  args?: Record<string, unknown>;
+}
+
+const recordingSchema = z.array(
+  z.object({
+    /** Matches a prompt that contains this text (case-insensitive) */
+    prompt: z.string().min(1),
+    /** Tool calls for each step, made in parallel within a step */
+    steps: z.array(
+      z.array(
+        z.object({
+          toolName: z.string(),
+          args: z.record(z.unknown()).default({}),
+        }),
+      ),
+    ),
+    /** The final answer; defaults to the text of the turn's tool results */
+    text: z.string().optional(),
+  }),
+);
+
+export type MockRecording = z.infer<typeof recordingSchema>;
+
+/** Arithmetic words the calculators' tool names don't contain */
+export const DEFAULT_RULES: MockRule[] = [
+  { pattern: /\bplus\b/i, toolName: 'add' },
+  { pattern: /\bminus\b/i, toolName: 'subtract' },
+  { pattern: /\b(multiplied|times)\b/i, toolName: 'multiply' },
+  { pattern: /\bdivided\b/i, toolName: 'divide' },
+];
+
+/** Reads a recording file, validating its shape. */
+export function loadRecording(file: string): MockRecording {
+  return recordingSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8')));
+}
+
+// The subset of JSON Schema that tool parameters use
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  // Reused zod schemas become references, e.g. "#/properties/a"
+  $ref?: string;
+}
+
+interface AvailableTool {
+  name: string;
+  description?: string;
+  parameters: JsonSchema;
+}
+
+const words = (text: string) =>
+  text
+    .replaceAll(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(Boolean);
+
+// "stats" matches "statistics" and "preferences" matches "preference"
+const similar = (a: string, b: string) => {
+  const length = Math.min(a.length, b.length, 4);
+  return length >= 3 && a.slice(0, length) === b.slice(0, length);
+};
+
+// Too common to say which tool a prompt is about (calculateWithUnits)
+const FILLER_WORDS = new Set(['and', 'for', 'from', 'into', 'the', 'with']);
+
+const mentions = (promptWords: string[], name: string) =>
+  words(name)
+    .filter((word) => !FILLER_WORDS.has(word))
+    .filter((word) => promptWords.some((w) => similar(w, word))).length;
+
+function resolve(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  let target: unknown = root;
+  for (const key of schema.$ref.split('/').slice(1)) {
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+  return resolve((target as JsonSchema | undefined) ?? {}, root);
+}
+
+/** The JSON types a schema accepts, following unions and references */
+const types = (schema: JsonSchema, root: JsonSchema): string[] => {
+  const resolved = resolve(schema, root);
+  return [
+    ...[resolved.type ?? []].flat(),
+    ...(resolved.anyOf ?? []).flatMap((option) => types(option, root)),
+  ];
+};
+
+/** Takes values out of the prompt in the order they appear */
+function createExtractor(prompt: string) {
+  const numbers = [...prompt.matchAll(/-?\d+(?:\.\d+)?/g)].map((match) =>
+    Number(match[0]),
+  );
+  const quoted = [...prompt.matchAll(/["'`]([^"'`]+)["'`]/g)].map(
+    (match) => match[1]!,
+  );
+  const emails = prompt.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g) ?? [];
+  return {
+    number: () => numbers.shift(),
+    numbers: () => numbers.splice(0),
+    string: (name: string) =>
+      /email/i.test(name) ? emails.shift() : quoted.shift(),
+  };
+}
+
+function argsFromPrompt(prompt: string, parameters: JsonSchema) {
+  const extract = createExtractor(prompt);
+  const promptWords = words(prompt);
+  const required = new Set(parameters.required ?? []);
+  const args: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(parameters.properties ?? {})) {
+    const schema = resolve(property, parameters);
+    // Optional parameters are only set when the prompt mentions them
+    if (!required.has(name) && mentions(promptWords, name) === 0) {
+      continue;
+    }
+    const accepts = types(schema, parameters);
+    let value: unknown;
+    if (schema.enum) {
+      value =
+        schema.enum.find((option) =>
+          promptWords.includes(String(option).toLowerCase()),
+        ) ?? (required.has(name) ? schema.enum[0] : undefined);
+    } else if (accepts.includes('array')) {
+      value = extract.numbers();
+    } else if (accepts.includes('number') || accepts.includes('integer')) {
+      value = extract.number();
+    } else if (accepts.includes('boolean')) {
+      value = !/\b(disable|disabled|off|without)\b/i.test(prompt);
+    } else if (accepts.includes('string')) {
+      value = extract.string(name);
+    }
+    // Like a model guessing: "divide by zero" has no digits to take
+    if (value === undefined && required.has(name)) {
+      value =
+        accepts.includes('number') || accepts.includes('integer') ? 0 : '';
+    }
+    if (value !== undefined) {
+      args[name] = value;
+    }
+  }
+  return args;
+}
+
+function selectTools(
+  prompt: string,
+  tools: AvailableTool[],
+  rules: MockRule[],
+): MockToolCall[] {
+  const byName = new Map(tools.map((tool) => [tool.name, tool]));
+  const rule = rules.find(
+    ({ pattern, toolName }) => byName.has(toolName) && pattern.test(prompt),
+  );
+  if (rule) {
+    const tool = byName.get(rule.toolName)!;
+    return [
+      {
+        toolName: tool.name,
+        args: rule.args ?? argsFromPrompt(prompt, tool.parameters),
+      },
+    ];
+  }
+
+  // Otherwise the tool whose name shares the most words with the prompt
+  const promptWords = words(prompt);
+  let best: { tool: AvailableTool; score: number } | undefined;
+  for (const tool of tools) {
+    const score = mentions(promptWords, tool.name);
+    if (score > (best?.score ?? 0)) {
+      best = { tool, score };
+    }
+  }
+  return best
+    ? [
+        {
+          toolName: best.tool.name,
+          args: argsFromPrompt(prompt, best.tool.parameters),
+        },
+      ]
+    : [];
+}
+
+const textOf = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((part) => textOf(part)).join('');
+  }
+  if (content && typeof content === 'object') {
+    if ('text' in content && typeof content.text === 'string') {
+      return content.text;
+    }
+    // MCP tool results: { content: [{ type: 'text', text }] }
+    if ('content' in content) {
+      return textOf(content.content);
+    }
+  }
+  return JSON.stringify(content);
+};
+
+/** The latest user message and everything the model has done since */
+function currentTurn(prompt: LanguageModelV1Prompt) {
+  const lastUser = prompt.map((message) => message.role).lastIndexOf('user');
+  const userMessage = prompt[lastUser];
+  const since = prompt.slice(lastUser + 1);
+  return {
+    text: userMessage ? textOf(userMessage.content).trim() : '',
+    step: since.filter((message) => message.role === 'assistant').length,
+    toolResults: since
+      .filter((message) => message.role === 'tool')
+      .flatMap((message) => message.content)
+      .map((part) => `${part.toolName}: ${textOf(part.result)}`),
+  };
+}
+
+export function createMockModel({
+  recording = [],
+  rules = DEFAULT_RULES,
+  modelId = 'mock',
+}: {
+  recording?: MockRecording;
+  rules?: MockRule[];
+  modelId?: string;
+} = {}): LanguageModelV1 {
+  const respond = (options: LanguageModelV1CallOptions) => {
+    const turn = currentTurn(options.prompt);
+    const tools: AvailableTool[] =
+      options.mode.type === 'regular'
+        ? (options.mode.tools ?? []).flatMap((tool) =>
+            tool.type === 'function'
+              ? [{ ...tool, parameters: tool.parameters as JsonSchema }]
+              : [],
+          )
+        : [];
+    const recorded = recording.find((entry) =>
+      turn.text.toLowerCase().includes(entry.prompt.toLowerCase()),
+    );
+
+    let calls: MockToolCall[] = [];
+    if (recorded) {
+      calls = recorded.steps[turn.step] ?? [];
+    } else if (turn.step === 0) {
+      calls = selectTools(turn.text, tools, rules);
+    }
+
+    const text =
+      calls.length > 0
+        ? ''
+        : (recorded?.text ??
+          (turn.toolResults.length > 0
+            ? turn.toolResults.join('\n')
+            : "I don't have a tool that can answer that."));
+    return {
+      text,
+      toolCalls: calls.map((call, index) => ({
+        toolCallType: 'function' as const,
+        toolCallId: `call-${turn.step}-${index}`,
+        toolName: call.toolName,
+        args: JSON.stringify(call.args),
+      })),
+      finishReason:
+        calls.length > 0 ? ('tool-calls' as const) : ('stop' as const),
+      usage: { promptTokens: 0, completionTokens: 0 },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async (options) => respond(options),
+    doStream: async (options) => {
+      const { text, toolCalls, finishReason, usage, rawCall } =
+        respond(options);
+      const parts: LanguageModelV1StreamPart[] = [
+        ...toolCalls.map((call) => ({ type: 'tool-call' as const, ...call })),
+        ...(text ? [{ type: 'text-delta' as const, textDelta: text }] : []),
+        { type: 'finish', finishReason, usage },
+      ];
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const part of parts) {
+              controller.enqueue(part);
+            }
+            controller.close();
+          },
+        }),
+        rawCall,
+      };
+    },
+  };
+}
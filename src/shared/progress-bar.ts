@@ -0,0 +1,32 @@
+import type { Progress } from '@modelcontextprotocol/sdk/types';
+
+/**
+ * Renders `notifications/progress` updates as a single-line progress bar for
+ * the example clients. Pass `update` as the `onprogress` request option and
+ * call `done` when the request settles.
+ */
+export function createProgressBar(label: string, width = 30) {
+  let drawn = false;
+
+  const update = ({ progress, total, message }: Progress) => {
+    const detail = message ? ` ${message}` : '';
+    if (total) {
+      const ratio = Math.min(progress / total, 1);
+      const filled = Math.round(ratio * width);
+      process.stdout.write(
+        `\r   ⏳ ${label} [${'█'.repeat(filled)}${'░'.repeat(width - filled)}] ${(ratio * 100).toFixed(1)}%${detail}`,
+      );
+    } else {
+      process.stdout.write(`\r   ⏳ ${label} ${progress}${detail}`);
+    }
+    drawn = true;
+  };
+
+  const done = () => {
+    if (drawn) {
+      process.stdout.write('\n');
+    }
+  };
+
+  return { update, done };
+}
@@ -0,0 +1,197 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { RESOURCE_URIS } from '../02-resources/constants';
+import { startServer as startResourcesServer } from '../02-resources/server';
+import { startServer as startPromptsServer } from '../03-prompts/server';
+import { BOB_API_KEY } from '../06-auth-api-key/constants';
+import { startServer as startPaymentServer } from '../06-auth-api-key/server';
+import { createRepl, parseAnswer } from './repl';
+import { startTestServer, type TestServer } from './test-harness';
+
+describe('repl', () => {
+  let directory: string;
+  const servers: TestServer[] = [];
+  const clients: Client[] = [];
+
+  /**
+   * Connects a REPL to `server` and runs `lines` through it. Lines are read
+   * in order, as commands or as answers to the questions the REPL asks.
+   */
+  async function session(
+    server: TestServer,
+    lines: string[],
+    headers: Record<string, string> = {},
+  ) {
+    const client = new Client({ name: 'repl-tests', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(server.url, {
+        requestInit: { headers },
+      }),
+    );
+    clients.push(client);
+
+    const input = [...lines];
+    const output: string[] = [];
+    const questions: string[] = [];
+    const repl = createRepl(client, {
+      ask: async (question) => {
+        questions.push(question);
+        return input.shift();
+      },
+      print: (text) => output.push(text),
+      saveDirectory: directory,
+    });
+    while (input.length > 0) {
+      if (!(await repl.run(input.shift()!))) {
+        break;
+      }
+    }
+    return { output: output.join('\n'), questions };
+  }
+
+  let payments: TestServer;
+  let resources: TestServer;
+  let prompts: TestServer;
+  const asBob = { 'X-API-Key': BOB_API_KEY };
+
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-repl-'));
+    payments = await startTestServer(startPaymentServer);
+    resources = await startTestServer(startResourcesServer);
+    prompts = await startTestServer(startPromptsServer);
+    servers.push(payments, resources, prompts);
+  });
+
+  afterAll(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await Promise.all(servers.map((server) => server.stop()));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('tools', () => {
+    it('lists tools with their parameters', async () => {
+      const { output } = await session(payments, ['tools'], asBob);
+      expect(output).toContain('🔧 getLatestTransactions(limit?: number)');
+      expect(output).toContain(
+        '🔧 transferFunds(toUsername: string, amount: number)',
+      );
+    });
+
+    it('calls a tool with JSON arguments', async () => {
+      const { output } = await session(
+        payments,
+        ['call getLatestTransactions {"limit": 1}'],
+        asBob,
+      );
+      expect(JSON.parse(output)).toHaveLength(1);
+    });
+
+    it('asks for each parameter until the answer fits the schema', async () => {
+      const { output, questions } = await session(
+        payments,
+        ['call transferFunds', 'alice', 'lots', '', '25'],
+        asBob,
+      );
+      expect(questions).toEqual([
+        '   toUsername (string): ',
+        '   amount (number): ',
+        '   amount (number): ',
+        '   amount (number): ',
+      ]);
+      expect(output).toContain('   Expected number');
+      expect(output).toContain('   This one is required');
+      expect(output).toContain('Conceptual transfer of 25 from bob to alice');
+    });
+
+    it('reports mistakes and keeps going', async () => {
+      const { output } = await session(
+        payments,
+        ['call nope', 'call getLatestTransactions [1]', 'dance', 'tools'],
+        asBob,
+      );
+      expect(output).toContain('❌ No tool named "nope"');
+      expect(output).toContain('❌ Arguments must be a JSON object');
+      expect(output).toContain('❌ Unknown command "dance"');
+      expect(output).toContain('🔧 getAccountBalance()');
+    });
+
+    it('stops at exit', async () => {
+      const { output } = await session(payments, ['exit', 'tools'], asBob);
+      expect(output).toBe('');
+    });
+  });
+
+  describe('resources', () => {
+    it('lists and reads text resources', async () => {
+      const { output } = await session(resources, [
+        'resources',
+        `read ${RESOURCE_URIS.SERVER_CONFIG}`,
+      ]);
+      expect(output).toContain(
+        `📄 ${RESOURCE_URIS.SERVER_CONFIG}  Server Configuration (application/json)`,
+      );
+      expect(output).toContain('"name": "resources-deep-dive-server"');
+    });
+
+    it('writes images to the save directory', async () => {
+      const { output } = await session(resources, [
+        `read ${RESOURCE_URIS.MCP_LOGO}`,
+      ]);
+      const file = path.join(directory, 'mcp-logo.png');
+      expect(output).toBe(`💾 Saved image/png to ${file}`);
+      // The PNG signature
+      expect(fs.readFileSync(file).subarray(0, 4)).toEqual(
+        Buffer.from([0x89, 0x50, 0x4E, 0x47]),
+      );
+    });
+
+    it('says when the server has none', async () => {
+      const { output } = await session(payments, ['resources'], asBob);
+      expect(output).toBe('This server has no resources');
+    });
+  });
+
+  describe('prompts', () => {
+    it('renders a prompt with JSON arguments', async () => {
+      const { output } = await session(prompts, [
+        'prompt greeting {"name": "Ada", "time_of_day": "evening"}',
+      ]);
+      expect(output).toMatch(/\[user\]\n.*Ada/);
+      expect(output).toContain('evening');
+    });
+
+    it('asks for the arguments, skipping optional ones left empty', async () => {
+      const { output, questions } = await session(prompts, [
+        'prompt greeting',
+        'Ada',
+        '',
+      ]);
+      expect(questions).toEqual(['   name: ', '   time_of_day (optional): ']);
+      expect(output).toContain('Ada');
+    });
+  });
+
+  describe('parseAnswer', () => {
+    it('converts answers to the types the schema accepts', () => {
+      expect(parseAnswer('5', { type: 'integer' })).toBe(5);
+      expect(() => parseAnswer('5.5', { type: 'integer' })).toThrow(
+        'Expected integer',
+      );
+      expect(parseAnswer('true', { type: 'boolean' })).toBe(true);
+      expect(parseAnswer('[1, 2]', { type: 'array' })).toEqual([1, 2]);
+      expect(
+        parseAnswer('0.1', { anyOf: [{ type: 'number' }, { type: 'string' }] }),
+      ).toBe(0.1);
+      expect(
+        parseAnswer('high', { type: 'string', enum: ['low', 'high'] }),
+      ).toBe('high');
+      expect(() =>
+        parseAnswer('medium', { type: 'string', enum: ['low', 'high'] }),
+      ).toThrow('Expected one of "low" | "high"');
+    });
+  });
+});
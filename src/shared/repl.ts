@@ -0,0 +1,652 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import {
+  type CallToolResult,
+  type ContentBlock,
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types';
+import { isTextual, saveBinary } from './binary-content';
+import { ConfigError, flagValue } from './config';
+import { isMainModule } from './main-module';
+
+/**
+ * An interactive client for exploring any MCP server from the terminal,
+ * without the browser-based MCP Inspector.
+ *
+ *   pnpm repl --url http://localhost:8085/mcp --api-key <key>
+ *   pnpm repl --url http://localhost:8089/mcp --bearer <token>
+ *   pnpm repl --stdio src/04-stdio-filesystem/server.ts
+ *
+ * Type `help` at the prompt for the commands. Binary resources, images and
+ * audio are written to `--save-dir` (a temporary directory by default), and
+ * the command history is kept in `~/.mcp_repl_history`, or the file named by
+ * `MCP_REPL_HISTORY`.
+ */
+
+/** Mistakes in what was typed, reported without a stack trace */
+export class ReplError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplError';
+  }
+}
+
+/** Asks for a line of input; undefined once the input has ended */
+export type Ask = (question: string) => Promise<string | undefined>;
+
+export interface ReplOptions {
+  ask: Ask;
+  print: (text: string) => void;
+  /** Where images and other binary content are written */
+  saveDirectory: string;
+}
+
+export interface Repl {
+  /** Runs one command line. Resolves to false when the user asked to exit. */
+  run(line: string): Promise<boolean>;
+}
+
+/** The parts of JSON Schema used to describe and build tool arguments */
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  items?: JsonSchema;
+}
+
+const COMMANDS = [
+  ['tools', 'List the tools and their parameters'],
+  ['resources', 'List the resources and resource templates'],
+  ['prompts', 'List the prompts and their arguments'],
+  [
+    'call <tool> [json]',
+    'Call a tool; without JSON arguments, asks for each parameter',
+  ],
+  ['read <uri>', 'Read a resource; binary content is saved to a file'],
+  [
+    'prompt <name> [json]',
+    'Render a prompt; without JSON arguments, asks for each one',
+  ],
+  ['help', 'Show this list'],
+  ['exit', 'Disconnect and quit'],
+] as const;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/** The types a schema accepts, including those of its `anyOf` branches */
+const schemaTypes = (schema: JsonSchema): string[] => [
+  ...new Set([
+    ...(Array.isArray(schema.type)
+      ? schema.type
+      : schema.type
+        ? [schema.type]
+        : []),
+    ...(schema.anyOf ?? []).flatMap((branch) => schemaTypes(branch)),
+  ]),
+];
+
+const describeType = (schema: JsonSchema) =>
+  schema.enum
+    ? schema.enum.map((value) => JSON.stringify(value)).join(' | ')
+    : schemaTypes(schema).join(' | ') || 'any';
+
+/** Arguments typed after a command, which must be a JSON object */
+export function parseJsonArguments(text: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ReplError(`Arguments must be JSON, e.g. {"a": 1}; got ${text}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ReplError('Arguments must be a JSON object, e.g. {"a": 1}');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Converts a typed answer to a value the schema accepts: numbers and booleans
+ * from their text, arrays and objects from JSON, anything else as a string.
+ */
+export function parseAnswer(answer: string, schema: JsonSchema): unknown {
+  if (schema.enum) {
+    const match = schema.enum.find((value) => String(value) === answer);
+    if (match === undefined) {
+      throw new ReplError(`Expected one of ${describeType(schema)}`);
+    }
+    return match;
+  }
+
+  const types = schemaTypes(schema);
+  const accepts = (type: string) => types.length === 0 || types.includes(type);
+  const number = Number(answer);
+  if (
+    (accepts('number') || accepts('integer')) &&
+    answer.trim() !== '' &&
+    Number.isFinite(number) &&
+    (accepts('number') || Number.isInteger(number))
+  ) {
+    return number;
+  }
+  if (accepts('boolean') && ['true', 'false'].includes(answer)) {
+    return answer === 'true';
+  }
+  if (accepts('array') || accepts('object')) {
+    try {
+      const parsed: unknown = JSON.parse(answer);
+      if (typeof parsed === 'object' && parsed !== null) {
+        return parsed;
+      }
+    } catch {
+      // Not JSON; a string may still be accepted below
+    }
+  }
+  if (accepts('string')) {
+    return answer;
+  }
+  throw new ReplError(`Expected ${describeType(schema)}`);
+}
+
+/** Creates the command interpreter for a connected client */
+export function createRepl(
+  client: Client,
+  { ask, print, saveDirectory }: ReplOptions,
+): Repl {
+  // Asks again until the answer is usable; undefined for a skipped optional
+  async function askFor<T>(
+    question: string,
+    required: boolean,
+    parse: (answer: string) => T,
+  ): Promise<T | undefined> {
+    for (;;) {
+      const answer = await ask(question);
+      if (answer === undefined) {
+        throw new ReplError('The input ended before all arguments were given');
+      }
+      if (answer === '') {
+        if (!required) {
+          return undefined;
+        }
+        print('   This one is required');
+        continue;
+      }
+      try {
+        return parse(answer);
+      } catch (error) {
+        print(`   ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  function save(name: string, mimeType: string | undefined, base64: string) {
+    const file = saveBinary(
+      saveDirectory,
+      name,
+      mimeType,
+      Buffer.from(base64, 'base64'),
+    );
+    print(`💾 Saved ${mimeType ?? 'binary content'} to ${file}`);
+  }
+
+  const printContents = (contents: ReadResourceResult['contents']) => {
+    for (const content of contents) {
+      if ('blob' in content && typeof content.blob === 'string') {
+        if (isTextual(content.mimeType)) {
+          print(Buffer.from(content.blob, 'base64').toString('utf8'));
+        } else {
+          save(content.uri, content.mimeType, content.blob);
+        }
+      } else if (
+        'text' in content &&
+        typeof content.text === 'string' &&
+        content.mimeType?.startsWith('image/')
+      ) {
+        // Some servers send images as base64 in `text`
+        save(content.uri, content.mimeType, content.text);
+      } else if ('text' in content) {
+        print(String(content.text));
+      }
+    }
+  };
+
+  // Content of tool results and prompt messages; binary content is saved
+  // under `name`
+  const printContent = (content: ContentBlock, name: string) => {
+    switch (content.type) {
+      case 'text': {
+        print(content.text);
+        break;
+      }
+      case 'image':
+      case 'audio': {
+        save(name, content.mimeType, content.data);
+        break;
+      }
+      case 'resource': {
+        printContents([content.resource]);
+        break;
+      }
+      case 'resource_link': {
+        print(`🔗 ${content.uri}`);
+        break;
+      }
+    }
+  };
+
+  const hasCapability = (
+    capability: 'tools' | 'resources' | 'prompts',
+  ): boolean => {
+    if (client.getServerCapabilities()?.[capability]) {
+      return true;
+    }
+    print(`This server has no ${capability}`);
+    return false;
+  };
+
+  async function findTool(name: string): Promise<Tool> {
+    const { tools } = await client.listTools();
+    const tool = tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      throw new ReplError(
+        `No tool named "${name}". Tools: ${tools.map((candidate) => candidate.name).join(', ')}`,
+      );
+    }
+    return tool;
+  }
+
+  async function listTools() {
+    if (!hasCapability('tools')) {
+      return;
+    }
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      const properties = (tool.inputSchema.properties ?? {}) as Record<
+        string,
+        JsonSchema
+      >;
+      const required = tool.inputSchema.required ?? [];
+      const parameters = Object.entries(properties)
+        .map(
+          ([name, schema]) =>
+            `${name}${required.includes(name) ? '' : '?'}: ${describeType(schema)}`,
+        )
+        .join(', ');
+      print(`🔧 ${tool.name}(${parameters})`);
+      if (tool.description) {
+        print(`   ${tool.description}`);
+      }
+    }
+  }
+
+  async function listResources() {
+    if (!hasCapability('resources')) {
+      return;
+    }
+    const { resources } = await client.listResources();
+    for (const resource of resources) {
+      print(
+        `📄 ${resource.uri}  ${resource.name}${resource.mimeType ? ` (${resource.mimeType})` : ''}`,
+      );
+    }
+    // Servers without templates may not implement the method at all
+    const { resourceTemplates } = await client
+      .listResourceTemplates()
+      .catch((error: unknown) => {
+        if (
+          error instanceof McpError &&
+          error.code === ErrorCode.MethodNotFound
+        ) {
+          return { resourceTemplates: [] };
+        }
+        throw error;
+      });
+    for (const template of resourceTemplates) {
+      print(`🧩 ${template.uriTemplate}  ${template.name}`);
+    }
+  }
+
+  async function listPrompts() {
+    if (!hasCapability('prompts')) {
+      return;
+    }
+    const { prompts } = await client.listPrompts();
+    for (const prompt of prompts) {
+      const argumentNames = (prompt.arguments ?? [])
+        .map(({ name, required }) => `${name}${required ? '' : '?'}`)
+        .join(', ');
+      print(`💬 ${prompt.name}(${argumentNames})`);
+      if (prompt.description) {
+        print(`   ${prompt.description}`);
+      }
+    }
+  }
+
+  async function buildToolArguments(tool: Tool) {
+    const properties = (tool.inputSchema.properties ?? {}) as Record<
+      string,
+      JsonSchema
+    >;
+    const required = tool.inputSchema.required ?? [];
+    const args: Record<string, unknown> = {};
+    for (const [name, schema] of Object.entries(properties)) {
+      if (schema.description) {
+        print(`   ${name}: ${schema.description}`);
+      }
+      const isRequired = required.includes(name);
+      const defaultNote =
+        schema.default === undefined
+          ? ''
+          : `, default ${JSON.stringify(schema.default)}`;
+      const value = await askFor(
+        `   ${name} (${describeType(schema)}${isRequired ? '' : `, optional${defaultNote}`}): `,
+        isRequired,
+        (answer) => parseAnswer(answer, schema),
+      );
+      if (value !== undefined) {
+        args[name] = value;
+      }
+    }
+    return args;
+  }
+
+  async function callTool(name: string, json: string) {
+    const tool = await findTool(name);
+    const args = json
+      ? parseJsonArguments(json)
+      : await buildToolArguments(tool);
+    const result = (await client.callTool({
+      name,
+      arguments: args,
+    })) as CallToolResult;
+
+    if (result.isError) {
+      print('❌ The tool reported an error:');
+    }
+    for (const content of result.content) {
+      printContent(content, name);
+    }
+    if (result.content.length === 0 && result.structuredContent) {
+      print(JSON.stringify(result.structuredContent, null, 2));
+    }
+  }
+
+  async function readResource(uri: string) {
+    if (!uri) {
+      throw new ReplError('Usage: read <uri>');
+    }
+    const { contents } = await client.readResource({ uri });
+    printContents(contents);
+  }
+
+  async function renderPrompt(name: string, json: string) {
+    const { prompts } = await client.listPrompts();
+    const prompt = prompts.find((candidate) => candidate.name === name);
+    if (!prompt) {
+      throw new ReplError(
+        `No prompt named "${name}". Prompts: ${prompts.map((candidate) => candidate.name).join(', ')}`,
+      );
+    }
+
+    let args: Record<string, string> = {};
+    if (json) {
+      args = Object.fromEntries(
+        Object.entries(parseJsonArguments(json)).map(([key, value]) => [
+          key,
+          typeof value === 'string' ? value : JSON.stringify(value),
+        ]),
+      );
+    } else {
+      for (const argument of prompt.arguments ?? []) {
+        if (argument.description) {
+          print(`   ${argument.name}: ${argument.description}`);
+        }
+        const value = await askFor(
+          `   ${argument.name}${argument.required ? '' : ' (optional)'}: `,
+          argument.required === true,
+          (answer) => answer,
+        );
+        if (value !== undefined) {
+          args[argument.name] = value;
+        }
+      }
+    }
+
+    const { description, messages } = await client.getPrompt({
+      name,
+      arguments: args,
+    });
+    if (description) {
+      print(`📝 ${description}`);
+    }
+    for (const { role, content } of messages) {
+      print(`\n[${role}]`);
+      printContent(content, `${name}-${role}`);
+    }
+  }
+
+  return {
+    async run(line) {
+      // The first word after the command is a name; the rest may be JSON
+      const [, command = '', name = '', json = ''] =
+        /^(\S*)\s*(\S*)\s*(.*)$/s.exec(line.trim()) ?? [];
+      try {
+        switch (command) {
+          case '': {
+            break;
+          }
+          case 'tools': {
+            await listTools();
+            break;
+          }
+          case 'resources': {
+            await listResources();
+            break;
+          }
+          case 'prompts': {
+            await listPrompts();
+            break;
+          }
+          case 'call': {
+            if (!name) {
+              throw new ReplError('Usage: call <tool> [json]');
+            }
+            await callTool(name, json);
+            break;
+          }
+          case 'read': {
+            await readResource(name);
+            break;
+          }
+          case 'prompt': {
+            if (!name) {
+              throw new ReplError('Usage: prompt <name> [json]');
+            }
+            await renderPrompt(name, json);
+            break;
+          }
+          case 'help': {
+            for (const [usage, description] of COMMANDS) {
+              print(`  ${usage.padEnd(22)} ${description}`);
+            }
+            break;
+          }
+          case 'exit':
+          case 'quit': {
+            return false;
+          }
+          default: {
+            throw new ReplError(
+              `Unknown command "${command}". Type "help" for the commands.`,
+            );
+          }
+        }
+      } catch (error) {
+        print(`❌ ${errorMessage(error)}`);
+      }
+      return true;
+    },
+  };
+}
+
+function createTransport(argv: string[]): Transport {
+  const url = flagValue(argv, '--url', 'http://localhost:8087/mcp');
+  const command = flagValue(
+    argv,
+    '--stdio',
+    'src/04-stdio-filesystem/server.ts',
+  );
+  if ((url === undefined) === (command === undefined)) {
+    throw new ConfigError(
+      'Usage: pnpm repl (--url <mcp url> [--api-key <key>] [--bearer <token>] | --stdio <server command>) [--save-dir <directory>]',
+    );
+  }
+
+  if (command) {
+    const [program = '', ...args] = command.split(/\s+/);
+    // Scripts run with tsx, so TypeScript servers work without a build
+    return /\.[cm]?[jt]s$/.test(program)
+      ? new StdioClientTransport({
+          command: process.execPath,
+          args: ['--import', 'tsx', path.resolve(program), ...args],
+          stderr: 'ignore',
+        })
+      : new StdioClientTransport({ command: program, args, stderr: 'ignore' });
+  }
+
+  const headers: Record<string, string> = {};
+  const apiKey = flagValue(argv, '--api-key', 'sk_...');
+  const bearer = flagValue(argv, '--bearer', 'an access token');
+  if (apiKey) {
+    headers['x-api-key'] = apiKey;
+  }
+  if (bearer) {
+    headers.Authorization = `Bearer ${bearer}`;
+  }
+  return new StreamableHTTPClientTransport(new URL(url!), {
+    requestInit: { headers },
+  });
+}
+
+/**
+ * Line input from the terminal with persistent history. Lines are queued, so
+ * commands piped in are all run, not only those that arrive while a question
+ * is waiting.
+ */
+function createTerminal(historyFile: string) {
+  const history = fs.existsSync(historyFile)
+    ? fs.readFileSync(historyFile, 'utf8').split('\n').filter(Boolean)
+    : [];
+  const terminal = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history,
+    historySize: 500,
+    removeHistoryDuplicates: true,
+  });
+  terminal.on('history', (lines: string[]) => {
+    fs.writeFileSync(historyFile, lines.join('\n'));
+  });
+  terminal.on('SIGINT', () => terminal.close());
+
+  const queued: string[] = [];
+  // Called with the next line, or with nothing once the input has ended
+  let waiting: ((line?: string) => void) | undefined;
+  let ended = false;
+  terminal.on('line', (line) => {
+    if (waiting) {
+      waiting(line);
+      waiting = undefined;
+    } else {
+      queued.push(line);
+    }
+  });
+  terminal.on('close', () => {
+    ended = true;
+    waiting?.();
+    waiting = undefined;
+  });
+
+  const ask: Ask = async (question) => {
+    if (queued.length > 0) {
+      return queued.shift();
+    }
+    if (ended) {
+      return;
+    }
+    terminal.setPrompt(question);
+    terminal.prompt();
+    return new Promise((resolve) => {
+      waiting = resolve;
+    });
+  };
+  return { ask, close: () => terminal.close() };
+}
+
+async function main(argv: string[]) {
+  const transport = createTransport(argv);
+  const saveDirectory = path.resolve(
+    flagValue(argv, '--save-dir', 'downloads') ??
+      path.join(os.tmpdir(), 'mcp-repl'),
+  );
+
+  const client = new Client({ name: 'mcp-repl', version: '1.0.0' });
+  await client.connect(transport);
+  const server = client.getServerVersion();
+  const capabilities = (['tools', 'resources', 'prompts'] as const).filter(
+    (capability) => client.getServerCapabilities()?.[capability],
+  );
+  console.log(
+    `✅ Connected to ${server?.name ?? 'the server'} ${server?.version ?? ''}`,
+  );
+  console.log(
+    `   It has ${capabilities.join(', ') || 'no tools, resources or prompts'}. Type "help" for the commands.\n`,
+  );
+
+  const terminal = createTerminal(
+    process.env.MCP_REPL_HISTORY ??
+      path.join(os.homedir(), '.mcp_repl_history'),
+  );
+  const repl = createRepl(client, {
+    ask: terminal.ask,
+    print: (text) => console.log(text),
+    saveDirectory,
+  });
+  try {
+    for (;;) {
+      const line = await terminal.ask('mcp> ');
+      if (line === undefined || !(await repl.run(line))) {
+        break;
+      }
+    }
+  } finally {
+    terminal.close();
+    await client.close();
+  }
+}
+
+if (isMainModule(import.meta.url)) {
+  try {
+    await main(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof Error)) {
+      throw error;
+    }
+    // Connection failures carry the reason (e.g. ECONNREFUSED) as the cause
+    const cause =
+      error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    console.error(`❌ ${error.message}${cause}`);
+    process.exitCode = 1;
+  }
+}
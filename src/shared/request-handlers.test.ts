@@ -0,0 +1,45 @@
+import { FastMCP } from 'fastmcp';
+import { afterEach, describe, expect, it } from 'vitest';
+import { requestHandlers, wrapRequestHandlers } from './request-handlers';
+import { connectHttp, startTestServer, type TestServer } from './test-harness';
+
+// Runs against the SDK server FastMCP creates for each session, so an SDK
+// upgrade that moves the request handlers fails here
+describe('request handlers', () => {
+  let testServer: TestServer | undefined;
+
+  afterEach(async () => {
+    await testServer?.stop();
+    testServer = undefined;
+  });
+
+  it('runs the requests of each session through the wrapper', async () => {
+    const handled: string[] = [];
+    testServer = await startTestServer(async (port) => {
+      const server = new FastMCP({ name: 'wrapped', version: '1.0.0' });
+      server.addTool({
+        name: 'ping',
+        description: 'Answers pong',
+        execute: async () => 'pong',
+      });
+      server.on('connect', ({ session }) => {
+        wrapRequestHandlers(session.server, (method, handler) => (...args) => {
+          handled.push(method);
+          return handler(...args);
+        });
+      });
+      await server.start({ transportType: 'httpStream', httpStream: { port } });
+      return server;
+    });
+
+    const client = await connectHttp(testServer.url);
+    expect(await client.callTool('ping')).toMatchObject({ text: 'pong' });
+    await client.sdk.close();
+
+    expect(handled).toEqual(['initialize', 'tools/call']);
+  });
+
+  it('refuses a server without the handlers it expects', () => {
+    expect(() => requestHandlers({})).toThrow(/_requestHandlers/);
+  });
+});
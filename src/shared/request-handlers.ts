@@ -0,0 +1,62 @@
+/**
+ * Access to the request handlers of the MCP SDK server behind a FastMCP
+ * session.
+ *
+ * Some examples need to run code around requests FastMCP handles (tool call
+ * middleware, request metrics) or to answer requests it doesn't (resource
+ * subscriptions). The SDK's public `setRequestHandler` can't do either: it
+ * replaces a handler rather than wrapping it, refuses methods whose
+ * capability wasn't declared before the session connected, and only accepts
+ * schemas from FastMCP's own copy of the SDK.
+ *
+ * So the handlers are reached through the SDK's private `_requestHandlers`
+ * map, here and nowhere else. The map's shape is checked before it is used,
+ * and request-handlers.test.ts runs against FastMCP's copy of the SDK, so an
+ * SDK upgrade that moves it fails loudly instead of silently skipping the
+ * wrappers.
+ */
+
+export type RequestHandler = (
+  request: unknown,
+  ...rest: unknown[]
+) => Promise<object>;
+
+/**
+ * The request handlers of `sdkServer` (for example `session.server`), keyed
+ * by method.
+ *
+ * @throws {Error} if the SDK no longer keeps its handlers where expected
+ */
+export function requestHandlers(
+  sdkServer: object,
+): Map<string, RequestHandler> {
+  const handlers = (sdkServer as { _requestHandlers?: unknown })
+    ._requestHandlers;
+  // Every SDK server answers ping, so a map without it isn't the right one
+  if (
+    !(handlers instanceof Map) ||
+    typeof handlers.get('ping') !== 'function'
+  ) {
+    throw new TypeError(
+      'The MCP SDK server no longer keeps its request handlers in _requestHandlers; update src/shared/request-handlers.ts for this SDK version',
+    );
+  }
+  return handlers as Map<string, RequestHandler>;
+}
+
+/**
+ * Passes every request handler of `sdkServer` through `wrap` and uses what it
+ * returns instead, including handlers set later (FastMCP sets some again
+ * each time its lists change).
+ */
+export function wrapRequestHandlers(
+  sdkServer: object,
+  wrap: (method: string, handler: RequestHandler) => RequestHandler,
+) {
+  const handlers = requestHandlers(sdkServer);
+  const set = handlers.set.bind(handlers);
+  for (const [method, handler] of handlers) {
+    set(method, wrap(method, handler));
+  }
+  handlers.set = (method, handler) => set(method, wrap(method, handler));
+}
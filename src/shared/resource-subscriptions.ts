@@ -0,0 +1,138 @@
+import type { FastMCP, FastMCPSession, FastMCPSessionAuth } from 'fastmcp';
+import {
+  ErrorCode,
+  type InitializeResult,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types';
+import { requestHandlers } from './request-handlers';
+
+/**
+ * Resource subscriptions for FastMCP servers.
+ *
+ * FastMCP doesn't handle `resources/subscribe`, so this registers the
+ * subscribe and unsubscribe handlers on the SDK server behind each session,
+ * advertises the `resources.subscribe` capability, and remembers which
+ * sessions subscribed to which URIs. The server calls `notify(uri)` when a
+ * resource changes, and only its subscribers get
+ * `notifications/resources/updated`.
+ */
+
+export interface ResourceSubscriptionOptions {
+  /** The URIs clients may subscribe to */
+  subscribable: readonly string[];
+  /**
+   * Called when the set of URIs with at least one subscriber changes, e.g.
+   * to start watching for changes on the first subscription
+   */
+  onChange?: (subscribed: ReadonlySet<string>) => void;
+}
+
+export interface ResourceSubscriptions {
+  /** Tells the sessions subscribed to `uri` that it changed */
+  notify(uri: string): void;
+  /** The URIs with at least one subscriber */
+  subscribed(): ReadonlySet<string>;
+}
+
+// FastMCP has its own copy of the SDK, so its server is typed through it
+type SessionServer = FastMCPSession['server'];
+
+/** The URI a subscribe or unsubscribe request is for */
+function requestedUri(
+  schema: typeof SubscribeRequestSchema | typeof UnsubscribeRequestSchema,
+  request: unknown,
+) {
+  const result = schema.safeParse(request);
+  if (!result.success) {
+    throw new McpError(ErrorCode.InvalidParams, 'Expected a resource URI');
+  }
+  return result.data.params.uri;
+}
+
+export function useResourceSubscriptions<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  { subscribable, onChange }: ResourceSubscriptionOptions,
+): ResourceSubscriptions {
+  // The URIs each session's SDK server is subscribed to
+  const sessions = new Map<SessionServer, Set<string>>();
+
+  const subscribed = () =>
+    new Set([...sessions.values()].flatMap((uris) => [...uris]));
+
+  const update = (
+    sdkServer: SessionServer,
+    change: (uris: Set<string>) => void,
+  ) => {
+    const before = subscribed().size;
+    const uris = sessions.get(sdkServer) ?? new Set();
+    change(uris);
+    if (uris.size > 0) {
+      sessions.set(sdkServer, uris);
+    } else {
+      sessions.delete(sdkServer);
+    }
+    const after = subscribed();
+    if (after.size !== before) {
+      onChange?.(after);
+    }
+  };
+
+  server.on('connect', ({ session }) => {
+    const sdkServer = session.server;
+
+    const handlers = requestHandlers(sdkServer);
+
+    // Capabilities can't be registered once a session is connected, which it
+    // is by now, so the initialize result is amended instead
+    const initialize = handlers.get('initialize');
+    if (initialize) {
+      handlers.set('initialize', async (...args) => {
+        const result = (await initialize(...args)) as InitializeResult;
+        return {
+          ...result,
+          capabilities: {
+            ...result.capabilities,
+            resources: { ...result.capabilities.resources, subscribe: true },
+          },
+        };
+      });
+    }
+
+    handlers.set('resources/subscribe', async (request) => {
+      const uri = requestedUri(SubscribeRequestSchema, request);
+      if (!subscribable.includes(uri)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Can't subscribe to ${uri}. Resources with updates: ${subscribable.join(', ')}`,
+          { uri },
+        );
+      }
+      update(sdkServer, (uris) => uris.add(uri));
+      return {};
+    });
+    handlers.set('resources/unsubscribe', async (request) => {
+      const uri = requestedUri(UnsubscribeRequestSchema, request);
+      update(sdkServer, (uris) => uris.delete(uri));
+      return {};
+    });
+  });
+
+  server.on('disconnect', ({ session }) => {
+    update(session.server, (uris) => uris.clear());
+  });
+
+  return {
+    notify(uri) {
+      for (const [sdkServer, uris] of sessions) {
+        if (uris.has(uri)) {
+          // A session that has just gone away can't be told; its
+          // subscriptions end when it disconnects
+          sdkServer.sendResourceUpdated({ uri }).catch(() => {});
+        }
+      }
+    },
+    subscribed,
+  };
+}
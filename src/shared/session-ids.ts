@@ -0,0 +1,22 @@
+import type { FastMCP, FastMCPSessionAuth } from 'fastmcp';
+
+/**
+ * Makes `sessionId` available to tools on HTTP Stream servers.
+ *
+ * FastMCP reads the session ID from the transport as soon as it connects, but
+ * the transport only assigns one while handling the `initialize` request that
+ * follows, so tool contexts see `sessionId: undefined`. This copies the ID
+ * onto the session once the client has finished initializing.
+ */
+export function trackSessionIds<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+) {
+  server.on('connect', ({ session }) => {
+    const sdkServer = session.server;
+    const previous = sdkServer.oninitialized;
+    sdkServer.oninitialized = () => {
+      session.sessionId ??= sdkServer.transport?.sessionId;
+      previous?.();
+    };
+  });
+}
@@ -0,0 +1,58 @@
+import type { ToolCallMiddleware } from './tool-call-middleware';
+
+/**
+ * Attaches `structuredContent` to successful results of tools that declare an
+ * `outputSchema`.
+ *
+ * FastMCP 3 only lets `execute` return content blocks, so these tools return
+ * their value serialised as JSON in a single text block - the backwards
+ * compatible form the MCP specification recommends - and this middleware
+ * parses it back into the structured field clients validate against.
+ *
+ * FastMCP puts the extras of a `UserError` in `structuredContent` too, but
+ * clients validate error results against the tool's `outputSchema` as well
+ * and reject the whole response when the error payload doesn't match. For
+ * these tools the payload is moved into a second text block, as JSON.
+ */
+export function structuredOutput(
+  hasOutputSchema: (toolName: string) => boolean,
+): ToolCallMiddleware {
+  return async (request, _extra, next) => {
+    const result = await next();
+    if (!hasOutputSchema(request.params.name)) {
+      return result;
+    }
+    if (result.isError) {
+      const { structuredContent, ...error } = result;
+      return structuredContent
+        ? {
+            ...error,
+            content: [
+              ...error.content,
+              { type: 'text', text: JSON.stringify(structuredContent) },
+            ],
+          }
+        : result;
+    }
+    if (result.structuredContent) {
+      return result;
+    }
+
+    const [block] = result.content;
+    if (result.content.length !== 1 || block?.type !== 'text') {
+      return result;
+    }
+    try {
+      const value: unknown = JSON.parse(block.text);
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return {
+          ...result,
+          structuredContent: value as Record<string, unknown>,
+        };
+      }
+    } catch {
+      // Not JSON - leave the plain text result as it is
+    }
+    return result;
+  };
+}
@@ -0,0 +1,145 @@
+import net from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+import type {
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+} from '@modelcontextprotocol/sdk/types';
+import type { RunningServer } from './main-module';
+
+/**
+ * Helpers for the end-to-end tests: start an example server, connect a real
+ * MCP client to it and use its tools, resources and prompts.
+ *
+ * HTTP servers run inside the test process on a free port, started with the
+ * `startServer` their module exports. Stdio servers (example 04) run as a
+ * child process, the way an MCP client starts them.
+ */
+
+export interface TestServer {
+  port: number;
+  /** The MCP endpoint */
+  url: URL;
+  stop(): Promise<void>;
+}
+
+export interface ToolResult {
+  /** The text content, joined */
+  text: string;
+  isError: boolean;
+  structuredContent?: Record<string, unknown>;
+}
+
+export interface TestClient {
+  /** The underlying SDK client, for anything the helpers don't cover */
+  sdk: Client;
+  listTools(): Promise<string[]>;
+  /** Calls a tool. Tool errors come back with `isError`, not as exceptions. */
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  listResources(): Promise<Resource[]>;
+  readResource(uri: string): Promise<ReadResourceResult['contents']>;
+  listPrompts(): Promise<Prompt[]>;
+  getPrompt(
+    name: string,
+    args?: Record<string, string>,
+  ): Promise<GetPromptResult>;
+  close(): Promise<void>;
+}
+
+/** A port nothing is listening on, found by letting the OS pick one */
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.unref();
+    probe.on('error', reject);
+    probe.listen(0, 'localhost', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/** Starts an example's HTTP server on a free port */
+export async function startTestServer(
+  startServer: (port: number) => Promise<RunningServer>,
+): Promise<TestServer> {
+  const port = await freePort();
+  const running = await startServer(port);
+  return {
+    port,
+    url: new URL(`http://localhost:${port}/mcp`),
+    stop: () => running.stop(),
+  };
+}
+
+/** Connects a test client over any transport */
+export async function connectTransport(
+  transport: Transport,
+): Promise<TestClient> {
+  const sdk = new Client({ name: 'e2e-tests', version: '1.0.0' });
+  await sdk.connect(transport);
+
+  return {
+    sdk,
+    listTools: async () => {
+      const { tools } = await sdk.listTools();
+      return tools.map((tool) => tool.name);
+    },
+    callTool: async (name, args = {}) => {
+      const result = await sdk.callTool({ name, arguments: args });
+      const content = (result.content ?? []) as {
+        type: string;
+        text?: string;
+      }[];
+      return {
+        text: content.map((part) => part.text ?? '').join(''),
+        isError: result.isError === true,
+        structuredContent: result.structuredContent as
+          Record<string, unknown> | undefined,
+      };
+    },
+    listResources: async () => {
+      const { resources } = await sdk.listResources();
+      return resources;
+    },
+    readResource: async (uri) => {
+      const { contents } = await sdk.readResource({ uri });
+      return contents;
+    },
+    listPrompts: async () => {
+      const { prompts } = await sdk.listPrompts();
+      return prompts;
+    },
+    getPrompt: (name, args = {}) => sdk.getPrompt({ name, arguments: args }),
+    close: () => sdk.close(),
+  };
+}
+
+/**
+ * Connects to an HTTP server. `headers` are sent with every request, e.g. an
+ * API key.
+ */
+export function connectHttp(
+  url: URL,
+  { headers = {} }: { headers?: Record<string, string> } = {},
+): Promise<TestClient> {
+  return connectTransport(
+    new StreamableHTTPClientTransport(url, { requestInit: { headers } }),
+  );
+}
+
+/** Starts a stdio server script with tsx and connects to it */
+export function connectStdio(script: string): Promise<TestClient> {
+  return connectTransport(
+    new StdioClientTransport({
+      command: process.execPath,
+      args: ['--import', 'tsx', script],
+      // The server's startup logs would otherwise end up in the test output
+      stderr: 'pipe',
+    }),
+  );
+}
@@ -0,0 +1,85 @@
+import type { FastMCP, FastMCPSessionAuth } from 'fastmcp';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types';
+import { type RequestHandler, wrapRequestHandlers } from './request-handlers';
+
+/**
+ * Middleware around `tools/call` requests.
+ *
+ * FastMCP's `execute` callbacks only see parsed arguments and a small context,
+ * so cross-cutting concerns that need the raw request (its JSON-RPC id, the
+ * abort signal, the final result) hook in here instead. A middleware can
+ * inspect the request, short-circuit by throwing an `McpError`, or call
+ * `next()` and post-process the result.
+ */
+export type ToolCallMiddleware = (
+  request: CallToolRequest,
+  extra: ToolCallExtra,
+  next: () => Promise<CallToolResult>,
+) => Promise<CallToolResult>;
+
+export type ToolCallExtra = RequestHandlerExtra<
+  ServerRequest,
+  ServerNotification
+>;
+
+interface MiddlewareChain {
+  base?: RequestHandler;
+  middlewares: ToolCallMiddleware[];
+}
+
+// Keyed by the SDK server that backs each FastMCP session
+const chains = new WeakMap<object, MiddlewareChain>();
+
+function run(
+  chain: MiddlewareChain,
+  index: number,
+  request: CallToolRequest,
+  extra: ToolCallExtra,
+): Promise<CallToolResult> {
+  const middleware = chain.middlewares[index];
+  if (!middleware) {
+    return chain.base!(request, extra) as Promise<CallToolResult>;
+  }
+  return middleware(request, extra, () =>
+    run(chain, index + 1, request, extra),
+  );
+}
+
+function install(protocol: object): MiddlewareChain {
+  // FastMCP sets the tools/call handler again every time the tool list
+  // changes, so the chain stays in front of whichever handler is current
+  const chain: MiddlewareChain = { middlewares: [] };
+  const dispatch = (request: unknown, extra: unknown) =>
+    run(chain, 0, request as CallToolRequest, extra as ToolCallExtra);
+  wrapRequestHandlers(protocol, (method, handler) => {
+    if (method !== 'tools/call') {
+      return handler;
+    }
+    chain.base = handler;
+    return dispatch;
+  });
+
+  chains.set(protocol, chain);
+  return chain;
+}
+
+/**
+ * Runs `middleware` around every `tools/call` request in every session of
+ * `server`. Middlewares run in the order they are added.
+ */
+export function useToolCallMiddleware<T extends FastMCPSessionAuth>(
+  server: FastMCP<T>,
+  middleware: ToolCallMiddleware,
+) {
+  server.on('connect', ({ session }) => {
+    const protocol = session.server;
+    const chain = chains.get(protocol) ?? install(protocol);
+    chain.middlewares.push(middleware);
+  });
+}
@@ -0,0 +1,39 @@
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport';
+
+/**
+ * `addEventListener` for MCP transports.
+ *
+ * Transports report messages, errors and closing through a single callback
+ * property each (`onmessage`, `onerror`, `onclose`), which the client that
+ * owns the transport sets. A listener added here is called after whatever
+ * callback was there before, so watching a transport doesn't take it away
+ * from its client.
+ */
+
+interface TransportEvents {
+  message: Parameters<NonNullable<Transport['onmessage']>>;
+  error: [error: Error];
+  close: [];
+}
+
+const CALLBACKS = {
+  message: 'onmessage',
+  error: 'onerror',
+  close: 'onclose',
+} as const;
+
+type Callback = (...args: unknown[]) => void;
+
+export function addTransportListener<E extends keyof TransportEvents>(
+  transport: Transport,
+  event: E,
+  listener: (...args: TransportEvents[E]) => void,
+) {
+  const callbacks = transport as unknown as Record<string, Callback | undefined>;
+  const property = CALLBACKS[event];
+  const previous = callbacks[property];
+  callbacks[property] = (...args) => {
+    previous?.(...args);
+    (listener as Callback)(...args);
+  };
+}
@@ -1,5 +1,15 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
-  test: {},
+  test: {
+    include: ['src/**/*.test.ts'],
+    // The servers log every connection and call; only show the logs of
+    // failing tests
+    silent: 'passed-only',
+    // Each test file starts real servers, which takes a few seconds on a slow
+    // machine
+    hookTimeout: 30_000,
+    testTimeout: 15_000,
+    unstubEnvs: true,
+  },
 });